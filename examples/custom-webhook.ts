@@ -55,10 +55,7 @@ const CustomWebhookPlugin: Plugin = createWebhookPlugin({
       },
       
       // Optional: Filter events
-      // shouldSend: (payload) => {
-      //   // Only send error events
-      //   return payload.eventType === 'session.error';
-      // },
+      // filter: { field: 'eventType', equals: 'session.error' },
       
       // Optional: Custom headers
       headers: {
@@ -62,6 +62,13 @@ const HomeAssistantPlugin: Plugin = createWebhookPlugin({
         'file.edited',
         'command.executed',
       ],
+
+      // message.part.updated fires for every streamed chunk; send only the
+      // latest update once a session has been quiet for 2 seconds
+      debounce: {
+        waitMs: 2000,
+        maxWaitMs: 10000,
+      },
       
       // Transform for Home Assistant
       transformPayload: (payload) => {
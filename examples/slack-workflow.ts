@@ -47,6 +47,13 @@ const SlackWorkflowPlugin: Plugin = createWebhookPlugin({
         'message.updated',
         'message.part.updated',
       ],
+
+      // message.part.updated fires for every streamed chunk; send only the
+      // latest update once a session has been quiet for 2 seconds
+      debounce: {
+        waitMs: 2000,
+        maxWaitMs: 10000,
+      },
       
       // Transform for Slack Workflow Builder
       transformPayload: (payload) => {
@@ -1,4 +1,34 @@
-import { BaseEventPayload, WebhookConfig } from './types.js';
+import {
+  BaseEventPayload,
+  WebhookConfig,
+  BatchSummaryPayload,
+  BATCH_SUMMARY_EVENT,
+} from './types.js';
+
+/**
+ * Default batch summary: a markdown digest of event counts by type
+ */
+export function defaultBatchSummary(events: BaseEventPayload[]): string {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    counts.set(event.eventType, (counts.get(event.eventType) ?? 0) + 1);
+  }
+
+  const sessions = new Set(events.map((event) => event.sessionId).filter(Boolean));
+
+  let summary = `**${events.length} event${events.length === 1 ? '' : 's'}**`;
+  summary += ` from ${events[0].timestamp} to ${events[events.length - 1].timestamp}`;
+  if (sessions.size > 0) {
+    summary += ` across ${sessions.size} session${sessions.size === 1 ? '' : 's'}`;
+  }
+  summary += '\n\n';
+
+  for (const [eventType, count] of counts) {
+    summary += `- \`${eventType}\`: ${count}\n`;
+  }
+
+  return summary.trimEnd();
+}
 
 /**
  * Manages rate limiting and queuing for a specific webhook
@@ -7,6 +37,8 @@ export class BatchHandler {
   private queue: BaseEventPayload[] = [];
   private requestTimestamps: number[] = [];
   private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  /** When the oldest queued event was queued, for maxBatchDelayMs */
+  private queuedSince: number | null = null;
   private debug: boolean;
 
   constructor(
@@ -50,6 +82,7 @@ export class BatchHandler {
     } else {
       // Rate limited, add to queue
       this.queue.push(payload);
+      this.queuedSince ??= now;
       
       if (this.debug) {
         console.log(
@@ -62,7 +95,11 @@ export class BatchHandler {
         // Calculate time until we can send again
         const oldestTimestamp = this.requestTimestamps[0];
         const timeUntilExpiry = windowMs - (now - oldestTimestamp);
-        const delayMs = Math.max(timeUntilExpiry, 100); // At least 100ms
+        const maxBatchDelayMs = this.isBatchMode() ? this.config.rateLimit.maxBatchDelayMs : undefined;
+        const delayMs = Math.max(
+          maxBatchDelayMs !== undefined ? Math.min(timeUntilExpiry, maxBatchDelayMs) : timeUntilExpiry,
+          100
+        ); // At least 100ms
 
         if (this.debug) {
           console.log(
@@ -71,14 +108,39 @@ export class BatchHandler {
         }
 
         this.flushTimer = setTimeout(() => {
-          this.flush();
+          this.flushFromTimer();
         }, delayMs);
       }
     }
   }
 
   /**
-   * Flush the queue and send queued events individually
+   * Whether queued events are collapsed into a single summary request
+   */
+  private isBatchMode(): boolean {
+    const rateLimit = this.config.rateLimit;
+    if (!rateLimit) {
+      return false;
+    }
+    return rateLimit.batch ?? (
+      rateLimit.maxBatchDelayMs !== undefined || rateLimit.generateSummary !== undefined
+    );
+  }
+
+  /**
+   * Flush on a timer, where nobody awaits the result (e.g. a throwing
+   * generateSummary)
+   */
+  private flushFromTimer(): void {
+    this.flush().catch((error) => {
+      if (this.debug) {
+        console.error(`[BatchHandler] Error flushing queued events for ${this.config.url}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Flush the queue, either as one summary request or event by event
    */
   private async flush(): Promise<void> {
     if (this.queue.length === 0) {
@@ -91,6 +153,11 @@ export class BatchHandler {
       this.flushTimer = null;
     }
 
+    if (this.isBatchMode()) {
+      await this.flushBatch();
+      return;
+    }
+
     const { maxRequests, windowMs } = this.config.rateLimit!;
 
     if (this.debug) {
@@ -127,13 +194,81 @@ export class BatchHandler {
         }
 
         this.flushTimer = setTimeout(() => {
-          this.flush();
+          this.flushFromTimer();
         }, delayMs);
         break;
       }
     }
   }
 
+  /**
+   * Send all queued events as a single summary payload
+   */
+  private async flushBatch(): Promise<void> {
+    const { maxRequests, windowMs } = this.config.rateLimit!;
+
+    const now = Date.now();
+    this.requestTimestamps = this.requestTimestamps.filter(
+      (ts) => now - ts < windowMs
+    );
+
+    // Past maxBatchDelayMs the summary goes out even though the window is full
+    const maxBatchDelayMs = this.config.rateLimit!.maxBatchDelayMs;
+    const deadline = maxBatchDelayMs !== undefined && this.queuedSince !== null
+      ? this.queuedSince + maxBatchDelayMs
+      : undefined;
+
+    if (this.requestTimestamps.length >= maxRequests && (deadline === undefined || now < deadline)) {
+      // Wait for the window to free up or the max batch delay, whichever comes first
+      const oldestTimestamp = this.requestTimestamps[0];
+      const timeUntilExpiry = windowMs - (now - oldestTimestamp);
+      const delayMs = Math.max(
+        deadline !== undefined ? Math.min(timeUntilExpiry, deadline - now) : timeUntilExpiry,
+        100
+      );
+
+      if (this.debug) {
+        console.log(
+          `[BatchHandler] Still rate limited, rescheduling batch in ${delayMs}ms (${this.queue.length} events queued)`
+        );
+      }
+
+      this.flushTimer = setTimeout(() => {
+        this.flushFromTimer();
+      }, delayMs);
+      return;
+    }
+
+    const events = this.queue.splice(0);
+    this.queuedSince = null;
+    this.requestTimestamps.push(Date.now());
+
+    if (this.debug) {
+      console.log(
+        `[BatchHandler] Sending batch of ${events.length} event(s) for ${this.config.url}`
+      );
+    }
+
+    await this.sendCallback(this.buildBatchPayload(events), true);
+  }
+
+  /**
+   * Collapse queued events into a single summary payload
+   */
+  private buildBatchPayload(events: BaseEventPayload[]): BatchSummaryPayload {
+    const generateSummary = this.config.rateLimit?.generateSummary ?? defaultBatchSummary;
+
+    return {
+      timestamp: new Date().toISOString(),
+      eventType: BATCH_SUMMARY_EVENT,
+      summary: generateSummary(events),
+      eventCount: events.length,
+      batchStartTime: events[0].timestamp,
+      batchEndTime: events[events.length - 1].timestamp,
+      events,
+    };
+  }
+
   /**
    * Cleanup resources
    */
@@ -0,0 +1,156 @@
+import {
+  BudgetConfig,
+  BudgetExceededPayload,
+  BudgetLimits,
+  BUDGET_EXCEEDED_EVENT,
+  NormalizedEventPayload,
+  UsageTotals,
+} from './types.js';
+import { UsageAccumulator } from './usage.js';
+import { localDate } from './usage-tracker.js';
+
+interface BudgetWatcherOptions {
+  budget: BudgetConfig;
+  debug?: boolean;
+  onExceeded: (payload: BudgetExceededPayload) => Promise<void>;
+}
+
+/**
+ * Value of a budget metric for some usage
+ */
+function measure(usage: UsageTotals, metric: keyof BudgetLimits): number {
+  return metric === 'cost'
+    ? usage.cost
+    : usage.tokens.input + usage.tokens.output + usage.tokens.reasoning;
+}
+
+/**
+ * Watches assistant message usage and emits budget.exceeded the first time a
+ * session or a day goes over one of its limits
+ */
+export class BudgetWatcher {
+  private sessions: Map<string, UsageAccumulator> = new Map();
+  private days: Map<string, UsageAccumulator> = new Map();
+  private sessionTitles: Map<string, string> = new Map();
+  /** Thresholds already reported, e.g. "session:ses_1:cost" */
+  private exceeded: Set<string> = new Set();
+  private budget: BudgetConfig;
+  private debug: boolean;
+  private onExceeded: (payload: BudgetExceededPayload) => Promise<void>;
+
+  constructor(options: BudgetWatcherOptions) {
+    this.budget = options.budget;
+    this.debug = options.debug ?? false;
+    this.onExceeded = options.onExceeded;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const info = payload.properties.info;
+    const sessionId = payload.sessionId;
+    if (!sessionId) return;
+
+    switch (payload.eventType) {
+      case 'session.updated':
+        if (info?.title) this.sessionTitles.set(sessionId, info.title);
+        return;
+
+      case 'session.deleted':
+        this.forgetSession(sessionId);
+        return;
+
+      case 'message.updated':
+        break;
+
+      default:
+        return;
+    }
+
+    if (info?.role !== 'assistant' || !info.id) return;
+
+    const date = localDate(info.time?.created ?? Date.now());
+    this.forgetOtherDays(date);
+
+    const sessionUsage = this.getUsage(this.sessions, sessionId);
+    const dayUsage = this.getUsage(this.days, date);
+    sessionUsage.record(info.id, info.tokens, info.cost);
+    dayUsage.record(info.id, info.tokens, info.cost);
+
+    await this.check('session', `session:${sessionId}`, this.budget.session, sessionUsage.totals(), payload);
+    await this.check('daily', `daily:${date}`, this.budget.daily, dayUsage.totals(), payload, date);
+  }
+
+  private async check(
+    scope: BudgetExceededPayload['scope'],
+    key: string,
+    limits: BudgetLimits | undefined,
+    usage: UsageTotals,
+    event: NormalizedEventPayload,
+    date?: string
+  ): Promise<void> {
+    for (const metric of ['cost', 'tokens'] as const) {
+      const limit = limits?.[metric];
+      const value = measure(usage, metric);
+      const thresholdKey = `${key}:${metric}`;
+
+      if (limit === undefined || value <= limit || this.exceeded.has(thresholdKey)) {
+        continue;
+      }
+      this.exceeded.add(thresholdKey);
+
+      if (this.debug) {
+        console.log(`[BudgetWatcher] ${scope} ${metric} budget exceeded for ${key}: ${value} > ${limit}`);
+      }
+
+      try {
+        await this.onExceeded({
+          timestamp: new Date().toISOString(),
+          eventType: BUDGET_EXCEEDED_EVENT,
+          sessionId: event.sessionId,
+          sessionTitle: this.sessionTitles.get(event.sessionId!),
+          scope,
+          metric,
+          limit,
+          value,
+          date,
+          usage,
+        });
+      } catch (error) {
+        if (this.debug) {
+          console.error(`[BudgetWatcher] Error emitting budget alert:`, error);
+        }
+      }
+    }
+  }
+
+  private getUsage(map: Map<string, UsageAccumulator>, key: string): UsageAccumulator {
+    let usage = map.get(key);
+    if (!usage) {
+      usage = new UsageAccumulator();
+      map.set(key, usage);
+    }
+    return usage;
+  }
+
+  private forgetSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    this.sessionTitles.delete(sessionId);
+    this.exceeded.delete(`session:${sessionId}:cost`);
+    this.exceeded.delete(`session:${sessionId}:tokens`);
+  }
+
+  /**
+   * Only the current day counts towards the daily budget
+   */
+  private forgetOtherDays(date: string): void {
+    for (const day of this.days.keys()) {
+      if (day < date) {
+        this.days.delete(day);
+        this.exceeded.delete(`daily:${day}:cost`);
+        this.exceeded.delete(`daily:${day}:tokens`);
+      }
+    }
+  }
+}
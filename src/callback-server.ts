@@ -0,0 +1,251 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { CallbackServerConfig, PermissionActions, PermissionResponse, PluginContext } from './types.js';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_TTL_SECS = 3600;
+const ACTION_PATH = '/permission';
+
+const RESPONSES: PermissionResponse[] = ['once', 'always', 'reject'];
+
+const RESPONSE_LABELS: Record<PermissionResponse, string> = {
+  once: 'Allow once',
+  always: 'Always allow',
+  reject: 'Reject',
+};
+
+/** Contents of a signed action token */
+interface ActionClaims {
+  /** Session ID */
+  s: string;
+  /** Permission ID */
+  p: string;
+  /** Response */
+  r: PermissionResponse;
+  /** Expiry, Unix milliseconds */
+  e: number;
+}
+
+/** A permission request whose links have not been used yet */
+interface IssuedPermission {
+  title?: string;
+  expiresAt: number;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Small local HTTP endpoint behind the action URLs in
+ * agent.awaiting_permission payloads. Opening a link shows a confirmation
+ * page; submitting it replies to the permission through the OpenCode SDK.
+ * Links are signed, expire, and stop working once any answer is given.
+ */
+export class CallbackServer {
+  private server?: http.Server;
+  private starting?: Promise<string>;
+  private baseUrl?: string;
+  private issued: Map<string, IssuedPermission> = new Map();
+  private context: PluginContext;
+  private options: CallbackServerConfig;
+  private secret: string;
+  private debug: boolean;
+
+  constructor(context: PluginContext, options: CallbackServerConfig = {}, debug: boolean = false) {
+    this.context = context;
+    this.options = options;
+    this.secret = options.secret ?? randomBytes(32).toString('hex');
+    this.debug = debug;
+  }
+
+  /**
+   * Base URL of the running server, once started
+   */
+  get url(): string | undefined {
+    return this.baseUrl;
+  }
+
+  /**
+   * Start listening (once); resolves with the base URL used in links
+   */
+  start(): Promise<string> {
+    if (!this.starting) {
+      this.starting = new Promise<string>((resolve, reject) => {
+        const server = http.createServer((req, res) => {
+          void this.handleRequest(req, res);
+        });
+        server.once('error', reject);
+        server.listen(this.options.port ?? 0, this.options.host ?? DEFAULT_HOST, () => {
+          const { address, port } = server.address() as AddressInfo;
+          const host = address.includes(':') ? `[${address}]` : address;
+          this.baseUrl = (this.options.publicUrl ?? `http://${host}:${port}`).replace(/\/+$/, '');
+          // Don't keep the process alive just for the callbacks
+          server.unref();
+
+          if (this.debug) {
+            console.log(`[CallbackServer] Listening on ${host}:${port}, links use ${this.baseUrl}`);
+          }
+          resolve(this.baseUrl);
+        });
+        this.server = server;
+      });
+      // Let a failed start be retried
+      this.starting.catch(() => {
+        this.starting = undefined;
+      });
+    }
+    return this.starting;
+  }
+
+  /**
+   * Signed one-time URLs answering a permission request
+   */
+  async createActions(sessionId: string, permissionId: string, title?: string): Promise<PermissionActions> {
+    const baseUrl = await this.start();
+    const expiresAt = Date.now() + (this.options.ttlSecs ?? DEFAULT_TTL_SECS) * 1000;
+
+    this.pruneExpired();
+    this.issued.set(permissionId, { title, expiresAt });
+
+    const actions = {} as PermissionActions;
+    for (const response of RESPONSES) {
+      const token = this.sign({ s: sessionId, p: permissionId, r: response, e: expiresAt });
+      actions[response] = `${baseUrl}${ACTION_PATH}?token=${token}`;
+    }
+    return actions;
+  }
+
+  /**
+   * Invalidate a request's links, e.g. because it was answered in OpenCode
+   */
+  revoke(permissionId: string): void {
+    this.issued.delete(permissionId);
+  }
+
+  /**
+   * Stop listening and forget every issued link
+   */
+  async stop(): Promise<void> {
+    this.issued.clear();
+    const server = this.server;
+    this.server = undefined;
+    this.starting = undefined;
+    this.baseUrl = undefined;
+
+    if (server?.listening) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private sign(claims: ActionClaims): string {
+    const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${body}.${this.hmac(body)}`;
+  }
+
+  private hmac(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  /**
+   * Claims of a token with a valid signature, or undefined
+   */
+  private verify(token: string): ActionClaims | undefined {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(this.hmac(body));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return undefined;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as ActionClaims;
+      return RESPONSES.includes(claims.r) ? claims : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== ACTION_PATH) {
+      return this.respond(res, 404, 'Not found');
+    }
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return this.respond(res, 405, 'Method not allowed');
+    }
+
+    const token = url.searchParams.get('token') ?? '';
+    const claims = this.verify(token);
+    if (!claims) {
+      return this.respond(res, 403, 'This link is not valid.');
+    }
+
+    const issued = this.issued.get(claims.p);
+    if (!issued || claims.e < Date.now()) {
+      return this.respond(res, 410, 'This permission request has already been answered or has expired.');
+    }
+
+    const description = issued.title ? `: ${escapeHtml(issued.title)}` : '';
+
+    // Link previews and scanners fetch URLs, so opening a link only asks for confirmation
+    if (req.method === 'GET') {
+      return this.respond(
+        res,
+        200,
+        `<p>OpenCode is asking for permission${description}</p>`
+          + `<form method="post" action="${ACTION_PATH}?token=${escapeHtml(token)}">`
+          + `<button type="submit">${RESPONSE_LABELS[claims.r]}</button></form>`
+      );
+    }
+
+    // Claim the request before replying so a double submit can't answer twice
+    this.issued.delete(claims.p);
+
+    try {
+      await this.reply(claims);
+    } catch (error) {
+      this.issued.set(claims.p, issued);
+      if (this.debug) {
+        console.error(`[CallbackServer] Failed to reply to permission ${claims.p}:`, error);
+      }
+      return this.respond(res, 502, 'OpenCode could not be reached. Please try again.');
+    }
+
+    if (this.debug) {
+      console.log(`[CallbackServer] Replied "${claims.r}" to permission ${claims.p}`);
+    }
+    this.respond(res, 200, `<p>${RESPONSE_LABELS[claims.r]}${description}</p><p>You can close this page.</p>`);
+  }
+
+  private async reply(claims: ActionClaims): Promise<void> {
+    const result = await this.context.client.postSessionIdPermissionsPermissionId({
+      path: { id: claims.s, permissionID: claims.p },
+      body: { response: claims.r },
+    });
+
+    // The SDK reports HTTP errors in the result instead of throwing
+    if (result?.error) {
+      throw new Error(typeof result.error === 'string' ? result.error : JSON.stringify(result.error));
+    }
+  }
+
+  private respond(res: http.ServerResponse, statusCode: number, body: string): void {
+    res.writeHead(statusCode, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(`<!doctype html><html><body>${body}</body></html>`);
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [permissionId, issued] of this.issued) {
+      if (issued.expiresAt < now) {
+        this.issued.delete(permissionId);
+      }
+    }
+  }
+}
@@ -0,0 +1,301 @@
+import * as path from 'path';
+import {
+  ChangeSummary,
+  ChangeTrackingConfig,
+  FileChange,
+  FilesChangedPayload,
+  FILES_CHANGED_EVENT,
+  NormalizedEventPayload,
+  PluginContext,
+} from './types.js';
+
+const DEFAULT_MAX_DIFF_BYTES = 4000;
+
+/** Beyond this many differing lines, a file counts as entirely rewritten */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Tools whose filePath argument is the file they change */
+const EDIT_TOOLS = ['edit', 'write', 'patch'];
+
+interface SessionChanges {
+  title?: string;
+  /** Files edited since the last digest */
+  edited: Set<string>;
+  /** Latest before/after contents from session.diff */
+  latest: Map<string, { before: string; after: string }>;
+  /** Contents as of the last digest */
+  reported: Map<string, string>;
+}
+
+interface ChangeTrackerOptions {
+  /** Used to resolve paths and to run git for diffs; both are skipped without it */
+  context?: PluginContext;
+  config?: ChangeTrackingConfig;
+  debug?: boolean;
+  /** Emit files.changed when a session goes idle after changing files */
+  onChanged?: (payload: FilesChangedPayload) => Promise<void>;
+}
+
+/**
+ * Path relative to the worktree, so tool inputs (absolute) and session
+ * diffs (relative) name a file the same way. Paths outside it are kept.
+ */
+export function worktreeRelativePath(context: PluginContext | undefined, file: string): string {
+  const root = context?.worktree || context?.directory;
+  if (!root || !path.isAbsolute(file)) {
+    return file;
+  }
+  const relative = path.relative(root, file);
+  return relative.startsWith('..') || path.isAbsolute(relative) ? file : relative;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n');
+}
+
+/**
+ * First maxBytes of a diff, cut at a line boundary where possible
+ */
+function truncateDiff(diff: string, maxBytes: number): string {
+  const cut = Buffer.from(diff).subarray(0, maxBytes).toString('utf8');
+  const lastNewline = cut.lastIndexOf('\n');
+  return lastNewline > 0 ? cut.slice(0, lastNewline + 1) : cut;
+}
+
+/**
+ * Lines added and removed between two versions of a file, from the length of
+ * the shortest edit script (Myers). Very different versions are counted as
+ * a full rewrite rather than diffed.
+ */
+export function countLineChanges(before: string, after: string): { additions: number; deletions: number } {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        // d = additions + deletions, and both versions keep the same common lines
+        return { additions: (d + m - n) / 2, deletions: (d + n - m) / 2 };
+      }
+    }
+  }
+
+  return { additions: m, deletions: n };
+}
+
+/**
+ * Collects the files each session changes between digests, with line counts
+ * from OpenCode's session.diff and, optionally, a unified diff from git.
+ * Used by the completion middleware for agent.completed and on its own for
+ * files.changed.
+ */
+export class ChangeTracker {
+  private sessions: Map<string, SessionChanges> = new Map();
+  private lastActiveSessionId?: string;
+  private context?: PluginContext;
+  private config: ChangeTrackingConfig;
+  private debug: boolean;
+  private onChanged?: (payload: FilesChangedPayload) => Promise<void>;
+
+  constructor(options: ChangeTrackerOptions = {}) {
+    this.context = options.context;
+    this.config = options.config ?? {};
+    this.debug = options.debug ?? false;
+    this.onChanged = options.onChanged;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const props = payload.properties;
+
+    // file.edited does not say which session edited the file
+    const sessionId = payload.eventType === 'file.edited'
+      ? this.lastActiveSessionId
+      : payload.sessionId;
+    if (!sessionId) return;
+
+    switch (payload.eventType) {
+      case 'session.updated':
+        this.getSession(sessionId).title = props.info?.title;
+        break;
+
+      case 'message.updated':
+        this.lastActiveSessionId = sessionId;
+        break;
+
+      case 'message.part.updated': {
+        this.lastActiveSessionId = sessionId;
+        const part = props.part;
+        const filePath = part?.state?.input?.filePath;
+        if (part?.type === 'tool' && part.state?.status === 'completed' && EDIT_TOOLS.includes(part.tool) && filePath) {
+          this.getSession(sessionId).edited.add(this.relativePath(filePath));
+        }
+        break;
+      }
+
+      case 'file.edited':
+        if (props.file) this.getSession(sessionId).edited.add(this.relativePath(props.file));
+        break;
+
+      case 'session.diff': {
+        const session = this.getSession(sessionId);
+        for (const entry of props.diff ?? []) {
+          if (entry?.file) {
+            session.latest.set(this.relativePath(entry.file), { before: entry.before ?? '', after: entry.after ?? '' });
+          }
+        }
+        break;
+      }
+
+      case 'session.idle':
+        if (this.onChanged) await this.emitChanges(sessionId);
+        break;
+
+      case 'session.deleted':
+        this.sessions.delete(sessionId);
+        break;
+    }
+  }
+
+  /**
+   * Files the session changed since the previous call, or undefined when
+   * there are none
+   */
+  async takeChanges(sessionId: string): Promise<ChangeSummary | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    const files: FileChange[] = [];
+    const candidates = new Set([...session.edited, ...session.latest.keys()]);
+
+    for (const file of candidates) {
+      const latest = session.latest.get(file);
+      if (!latest) {
+        files.push({ file });
+        continue;
+      }
+
+      const baseline = session.reported.get(file) ?? latest.before;
+      if (baseline === latest.after && !session.edited.has(file)) {
+        continue;
+      }
+      files.push({ file, ...countLineChanges(baseline, latest.after) });
+      session.reported.set(file, latest.after);
+    }
+    session.edited.clear();
+
+    if (files.length === 0) {
+      return undefined;
+    }
+
+    const summary: ChangeSummary = {
+      files,
+      additions: files.reduce((sum, change) => sum + (change.additions ?? 0), 0),
+      deletions: files.reduce((sum, change) => sum + (change.deletions ?? 0), 0),
+    };
+
+    if (this.config.diff) {
+      const diff = await this.gitDiff(files.map((change) => change.file));
+      if (diff) {
+        const maxBytes = this.config.maxDiffBytes ?? DEFAULT_MAX_DIFF_BYTES;
+        summary.diffTruncated = Buffer.byteLength(diff) > maxBytes;
+        summary.diff = summary.diffTruncated ? truncateDiff(diff, maxBytes) : diff;
+      }
+    }
+
+    return summary;
+  }
+
+  private getSession(sessionId: string): SessionChanges {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { edited: new Set(), latest: new Map(), reported: new Map() };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private relativePath(file: string): string {
+    return worktreeRelativePath(this.context, file);
+  }
+
+  private async gitDiff(files: string[]): Promise<string | undefined> {
+    const directory = this.context?.worktree || this.context?.directory;
+    if (!this.context?.$ || !directory) {
+      return undefined;
+    }
+
+    try {
+      const output = await this.context.$`git -C ${directory} diff --no-color --no-ext-diff HEAD -- ${files}`.quiet().nothrow();
+      if (output.exitCode !== 0) {
+        return undefined;
+      }
+      return output.text() || undefined;
+    } catch (error) {
+      if (this.debug) {
+        console.log(`[ChangeTracker] git diff failed: ${error}`);
+      }
+      return undefined;
+    }
+  }
+
+  private async emitChanges(sessionId: string): Promise<void> {
+    const changes = await this.takeChanges(sessionId);
+    if (!changes) return;
+
+    const payload: FilesChangedPayload = {
+      timestamp: new Date().toISOString(),
+      eventType: FILES_CHANGED_EVENT,
+      sessionId,
+      sessionTitle: this.sessions.get(sessionId)?.title,
+      ...changes,
+    };
+
+    if (this.debug) {
+      console.log(
+        `[ChangeTracker] Session ${sessionId} changed ${changes.files.length} file(s), +${changes.additions} -${changes.deletions}`
+      );
+    }
+
+    try {
+      await this.onChanged?.(payload);
+    } catch (error) {
+      if (this.debug) {
+        console.error(`[ChangeTracker] Error emitting files.changed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Clear all tracked state
+   */
+  destroy(): void {
+    this.sessions.clear();
+  }
+}
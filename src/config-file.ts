@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { WebhookConfig, WebhookPluginConfig } from './types.js';
+import { validateAgainstSchema } from './config-schema.js';
+import { compileTemplate, TemplateError } from './template.js';
+import { compileFilter, FilterError } from './filter.js';
+
+/**
+ * File names searched for, in order of preference
+ */
+export const CONFIG_FILE_NAMES = [
+  'opencode-webhooks.json',
+  'opencode-webhooks.yaml',
+  'opencode-webhooks.yml',
+];
+
+/**
+ * Error thrown when a configuration file cannot be parsed or is invalid
+ */
+export class ConfigFileError extends Error {
+  constructor(
+    message: string,
+    public filePath: string,
+    public details: string[] = []
+  ) {
+    super(details.length > 0 ? `${message}:\n  - ${details.join('\n  - ')}` : message);
+    this.name = 'ConfigFileError';
+  }
+}
+
+export interface ConfigFileOptions {
+  /** Optional: Explicit path to a configuration file (skips the search) */
+  path?: string;
+
+  /** Optional: Project directory to search (default: the OpenCode project directory) */
+  directory?: string;
+
+  /** Optional: Global configuration directory (default: ~/.config/opencode) */
+  globalDirectory?: string;
+}
+
+/**
+ * Replace ${VAR} references with environment variables so secrets can stay
+ * out of shared configuration files
+ */
+function substituteEnv(value: unknown, missing: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => {
+      const envValue = process.env[name];
+      if (envValue === undefined) {
+        missing.add(name);
+        return '';
+      }
+      return envValue;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteEnv(item, missing));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteEnv(item, missing)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse, validate and compile the contents of a configuration file
+ */
+export function parseConfigFile(content: string, filePath: string): WebhookPluginConfig {
+  let raw: unknown;
+  try {
+    raw = filePath.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new ConfigFileError(
+      `Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      filePath
+    );
+  }
+
+  const errors = validateAgainstSchema(raw);
+  if (errors.length > 0) {
+    throw new ConfigFileError(`Invalid configuration in ${filePath}`, filePath, errors);
+  }
+
+  const missing = new Set<string>();
+  const resolved = substituteEnv(raw, missing) as Record<string, any>;
+  if (missing.size > 0) {
+    throw new ConfigFileError(
+      `Environment variable(s) referenced in ${filePath} are not set`,
+      filePath,
+      Array.from(missing)
+    );
+  }
+
+  const { $schema: _schema, webhooks, ...options } = resolved;
+
+  // Surface template and filter mistakes now, with the file name, rather than on the first event
+  const compileErrors: string[] = [];
+  webhooks.forEach((webhook: Record<string, any>, index: number) => {
+    try {
+      if (webhook.template !== undefined) compileTemplate(webhook.template);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      compileErrors.push(`$.webhooks[${index}].template: ${error.message}`);
+    }
+    try {
+      if (webhook.filter !== undefined) compileFilter(webhook.filter);
+    } catch (error) {
+      if (!(error instanceof FilterError)) throw error;
+      compileErrors.push(`$.webhooks[${index}].filter: ${error.message}`);
+    }
+  });
+  if (compileErrors.length > 0) {
+    throw new ConfigFileError(`Invalid configuration in ${filePath}`, filePath, compileErrors);
+  }
+
+  return {
+    ...options,
+    webhooks: webhooks as WebhookConfig[],
+  };
+}
+
+/**
+ * Directories searched for a configuration file, most specific first
+ */
+function getSearchDirectories(options: ConfigFileOptions): string[] {
+  const directories: string[] = [];
+
+  if (options.directory) {
+    directories.push(options.directory, path.join(options.directory, '.opencode'));
+  }
+
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  directories.push(options.globalDirectory ?? path.join(configHome, 'opencode'));
+
+  return directories;
+}
+
+/**
+ * Find the first configuration file in the project or global config directory
+ */
+export async function findConfigFile(options: ConfigFileOptions = {}): Promise<string | undefined> {
+  if (options.path) {
+    return options.path;
+  }
+
+  for (const directory of getSearchDirectories(options)) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = path.join(directory, fileName);
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch {
+        // Not here, keep looking
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Load the webhook configuration from opencode-webhooks.json / .yaml.
+ * Returns undefined when no configuration file exists.
+ */
+export async function loadConfigFile(
+  options: ConfigFileOptions = {}
+): Promise<WebhookPluginConfig | undefined> {
+  const filePath = await findConfigFile(options);
+  if (!filePath) {
+    return undefined;
+  }
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new ConfigFileError(
+      `Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      filePath
+    );
+  }
+
+  return parseConfigFile(content, filePath);
+}
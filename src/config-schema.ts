@@ -0,0 +1,335 @@
+/**
+ * JSON schema for opencode-webhooks.json / .yaml configuration files.
+ * A copy is published as schema/opencode-webhooks.schema.json so editors can
+ * validate files with "$schema"; tests keep the two in sync.
+ */
+export const CONFIG_SCHEMA_ID = 'https://unpkg.com/opencode-webhooks/schema/opencode-webhooks.schema.json';
+
+export const configSchema: Record<string, any> = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: CONFIG_SCHEMA_ID,
+  title: 'opencode-webhooks configuration',
+  type: 'object',
+  additionalProperties: false,
+  required: ['webhooks'],
+  properties: {
+    $schema: { type: 'string' },
+    debug: { type: 'boolean' },
+    defaultTimeoutMs: { type: 'integer', minimum: 0 },
+    defaultRetry: { $ref: '#/definitions/retry' },
+    outbox: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        path: { type: 'string', minLength: 1 },
+        maxAgeMs: { type: 'integer', minimum: 0 },
+      },
+    },
+    enrich: {
+      description: 'Add project, git and environment context to every payload',
+      anyOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            git: { type: 'boolean' },
+            hostname: { type: 'boolean' },
+          },
+        },
+      ],
+    },
+    permissionTimeoutSecs: {
+      description: 'Send agent.permission_resolved when a permission is still unanswered after this many seconds',
+      type: 'integer',
+      minimum: 0,
+    },
+    callbacks: {
+      description: 'Serve one-time action URLs that answer permission requests',
+      anyOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            port: { type: 'integer', minimum: 0 },
+            host: { type: 'string', minLength: 1 },
+            publicUrl: { type: 'string', minLength: 1 },
+            secret: { type: 'string', minLength: 1 },
+            ttlSecs: { type: 'integer', minimum: 1 },
+          },
+        },
+      ],
+    },
+    budget: {
+      description: 'Spend limits that trigger budget.exceeded events',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        session: { $ref: '#/definitions/budgetLimits' },
+        daily: { $ref: '#/definitions/budgetLimits' },
+      },
+    },
+    changes: {
+      description: 'What files.changed digests include',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        diff: { type: 'boolean' },
+        maxDiffBytes: { type: 'integer', minimum: 1 },
+      },
+    },
+    diagnostics: {
+      description: 'When diagnostics.changed is sent',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        debounceMs: { type: 'integer', minimum: 0 },
+        errorThreshold: { type: 'integer', minimum: 1 },
+        warningThreshold: { type: 'integer', minimum: 1 },
+        editWindowMs: { type: 'integer', minimum: 0 },
+      },
+    },
+    otlp: {
+      description: 'Export sessions, turns and tool calls as OpenTelemetry traces (OTLP/HTTP JSON)',
+      type: 'object',
+      additionalProperties: false,
+      required: ['endpoint'],
+      properties: {
+        endpoint: { type: 'string', minLength: 1 },
+        headers: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+        },
+        serviceName: { type: 'string', minLength: 1 },
+        resourceAttributes: {
+          type: 'object',
+          additionalProperties: { type: ['string', 'number', 'boolean'] },
+        },
+        timeoutMs: { type: 'integer', minimum: 1 },
+        flushIntervalMs: { type: 'integer', minimum: 0 },
+      },
+    },
+    webhooks: {
+      type: 'array',
+      items: { $ref: '#/definitions/webhook' },
+    },
+  },
+  definitions: {
+    budgetLimits: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        cost: { type: 'number', minimum: 0 },
+        tokens: { type: 'integer', minimum: 1 },
+      },
+    },
+    retry: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        maxAttempts: { type: 'integer', minimum: 1 },
+        delayMs: { type: 'integer', minimum: 0 },
+        retryableStatuses: {
+          description: 'HTTP statuses worth retrying; other error responses fail immediately',
+          type: 'array',
+          items: { type: 'integer', minimum: 100 },
+        },
+      },
+    },
+    webhook: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['url', 'events'],
+      properties: {
+        url: { type: 'string', minLength: 1 },
+        events: {
+          description: 'Event types to send; "*" wildcards and "!" exclusions are supported',
+          type: 'array',
+          items: { type: 'string', minLength: 1 },
+        },
+        method: { enum: ['POST', 'PUT', 'PATCH'] },
+        headers: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+        },
+        preset: { enum: ['slack', 'slack-workflow', 'discord', 'teams', 'gchat'] },
+        filter: { $ref: '#/definitions/filter' },
+        template: {
+          description: 'JSON payload template; strings may contain {{field.path | filter:arg}} expressions',
+        },
+        retry: { $ref: '#/definitions/retry' },
+        timeoutMs: { type: 'integer', minimum: 0 },
+        rateLimit: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['maxRequests', 'windowMs'],
+          properties: {
+            maxRequests: { type: 'integer', minimum: 1 },
+            windowMs: { type: 'integer', minimum: 1 },
+            batch: { type: 'boolean' },
+            maxBatchDelayMs: { type: 'integer', minimum: 0 },
+          },
+        },
+        debounce: {
+          description: 'Coalesce events with the same key that arrive within waitMs into one request',
+          type: 'object',
+          additionalProperties: false,
+          required: ['waitMs'],
+          properties: {
+            waitMs: { type: 'integer', minimum: 0 },
+            maxWaitMs: { type: 'integer', minimum: 0 },
+            key: { type: 'array', items: { type: 'string', minLength: 1 } },
+            merge: { enum: ['latest', 'merge'] },
+          },
+        },
+        signing: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['secret'],
+          properties: {
+            secret: { type: 'string', minLength: 1 },
+            algorithm: { enum: ['sha256', 'sha512'] },
+            signatureHeader: { type: 'string', minLength: 1 },
+            timestampHeader: { type: 'string', minLength: 1 },
+          },
+        },
+      },
+    },
+    filter: {
+      description: 'Send only when the filter matches: a field filter, or all / any / not combinations',
+      anyOf: [
+        {
+          type: 'object',
+          additionalProperties: false,
+          required: ['all'],
+          properties: { all: { type: 'array', items: { $ref: '#/definitions/filter' } } },
+        },
+        {
+          type: 'object',
+          additionalProperties: false,
+          required: ['any'],
+          properties: { any: { type: 'array', items: { $ref: '#/definitions/filter' } } },
+        },
+        {
+          type: 'object',
+          additionalProperties: false,
+          required: ['not'],
+          properties: { not: { $ref: '#/definitions/filter' } },
+        },
+        { $ref: '#/definitions/fieldFilter' },
+      ],
+    },
+    fieldFilter: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['field'],
+      properties: {
+        field: { type: 'string', minLength: 1 },
+        equals: { $ref: '#/definitions/scalar' },
+        notEquals: { $ref: '#/definitions/scalar' },
+        in: { type: 'array', items: { $ref: '#/definitions/scalar' } },
+        notIn: { type: 'array', items: { $ref: '#/definitions/scalar' } },
+        contains: { $ref: '#/definitions/scalar' },
+        exists: { type: 'boolean' },
+        glob: { type: 'string', minLength: 1 },
+        matches: { type: 'string', minLength: 1 },
+        gt: { type: 'number' },
+        gte: { type: 'number' },
+        lt: { type: 'number' },
+        lte: { type: 'number' },
+      },
+    },
+    scalar: {
+      type: ['string', 'number', 'boolean', 'null'],
+    },
+  },
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function resolveRef(ref: string): Record<string, any> {
+  const name = ref.replace(/^#\/definitions\//, '');
+  return configSchema.definitions[name];
+}
+
+/**
+ * Validate a value against the subset of JSON schema used by configSchema.
+ * Returns a list of human-readable errors (empty when valid).
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: Record<string, any> = configSchema,
+  at: string = '$'
+): string[] {
+  if (schema.$ref) {
+    return validateAgainstSchema(value, resolveRef(schema.$ref), at);
+  }
+
+  if (schema.anyOf) {
+    const matches = (schema.anyOf as Record<string, any>[]).some(
+      (option) => validateAgainstSchema(value, option, at).length === 0
+    );
+    return matches ? [] : [`${at} does not match any allowed form`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at} must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`];
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${at} must be of type ${types.join(' or ')}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${at} must not be empty`);
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${at} must be >= ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(item, schema.items, `${at}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push(`${at}.${key} is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(...validateAgainstSchema(propertyValue, properties[key], `${at}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${key} is not a recognised option`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, `${at}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
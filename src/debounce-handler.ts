@@ -0,0 +1,153 @@
+import { BaseEventPayload, DebounceConfig, WebhookConfig } from './types.js';
+import { getFieldValue } from './field-path.js';
+
+const DEFAULT_KEY = ['sessionId', 'eventType'];
+
+interface PendingGroup {
+  payloads: BaseEventPayload[];
+  firstAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? deepMerge(result[key], value)
+      : value;
+  }
+  return result;
+}
+
+/**
+ * Deep-merge payloads in order: later values win, nested objects are
+ * merged and arrays are replaced
+ */
+export function mergePayloads(payloads: BaseEventPayload[]): BaseEventPayload {
+  return payloads.reduce((merged, payload) => deepMerge(merged, payload), {}) as BaseEventPayload;
+}
+
+/**
+ * Coalesces bursts of events for a specific webhook. Events with the same
+ * key wait until none has arrived for the quiet period (or maxWaitMs has
+ * passed), then go out as a single payload.
+ */
+export class DebounceHandler {
+  private pending: Map<string, PendingGroup> = new Map();
+  private options: DebounceConfig;
+  private debug: boolean;
+
+  constructor(
+    private config: WebhookConfig,
+    private sendCallback: (payload: BaseEventPayload) => Promise<void>,
+    debug: boolean = false
+  ) {
+    this.options = config.debounce!;
+    this.debug = debug;
+  }
+
+  /**
+   * Hold an event until its group goes quiet
+   */
+  addEvent(payload: BaseEventPayload): void {
+    const key = this.getKey(payload);
+    const group = this.pending.get(key);
+    const now = Date.now();
+
+    if (group) {
+      clearTimeout(group.timer);
+      group.payloads.push(payload);
+    }
+
+    const firstAt = group?.firstAt ?? now;
+    const quietMs = this.options.waitMs;
+    const delayMs = this.options.maxWaitMs !== undefined
+      ? Math.max(0, Math.min(quietMs, firstAt + this.options.maxWaitMs - now))
+      : quietMs;
+
+    const timer = setTimeout(() => {
+      void this.flush(key);
+    }, delayMs);
+
+    this.pending.set(key, {
+      payloads: group?.payloads ?? [payload],
+      firstAt,
+      timer,
+    });
+
+    if (this.debug && group) {
+      console.log(
+        `[DebounceHandler] Coalescing ${payload.eventType} for ${this.config.url} (${group.payloads.length} held, key ${key})`
+      );
+    }
+  }
+
+  /**
+   * Number of events currently held
+   */
+  get size(): number {
+    let count = 0;
+    for (const group of this.pending.values()) {
+      count += group.payloads.length;
+    }
+    return count;
+  }
+
+  private getKey(payload: BaseEventPayload): string {
+    const fields = this.options.key ?? DEFAULT_KEY;
+    return JSON.stringify(fields.map((field) => getFieldValue(payload, field) ?? null));
+  }
+
+  private combine(payloads: BaseEventPayload[]): BaseEventPayload {
+    const merge = this.options.merge ?? 'latest';
+    if (typeof merge === 'function') {
+      return merge(payloads);
+    }
+    return merge === 'merge' ? mergePayloads(payloads) : payloads[payloads.length - 1];
+  }
+
+  private async flush(key: string): Promise<void> {
+    const group = this.pending.get(key);
+    if (!group) {
+      return;
+    }
+    this.pending.delete(key);
+
+    if (this.debug) {
+      console.log(
+        `[DebounceHandler] Sending ${group.payloads.length} coalesced event(s) for ${this.config.url}`
+      );
+    }
+
+    try {
+      await this.sendCallback(this.combine(group.payloads));
+    } catch (error) {
+      if (this.debug) {
+        console.error(`[DebounceHandler] Error sending coalesced events for ${this.config.url}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Send every held event now
+   */
+  async flushAll(): Promise<void> {
+    const keys = Array.from(this.pending.keys());
+    for (const key of keys) {
+      clearTimeout(this.pending.get(key)!.timer);
+      await this.flush(key);
+    }
+  }
+
+  /**
+   * Cleanup resources. Held events are sent (and so persisted to the outbox)
+   * rather than dropped.
+   */
+  async destroy(): Promise<void> {
+    await this.flushAll();
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  DiagnosticsChangedPayload,
+  DiagnosticsConfig,
+  DIAGNOSTICS_CHANGED_EVENT,
+  FileDiagnostics,
+  NewDiagnosticError,
+  NormalizedEventPayload,
+  PluginContext,
+} from './types.js';
+import { worktreeRelativePath } from './change-tracker.js';
+
+const DEFAULT_DEBOUNCE_MS = 2000;
+const DEFAULT_ERROR_THRESHOLD = 1;
+const DEFAULT_EDIT_WINDOW_MS = 5 * 60 * 1000;
+
+/** Files listed in a payload */
+const MAX_LISTED_FILES = 20;
+
+/** New errors listed in a payload */
+const MAX_NEW_ERRORS = 20;
+
+/** LSP DiagnosticSeverity values */
+const SEVERITY_ERROR = 1;
+const SEVERITY_WARNING = 2;
+
+/** Tools whose filePath argument is the file they change */
+const EDIT_TOOLS = ['edit', 'write', 'patch'];
+
+/** A diagnostic as published by a language server */
+interface LspDiagnostic {
+  range?: { start?: { line?: number } };
+  severity?: number;
+  message?: string;
+  source?: string;
+}
+
+interface FileState {
+  errors: number;
+  warnings: number;
+  /** "line:message" of each error, to tell new errors from known ones */
+  errorKeys: Set<string>;
+  /** Errors not in the previous report */
+  newErrors: NewDiagnosticError[];
+}
+
+interface DiagnosticsAggregatorOptions {
+  /** Used to make paths relative to the worktree */
+  context?: PluginContext;
+  config?: DiagnosticsConfig;
+  debug?: boolean;
+  onChanged: (payload: DiagnosticsChangedPayload) => Promise<void>;
+}
+
+/**
+ * Keeps per-file error and warning counts and sends a debounced
+ * diagnostics.changed when a total crosses a threshold or new errors appear
+ * in files the agent just edited.
+ *
+ * lsp.client.diagnostics only names the file, so counts come from the
+ * diagnostics edit tools attach to their results (metadata.diagnostics),
+ * or from the event itself when it carries them.
+ */
+export class DiagnosticsAggregator {
+  private files: Map<string, FileState> = new Map();
+  /** File -> when the agent last edited it */
+  private edits: Map<string, number> = new Map();
+  private lastEditSessionId?: string;
+  private reported = { errors: 0, warnings: 0 };
+  private debounceTimer?: ReturnType<typeof setTimeout>;
+  private context?: PluginContext;
+  private config: DiagnosticsConfig;
+  private debug: boolean;
+  private onChanged: (payload: DiagnosticsChangedPayload) => Promise<void>;
+
+  constructor(options: DiagnosticsAggregatorOptions) {
+    this.context = options.context;
+    this.config = options.config ?? {};
+    this.debug = options.debug ?? false;
+    this.onChanged = options.onChanged;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const props = payload.properties;
+
+    switch (payload.eventType) {
+      case 'message.part.updated': {
+        const part = props.part;
+        if (part?.type !== 'tool' || part.state?.status !== 'completed' || !EDIT_TOOLS.includes(part.tool)) {
+          return;
+        }
+        if (part.state.input?.filePath) {
+          this.edits.set(worktreeRelativePath(this.context, part.state.input.filePath), Date.now());
+          this.lastEditSessionId = part.sessionID;
+        }
+        const diagnostics = part.state.metadata?.diagnostics;
+        if (diagnostics && typeof diagnostics === 'object') {
+          for (const [file, list] of Object.entries(diagnostics)) {
+            this.update(file, list);
+          }
+        }
+        return;
+      }
+
+      case 'file.edited':
+        if (props.file) this.edits.set(worktreeRelativePath(this.context, props.file), Date.now());
+        return;
+
+      case 'lsp.client.diagnostics':
+        if (props.path && Array.isArray(props.diagnostics)) {
+          this.update(props.path, props.diagnostics);
+        }
+        return;
+    }
+  }
+
+  private update(rawFile: string, list: unknown): void {
+    if (!Array.isArray(list)) return;
+
+    const file = worktreeRelativePath(this.context, rawFile);
+    const previous = this.files.get(file);
+    const errorKeys = new Set<string>();
+    const newErrors = [...(previous?.newErrors ?? [])];
+    let errors = 0;
+    let warnings = 0;
+
+    for (const diagnostic of list as LspDiagnostic[]) {
+      if (diagnostic?.severity === SEVERITY_ERROR) {
+        errors++;
+        const line = (diagnostic.range?.start?.line ?? 0) + 1;
+        const message = String(diagnostic.message ?? '');
+        const key = `${line}:${message}`;
+        errorKeys.add(key);
+        if (!previous?.errorKeys.has(key)) {
+          newErrors.push({ file, line, message, source: diagnostic.source });
+        }
+      } else if (diagnostic?.severity === SEVERITY_WARNING) {
+        warnings++;
+      }
+    }
+
+    if (previous && previous.errors === errors && previous.warnings === warnings && newErrors.length === previous.newErrors.length) {
+      return;
+    }
+
+    this.files.set(file, {
+      errors,
+      warnings,
+      errorKeys,
+      // Errors fixed before the report went out are not news
+      newErrors: newErrors.filter((error) => errorKeys.has(`${error.line}:${error.message}`)),
+    });
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      void this.report();
+    }, this.config.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    this.debounceTimer.unref?.();
+  }
+
+  private async report(): Promise<void> {
+    let errors = 0;
+    let warnings = 0;
+    const files: FileDiagnostics[] = [];
+    const newErrors: NewDiagnosticError[] = [];
+    const editedSince = Date.now() - (this.config.editWindowMs ?? DEFAULT_EDIT_WINDOW_MS);
+
+    for (const [file, state] of this.files) {
+      errors += state.errors;
+      warnings += state.warnings;
+      if (state.errors > 0 || state.warnings > 0) {
+        files.push({ file, errors: state.errors, warnings: state.warnings });
+      }
+      if ((this.edits.get(file) ?? 0) >= editedSince) {
+        newErrors.push(...state.newErrors);
+      }
+      state.newErrors = [];
+    }
+
+    const previous = this.reported;
+    const reasons: DiagnosticsChangedPayload['reasons'] = [];
+    if (crossed(previous.errors, errors, this.config.errorThreshold ?? DEFAULT_ERROR_THRESHOLD)) {
+      reasons.push('errors_threshold');
+    }
+    if (crossed(previous.warnings, warnings, this.config.warningThreshold)) {
+      reasons.push('warnings_threshold');
+    }
+    if (newErrors.length > 0) {
+      reasons.push('new_errors');
+    }
+
+    this.reported = { errors, warnings };
+    if (reasons.length === 0) {
+      return;
+    }
+
+    files.sort((a, b) => b.errors - a.errors || b.warnings - a.warnings);
+
+    const payload: DiagnosticsChangedPayload = {
+      timestamp: new Date().toISOString(),
+      eventType: DIAGNOSTICS_CHANGED_EVENT,
+      sessionId: this.lastEditSessionId,
+      reasons,
+      errors,
+      warnings,
+      previousErrors: previous.errors,
+      previousWarnings: previous.warnings,
+      files: files.slice(0, MAX_LISTED_FILES),
+      newErrors: newErrors.slice(0, MAX_NEW_ERRORS),
+    };
+
+    if (this.debug) {
+      console.log(`[DiagnosticsAggregator] ${errors} error(s), ${warnings} warning(s): ${reasons.join(', ')}`);
+    }
+
+    try {
+      await this.onChanged(payload);
+    } catch (error) {
+      if (this.debug) {
+        console.error(`[DiagnosticsAggregator] Error emitting diagnostics.changed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Cancel a pending report and clear all tracked state
+   */
+  destroy(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+    }
+    this.files.clear();
+    this.edits.clear();
+  }
+}
+
+/**
+ * Whether a total moved from one side of a threshold to the other
+ */
+function crossed(previous: number, current: number, threshold: number | undefined): boolean {
+  return threshold !== undefined && (previous >= threshold) !== (current >= threshold);
+}
@@ -0,0 +1,93 @@
+import { BaseEventPayload } from './types.js';
+import { summarizeEvent, truncate, formatTokens, formatCost, EventSummary } from './event-summary.js';
+
+/** Discord message and embed limits */
+const DISCORD_CONTENT_MAX_LENGTH = 2000;
+const DISCORD_TITLE_MAX_LENGTH = 256;
+const DISCORD_DESCRIPTION_MAX_LENGTH = 4096;
+const DISCORD_FIELD_VALUE_MAX_LENGTH = 1024;
+const DISCORD_FOOTER_MAX_LENGTH = 2048;
+const DISCORD_EMBED_TOTAL_MAX_LENGTH = 6000;
+
+const COLOR_SUCCESS = 0x2ecc71;
+const COLOR_ERROR = 0xe74c3c;
+const COLOR_DEFAULT = 0x5865f2;
+
+export interface DiscordFormatterOptions {
+  /** Optional: Override the webhook's default username */
+  username?: string;
+
+  /** Optional: Maximum length of the embed description (default and cap: 4096) */
+  maxMessageLength?: number;
+}
+
+function embedColor(summary: EventSummary): number {
+  if (summary.eventType.endsWith('.error') || summary.eventType.endsWith('.failed')) {
+    return COLOR_ERROR;
+  }
+  if (summary.eventType.endsWith('.completed')) {
+    return COLOR_SUCCESS;
+  }
+  return COLOR_DEFAULT;
+}
+
+/**
+ * Preset transformPayload for Discord webhooks. Renders the event as a
+ * single embed with token/cost fields.
+ */
+export function discordFormatter(
+  options: DiscordFormatterOptions = {}
+): (payload: BaseEventPayload) => Record<string, any> {
+  const maxMessageLength = Math.min(
+    options.maxMessageLength ?? DISCORD_DESCRIPTION_MAX_LENGTH,
+    DISCORD_DESCRIPTION_MAX_LENGTH
+  );
+
+  return (payload: BaseEventPayload) => {
+    const summary = summarizeEvent(payload);
+
+    const fields: { name: string; value: string; inline: boolean }[] = [];
+    if (summary.tokens) {
+      fields.push({ name: 'Tokens', value: formatTokens(summary.tokens), inline: true });
+    }
+    if (summary.cost !== undefined) {
+      fields.push({ name: 'Cost', value: formatCost(summary.cost), inline: true });
+    }
+    if (summary.sessionId) {
+      fields.push({
+        name: 'Session',
+        value: truncate(`\`${summary.sessionId}\``, DISCORD_FIELD_VALUE_MAX_LENGTH),
+        inline: true,
+      });
+    }
+
+    const title = truncate(`${summary.emoji} ${summary.title}`, DISCORD_TITLE_MAX_LENGTH);
+    const footer = truncate(summary.label, DISCORD_FOOTER_MAX_LENGTH);
+    const fieldsLength = fields.reduce((total, field) => total + field.name.length + field.value.length, 0);
+
+    // Title, description, fields and footer all count towards the 6000 character embed limit
+    const descriptionBudget = DISCORD_EMBED_TOTAL_MAX_LENGTH - title.length - footer.length - fieldsLength;
+    const description = truncate(summary.text, Math.min(maxMessageLength, descriptionBudget));
+
+    const embed: Record<string, any> = {
+      title,
+      color: embedColor(summary),
+      fields,
+      footer: { text: footer },
+      timestamp: summary.timestamp,
+    };
+    if (description) {
+      embed.description = description;
+    }
+
+    const message: Record<string, any> = {
+      content: truncate(`${summary.emoji} ${summary.label}`, DISCORD_CONTENT_MAX_LENGTH),
+      embeds: [embed],
+    };
+    if (options.username) {
+      message.username = options.username;
+    }
+
+    return message;
+  };
+}
@@ -0,0 +1,124 @@
+import * as os from 'os';
+import { BaseEventPayload, EnrichmentOptions, EventContext, PluginContext } from './types.js';
+
+/** Sessions whose context is kept; the oldest is dropped beyond this */
+const MAX_CACHED_SESSIONS = 50;
+
+/** Cache key for events that do not belong to a session */
+const NO_SESSION = '';
+
+/**
+ * Adds project, git and environment context to payloads. The context is
+ * collected once per session, so chatty events such as message.part.updated
+ * do not run git on every delivery.
+ */
+export class ContextEnricher {
+  private cache: Map<string, Promise<EventContext>> = new Map();
+  private context: PluginContext;
+  private options: EnrichmentOptions;
+  private debug: boolean;
+
+  constructor(context: PluginContext, options: EnrichmentOptions = {}, debug: boolean = false) {
+    this.context = context;
+    this.options = options;
+    this.debug = debug;
+  }
+
+  /**
+   * Context for the payload's session, collected on first use
+   */
+  async enrich(payload: BaseEventPayload): Promise<EventContext> {
+    const key = payload.sessionId ?? NO_SESSION;
+
+    if (payload.eventType === 'session.deleted') {
+      const cached = this.cache.get(key);
+      this.cache.delete(key);
+      return cached ?? this.collect(payload.sessionId);
+    }
+
+    let pending = this.cache.get(key);
+    if (!pending) {
+      pending = this.collect(payload.sessionId);
+      this.cache.set(key, pending);
+      this.evict();
+    }
+
+    return pending;
+  }
+
+  private evict(): void {
+    while (this.cache.size > MAX_CACHED_SESSIONS) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+  }
+
+  private async collect(sessionId?: string): Promise<EventContext> {
+    const { project, directory, worktree } = this.context;
+    const eventContext: EventContext = {
+      project: project?.id ? { id: project.id } : undefined,
+      directory,
+      worktree,
+    };
+
+    const [git, opencodeVersion] = await Promise.all([
+      this.options.git === false ? undefined : this.getGitInfo(),
+      sessionId ? this.getOpencodeVersion(sessionId) : undefined,
+    ]);
+
+    if (git) eventContext.git = git;
+    if (this.options.hostname !== false) eventContext.hostname = os.hostname();
+    if (opencodeVersion) eventContext.opencodeVersion = opencodeVersion;
+
+    if (this.debug) {
+      console.log(`[ContextEnricher] Collected context for session ${sessionId ?? '(none)'}:`, eventContext);
+    }
+
+    return eventContext;
+  }
+
+  private async getGitInfo(): Promise<EventContext['git']> {
+    const directory = this.context.worktree || this.context.directory;
+    if (!this.context.$ || !directory || (this.context.project?.vcs && this.context.project.vcs !== 'git')) {
+      return undefined;
+    }
+
+    const [branch, commit] = await Promise.all([
+      this.runGit(directory, ['rev-parse', '--abbrev-ref', 'HEAD']),
+      this.runGit(directory, ['rev-parse', 'HEAD']),
+    ]);
+
+    return branch || commit ? { branch, commit } : undefined;
+  }
+
+  private async runGit(directory: string, args: string[]): Promise<string | undefined> {
+    try {
+      const output = await this.context.$`git -C ${directory} ${args}`.quiet().nothrow();
+      if (output.exitCode !== 0) {
+        return undefined;
+      }
+      return output.text().trim() || undefined;
+    } catch (error) {
+      if (this.debug) {
+        console.log(`[ContextEnricher] git ${args.join(' ')} failed: ${error}`);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Sessions record the OpenCode version that created them
+   */
+  private async getOpencodeVersion(sessionId: string): Promise<string | undefined> {
+    try {
+      const result = await this.context.client?.session?.get({ path: { id: sessionId } });
+      const session = result?.data ?? result;
+      return typeof session?.version === 'string' ? session.version : undefined;
+    } catch (error) {
+      if (this.debug) {
+        console.log(`[ContextEnricher] Could not fetch session ${sessionId}: ${error}`);
+      }
+      return undefined;
+    }
+  }
+}
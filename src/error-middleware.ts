@@ -0,0 +1,215 @@
+import {
+  AgentFailedPayload,
+  AGENT_FAILED_EVENT,
+  ErrorCategory,
+  ErrorSeverity,
+  NormalizedEventPayload,
+  PluginContext,
+} from './types.js';
+import { resolveSessionTitle } from './middleware.js';
+
+interface SessionState {
+  assistantMessageIds: Set<string>;
+  /** Message whose text parts are collected in lastText */
+  lastTextMessageId?: string;
+  lastText: Map<string, string>;   // partId -> text of the latest assistant message
+  failedTool?: AgentFailedPayload['failedTool'];
+}
+
+interface ErrorMiddlewareOptions {
+  /** Used to look up session titles; titles are omitted without it */
+  context?: PluginContext;
+  debug?: boolean;
+  onFailed: (payload: AgentFailedPayload) => Promise<void>;
+}
+
+/** Error as reported on session.error */
+interface SessionError {
+  name?: string;
+  message?: string;
+  data?: Record<string, any>;
+}
+
+const SEVERITIES: Record<ErrorCategory, ErrorSeverity> = {
+  provider_auth: 'critical',
+  context_overflow: 'error',
+  tool_failure: 'error',
+  api: 'error',
+  unknown: 'error',
+  rate_limit: 'warning',
+  output_length: 'warning',
+  aborted: 'info',
+};
+
+const CONTEXT_OVERFLOW_PATTERN = /context (length|window)|maximum context|too many tokens|prompt is too long|input is too long|exceeds? the (model's )?(context|token) limit/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|overloaded|quota|capacity/i;
+const AUTH_PATTERN = /api.?key|unauthori[sz]ed|authenticat|forbidden|credentials/i;
+
+/**
+ * Work out what kind of failure an OpenCode session error is.
+ * Without a clearer cause, an error right after a failed tool call is
+ * put down to the tool.
+ */
+export function classifyError(
+  error: SessionError | undefined,
+  failedTool?: AgentFailedPayload['failedTool']
+): { category: ErrorCategory; severity: ErrorSeverity } {
+  const name = error?.name ?? '';
+  const message = String(error?.data?.message ?? error?.message ?? '');
+  const statusCode = error?.data?.statusCode;
+
+  let category: ErrorCategory;
+  if (name === 'MessageAbortedError') {
+    category = 'aborted';
+  } else if (name === 'ProviderAuthError' || statusCode === 401 || statusCode === 403 || AUTH_PATTERN.test(message)) {
+    category = 'provider_auth';
+  } else if (CONTEXT_OVERFLOW_PATTERN.test(message)) {
+    category = 'context_overflow';
+  } else if (statusCode === 429 || statusCode === 529 || RATE_LIMIT_PATTERN.test(message)) {
+    category = 'rate_limit';
+  } else if (name === 'MessageOutputLengthError') {
+    category = 'output_length';
+  } else if (failedTool) {
+    category = 'tool_failure';
+  } else if (name === 'APIError') {
+    category = 'api';
+  } else {
+    category = 'unknown';
+  }
+
+  return { category, severity: SEVERITIES[category] };
+}
+
+/**
+ * Middleware that turns session.error into an agent.failed payload with a
+ * category, a severity, the last thing the agent said and the tool call that
+ * failed, so a crashed run is reported instead of going quiet
+ */
+export class ErrorMiddleware {
+  private sessions: Map<string, SessionState> = new Map();
+  private context?: PluginContext;
+  private debug: boolean;
+  private onFailed: (payload: AgentFailedPayload) => Promise<void>;
+
+  constructor(options: ErrorMiddlewareOptions) {
+    this.context = options.context;
+    this.debug = options.debug ?? false;
+    this.onFailed = options.onFailed;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const props = payload.properties;
+
+    switch (payload.eventType) {
+      case 'message.updated':
+        this.handleMessageUpdated(props.info);
+        break;
+
+      case 'message.part.updated':
+        this.handlePartUpdated(props.part);
+        break;
+
+      case 'session.error':
+        await this.handleSessionError(payload.sessionId, props.error);
+        break;
+
+      case 'session.deleted':
+        if (payload.sessionId) this.sessions.delete(payload.sessionId);
+        break;
+    }
+  }
+
+  private getState(sessionId: string): SessionState {
+    let state = this.sessions.get(sessionId);
+    if (!state) {
+      state = { assistantMessageIds: new Set(), lastText: new Map() };
+      this.sessions.set(sessionId, state);
+    }
+    return state;
+  }
+
+  private handleMessageUpdated(info: any): void {
+    if (!info?.id || !info.sessionID) return;
+
+    const state = this.getState(info.sessionID);
+    if (info.role === 'assistant') {
+      state.assistantMessageIds.add(info.id);
+    } else if (info.role === 'user') {
+      // A new turn: earlier tool failures no longer explain an error
+      state.failedTool = undefined;
+    }
+  }
+
+  private handlePartUpdated(part: any): void {
+    if (!part?.sessionID || !part.messageID) return;
+
+    const state = this.getState(part.sessionID);
+
+    if (part.type === 'text' && state.assistantMessageIds.has(part.messageID)) {
+      if (state.lastTextMessageId !== part.messageID) {
+        state.lastTextMessageId = part.messageID;
+        state.lastText.clear();
+      }
+      state.lastText.set(part.id, part.text ?? '');
+    } else if (part.type === 'tool') {
+      const status = part.state?.status;
+      if (status === 'error') {
+        state.failedTool = {
+          name: part.tool,
+          callId: part.callID,
+          error: String(part.state.error ?? 'Unknown error'),
+          input: part.state.input,
+        };
+      } else if (status === 'completed' && state.failedTool?.callId === part.callID) {
+        state.failedTool = undefined;
+      }
+    }
+  }
+
+  private async handleSessionError(sessionId: string | undefined, error: SessionError | undefined): Promise<void> {
+    const state = sessionId ? this.sessions.get(sessionId) : undefined;
+    const { category, severity } = classifyError(error, state?.failedTool);
+    const data = error?.data ?? {};
+    const lastText = state ? Array.from(state.lastText.values()).join('').trim() : '';
+
+    const payload: AgentFailedPayload = {
+      timestamp: new Date().toISOString(),
+      eventType: AGENT_FAILED_EVENT,
+      sessionId,
+      sessionTitle: sessionId && this.context
+        ? await resolveSessionTitle(this.context, sessionId, this.debug)
+        : undefined,
+      category,
+      severity,
+      errorName: error?.name ?? 'UnknownError',
+      message: String(data.message ?? error?.message ?? error?.name ?? 'Unknown error'),
+      statusCode: typeof data.statusCode === 'number' ? data.statusCode : undefined,
+      providerId: data.providerID,
+      retryable: typeof data.isRetryable === 'boolean' ? data.isRetryable : undefined,
+      lastAssistantMessage: lastText || undefined,
+      failedTool: state?.failedTool,
+    };
+
+    if (this.debug) {
+      console.log(`[ErrorMiddleware] Session ${sessionId ?? '(none)'} failed: ${category} (${severity}): ${payload.message}`);
+    }
+
+    try {
+      await this.onFailed(payload);
+    } catch (err) {
+      if (this.debug) {
+        console.error(`[ErrorMiddleware] Error sending agent.failed:`, err);
+      }
+    }
+  }
+
+  /**
+   * Clear all tracked state
+   */
+  destroy(): void {
+    this.sessions.clear();
+  }
+}
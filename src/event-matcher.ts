@@ -0,0 +1,74 @@
+/**
+ * "*" matches any run of characters, so "session.*" matches every session
+ * event, "message.part.*" every message part event and "*" everything
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compiled form of a webhook's events list. Entries starting with "!" exclude
+ * matching events; a list with only exclusions starts from "*".
+ */
+export class EventMatcher {
+  private exact = new Set<string>();
+  private wildcards: RegExp[] = [];
+  private excludedExact = new Set<string>();
+  private excludedWildcards: RegExp[] = [];
+
+  constructor(patterns: string[]) {
+    let hasInclude = false;
+
+    for (const raw of patterns) {
+      const negated = raw.startsWith('!');
+      const pattern = negated ? raw.slice(1) : raw;
+      hasInclude ||= !negated;
+
+      if (pattern.includes('*')) {
+        (negated ? this.excludedWildcards : this.wildcards).push(patternToRegExp(pattern));
+      } else {
+        (negated ? this.excludedExact : this.exact).add(pattern);
+      }
+    }
+
+    if (!hasInclude && patterns.length > 0) {
+      this.wildcards.push(/^/);
+    }
+  }
+
+  matches(eventType: string): boolean {
+    if (this.excludedExact.has(eventType) || this.excludedWildcards.some((regex) => regex.test(eventType))) {
+      return false;
+    }
+    return this.exact.has(eventType) || this.wildcards.some((regex) => regex.test(eventType));
+  }
+}
+
+/**
+ * Routes event types to subscribers. Patterns are only evaluated the first
+ * time an event type is seen; later lookups hit a cache.
+ */
+export class EventRouter<T> {
+  private subscribers: { matcher: EventMatcher; target: T }[] = [];
+  private cache = new Map<string, T[]>();
+
+  add(patterns: string[], target: T): void {
+    this.subscribers.push({ matcher: new EventMatcher(patterns), target });
+    this.cache.clear();
+  }
+
+  resolve(eventType: string): T[] {
+    let targets = this.cache.get(eventType);
+    if (!targets) {
+      targets = this.subscribers
+        .filter(({ matcher }) => matcher.matches(eventType))
+        .map(({ target }) => target);
+      this.cache.set(eventType, targets);
+    }
+    return targets;
+  }
+}
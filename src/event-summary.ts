@@ -0,0 +1,444 @@
+import {
+  BaseEventPayload,
+  AGENT_COMPLETED_EVENT,
+  BATCH_SUMMARY_EVENT,
+  SESSION_SUMMARY_EVENT,
+  SessionSummaryPayload,
+  DAILY_USAGE_EVENT,
+  DailyUsagePayload,
+  BUDGET_EXCEEDED_EVENT,
+  BudgetExceededPayload,
+  AGENT_AWAITING_PERMISSION_EVENT,
+  AGENT_PERMISSION_RESOLVED_EVENT,
+  AwaitingPermissionPayload,
+  PermissionResolvedPayload,
+  AGENT_FAILED_EVENT,
+  AgentFailedPayload,
+  ErrorCategory,
+  TOOL_COMPLETED_EVENT,
+  TOOL_STATS_EVENT,
+  ToolCompletedPayload,
+  ToolStatsPayload,
+  FILES_CHANGED_EVENT,
+  FilesChangedPayload,
+  TODO_PROGRESS_EVENT,
+  TodoProgressPayload,
+  DIAGNOSTICS_CHANGED_EVENT,
+  DiagnosticsChangedPayload,
+} from './types.js';
+import { getEventSessionId } from './normalize.js';
+
+/**
+ * Platform-neutral description of an event, used by the chat formatters
+ */
+export interface EventSummary {
+  eventType: string;
+  emoji: string;
+  label: string;
+  /** Headline, usually the session title */
+  title: string;
+  /** Main body text (markdown), may be empty */
+  text: string;
+  sessionId?: string;
+  tokens?: {
+    input: number;
+    output: number;
+    reasoning: number;
+  };
+  cost?: number;
+  timestamp: string;
+  /** Links to offer as buttons, e.g. permission action URLs */
+  links?: { label: string; url: string }[];
+}
+
+const EVENT_LABELS: Record<string, { emoji: string; label: string }> = {
+  'session.created': { emoji: '🆕', label: 'Session started' },
+  'session.updated': { emoji: '📝', label: 'Session updated' },
+  'session.idle': { emoji: '💤', label: 'Session idle' },
+  'session.error': { emoji: '❌', label: 'Session error' },
+  'session.deleted': { emoji: '🗑️', label: 'Session deleted' },
+  'session.resumed': { emoji: '▶️', label: 'Session resumed' },
+  'session.compacted': { emoji: '🗜️', label: 'Session compacted' },
+  'session.status': { emoji: 'ℹ️', label: 'Session status' },
+  'session.diff': { emoji: '🔀', label: 'Session diff' },
+  'tool.execute.before': { emoji: '🔧', label: 'Tool started' },
+  'tool.execute.after': { emoji: '🔧', label: 'Tool finished' },
+  'message.updated': { emoji: '💬', label: 'Message updated' },
+  'message.removed': { emoji: '💬', label: 'Message removed' },
+  'message.part.updated': { emoji: '✏️', label: 'Message part updated' },
+  'message.part.removed': { emoji: '✏️', label: 'Message part removed' },
+  'file.edited': { emoji: '📝', label: 'File edited' },
+  'file.watcher.updated': { emoji: '👀', label: 'File changed' },
+  'command.executed': { emoji: '⌨️', label: 'Command executed' },
+  'lsp.updated': { emoji: '🧠', label: 'LSP updated' },
+  'lsp.client.diagnostics': { emoji: '🩺', label: 'Diagnostics' },
+  'installation.updated': { emoji: '📦', label: 'Installation updated' },
+  'permission.updated': { emoji: '🔐', label: 'Permission requested' },
+  'permission.replied': { emoji: '🔓', label: 'Permission answered' },
+  'server.connected': { emoji: '🔌', label: 'Server connected' },
+  'todo.updated': { emoji: '✅', label: 'Todo list updated' },
+  'tui.prompt.append': { emoji: '⌨️', label: 'Prompt updated' },
+  'tui.command.execute': { emoji: '⌨️', label: 'TUI command' },
+  'tui.toast.show': { emoji: '🔔', label: 'Toast' },
+  [AGENT_COMPLETED_EVENT]: { emoji: '✅', label: 'Agent completed' },
+  [BATCH_SUMMARY_EVENT]: { emoji: '📦', label: 'Activity summary' },
+  [SESSION_SUMMARY_EVENT]: { emoji: '📊', label: 'Session summary' },
+  [DAILY_USAGE_EVENT]: { emoji: '💰', label: 'Daily usage' },
+  [BUDGET_EXCEEDED_EVENT]: { emoji: '🚨', label: 'Budget exceeded' },
+  [AGENT_AWAITING_PERMISSION_EVENT]: { emoji: '✋', label: 'Waiting for permission' },
+  [AGENT_PERMISSION_RESOLVED_EVENT]: { emoji: '🔓', label: 'Permission resolved' },
+  [AGENT_FAILED_EVENT]: { emoji: '💥', label: 'Agent failed' },
+  [TOOL_COMPLETED_EVENT]: { emoji: '🔧', label: 'Tool completed' },
+  [TOOL_STATS_EVENT]: { emoji: '📈', label: 'Tool statistics' },
+  [FILES_CHANGED_EVENT]: { emoji: '📝', label: 'Files changed' },
+  [TODO_PROGRESS_EVENT]: { emoji: '☑️', label: 'Todo progress' },
+  [DIAGNOSTICS_CHANGED_EVENT]: { emoji: '🩺', label: 'Diagnostics changed' },
+};
+
+/** Files listed in a session summary before the rest are counted */
+const MAX_LISTED_FILES = 10;
+
+/** Sessions listed in a daily usage report before the rest are counted */
+const MAX_LISTED_SESSIONS = 5;
+
+/** Length of the last assistant message quoted in failure reports */
+const MAX_QUOTED_MESSAGE_LENGTH = 300;
+
+const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  provider_auth: 'Provider authentication failed',
+  rate_limit: 'Rate limited',
+  context_overflow: 'Context window exceeded',
+  output_length: 'Output too long',
+  tool_failure: 'Tool failed',
+  aborted: 'Aborted',
+  api: 'Provider error',
+  unknown: 'Error',
+};
+
+/**
+ * Emoji and human-readable label for an event type
+ */
+export function getEventLabel(eventType: string): { emoji: string; label: string } {
+  return EVENT_LABELS[eventType] ?? { emoji: '📢', label: eventType };
+}
+
+/**
+ * Truncate text to a maximum length, marking the cut with an ellipsis
+ */
+export function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return text.slice(0, Math.max(0, maxLength - 1)).trimEnd() + '…';
+}
+
+/**
+ * Pull the interesting bits out of a payload, whether it is one of our
+ * synthetic payloads or a raw OpenCode bus event ({ type, properties })
+ */
+export function summarizeEvent(payload: BaseEventPayload): EventSummary {
+  const props = payload.properties ?? {};
+  const { emoji, label } = getEventLabel(payload.eventType);
+  const sessionId = payload.sessionId || getEventSessionId(payload.eventType, props);
+
+  let title: string = payload.sessionTitle || props.info?.title || label;
+  let text = '';
+  let links: EventSummary['links'];
+
+  switch (payload.eventType) {
+    case AGENT_COMPLETED_EVENT:
+      text = payload.messageContent ?? '';
+      break;
+
+    case BATCH_SUMMARY_EVENT:
+      title = `${label} (${payload.eventCount} events)`;
+      text = payload.summary ?? '';
+      break;
+
+    case SESSION_SUMMARY_EVENT:
+      text = describeSessionSummary(payload as SessionSummaryPayload);
+      break;
+
+    case AGENT_AWAITING_PERMISSION_EVENT: {
+      const request = payload as AwaitingPermissionPayload;
+      text = describePermissionRequest(request);
+      if (request.actions) {
+        links = [
+          { label: 'Allow once', url: request.actions.once },
+          { label: 'Always allow', url: request.actions.always },
+          { label: 'Reject', url: request.actions.reject },
+        ];
+      }
+      break;
+    }
+
+    case AGENT_PERMISSION_RESOLVED_EVENT:
+      text = describePermissionResolved(payload as PermissionResolvedPayload);
+      break;
+
+    case TOOL_COMPLETED_EVENT:
+      text = describeToolCall(payload as ToolCompletedPayload);
+      break;
+
+    case TOOL_STATS_EVENT:
+      text = describeToolStats(payload as ToolStatsPayload);
+      break;
+
+    case DIAGNOSTICS_CHANGED_EVENT:
+      text = describeDiagnostics(payload as DiagnosticsChangedPayload);
+      break;
+
+    case TODO_PROGRESS_EVENT:
+      text = describeTodoProgress(payload as TodoProgressPayload);
+      break;
+
+    case FILES_CHANGED_EVENT:
+      text = describeChanges(payload as FilesChangedPayload);
+      break;
+
+    case AGENT_FAILED_EVENT:
+      text = describeFailure(payload as AgentFailedPayload);
+      break;
+
+    case BUDGET_EXCEEDED_EVENT:
+      text = describeBudgetExceeded(payload as BudgetExceededPayload);
+      break;
+
+    case DAILY_USAGE_EVENT:
+      title = `${label} for ${payload.date}`;
+      text = describeDailyUsage(payload as DailyUsagePayload);
+      break;
+
+    case 'session.error': {
+      const error = payload.error ?? props.error;
+      text = typeof error === 'string'
+        ? error
+        : error?.data?.message || error?.message || error?.name || 'Unknown error';
+      break;
+    }
+
+    case 'file.edited':
+    case 'file.watcher.updated':
+      text = `\`${payload.filePath ?? props.file ?? 'unknown file'}\``;
+      break;
+
+    case 'message.part.updated':
+      text = props.part?.type === 'text' ? props.part.text ?? '' : '';
+      break;
+
+    case 'command.executed':
+      text = `\`${props.name ?? 'command'}${props.arguments ? ` ${props.arguments}` : ''}\``;
+      break;
+
+    case 'permission.updated':
+      text = props.title ?? '';
+      break;
+
+    case 'todo.updated': {
+      const todos: any[] = props.todos ?? [];
+      const done = todos.filter((todo) => todo.status === 'completed').length;
+      text = todos.length > 0 ? `${done}/${todos.length} todos completed` : '';
+      break;
+    }
+
+    case 'tui.toast.show':
+      text = props.message ?? '';
+      break;
+
+    default:
+      text = payload.messageContent ?? payload.message ?? '';
+  }
+
+  const info = props.info?.role === 'assistant' ? props.info : undefined;
+
+  return {
+    eventType: payload.eventType,
+    emoji,
+    label,
+    title,
+    text: typeof text === 'string' ? text : String(text),
+    sessionId,
+    tokens: payload.tokens ?? info?.tokens,
+    cost: payload.cost ?? info?.cost,
+    timestamp: payload.timestamp,
+    links,
+  };
+}
+
+function describeSessionSummary(summary: SessionSummaryPayload): string {
+  const lines = [
+    `${summary.turns} turn${summary.turns === 1 ? '' : 's'} · ${formatDuration(summary.durationMs)}`
+      + `${summary.reason === 'deleted' ? ' · session closed' : ''}`,
+  ];
+
+  const files = summary.filesEdited ?? [];
+  if (files.length > 0) {
+    const listed = files.slice(0, MAX_LISTED_FILES).map((file) => `\`${file}\``).join(', ');
+    const more = files.length > MAX_LISTED_FILES ? ` and ${files.length - MAX_LISTED_FILES} more` : '';
+    lines.push(`Files edited (${files.length}): ${listed}${more}`);
+  }
+  if (summary.commands?.length) {
+    lines.push(`Commands run: ${summary.commands.length}`);
+  }
+  if (summary.errors?.length) {
+    lines.push(`Errors: ${summary.errors.map((error) => error.message).join('; ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+function describeDiagnostics(diagnostics: DiagnosticsChangedPayload): string {
+  const lines = [
+    `${diagnostics.errors} error${diagnostics.errors === 1 ? '' : 's'}, `
+      + `${diagnostics.warnings} warning${diagnostics.warnings === 1 ? '' : 's'}`
+      + ` (was ${diagnostics.previousErrors} and ${diagnostics.previousWarnings})`,
+  ];
+  for (const error of (diagnostics.newErrors ?? []).slice(0, MAX_LISTED_FILES)) {
+    lines.push(`• \`${error.file}:${error.line}\` ${error.message}`);
+  }
+  return lines.join('\n');
+}
+
+const TODO_MARKS: Record<string, string> = {
+  completed: '✓',
+  in_progress: '▸',
+  cancelled: '✗',
+};
+
+function describeTodoProgress(progress: TodoProgressPayload): string {
+  const lines = [progress.summary];
+  for (const todo of progress.todos ?? []) {
+    lines.push(`${TODO_MARKS[todo.status] ?? '○'} ${todo.content}`);
+  }
+  return lines.join('\n');
+}
+
+function describeChanges(changes: FilesChangedPayload): string {
+  const files = changes.files ?? [];
+  const lines = [`${files.length} file${files.length === 1 ? '' : 's'} changed, +${changes.additions} −${changes.deletions}`];
+  for (const change of files.slice(0, MAX_LISTED_FILES)) {
+    const counts = change.additions !== undefined ? ` (+${change.additions} −${change.deletions})` : '';
+    lines.push(`• \`${change.file}\`${counts}`);
+  }
+  if (files.length > MAX_LISTED_FILES) {
+    lines.push(`and ${files.length - MAX_LISTED_FILES} more`);
+  }
+  return lines.join('\n');
+}
+
+function describeToolCall(call: ToolCompletedPayload): string {
+  const outcome = call.status === 'error'
+    ? `failed after ${formatDuration(call.durationMs)}: ${call.error}`
+    : `finished in ${formatDuration(call.durationMs)}${call.exitCode ? ` with exit code ${call.exitCode}` : ''}`;
+  return `${call.tool} ${outcome}${call.argsSummary ? `\n\`${call.argsSummary}\`` : ''}`;
+}
+
+function describeToolStats(stats: ToolStatsPayload): string {
+  const lines = [`${stats.totalCalls} tool call${stats.totalCalls === 1 ? '' : 's'}, ${stats.totalErrors} failed`];
+  const slowest = Object.entries(stats.tools ?? {}).sort(([, a], [, b]) => b.totalDurationMs - a.totalDurationMs);
+  for (const [tool, toolStats] of slowest) {
+    lines.push(
+      `• ${tool}: ${toolStats.calls}× avg ${formatDuration(toolStats.averageDurationMs)}`
+        + `${toolStats.errors ? `, ${toolStats.errors} failed` : ''}`
+    );
+  }
+  return lines.join('\n');
+}
+
+function describeFailure(failure: AgentFailedPayload): string {
+  const category = ERROR_CATEGORY_LABELS[failure.category] ?? 'Error';
+  const lines = [`${category} (${failure.severity}): ${failure.message}`];
+
+  if (failure.failedTool) {
+    lines.push(`Failing tool: ${failure.failedTool.name}: ${failure.failedTool.error}`);
+  }
+  if (failure.lastAssistantMessage) {
+    lines.push(`Last message: ${truncate(failure.lastAssistantMessage, MAX_QUOTED_MESSAGE_LENGTH)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function describePermissionRequest(request: AwaitingPermissionPayload): string {
+  const lines = [`The agent wants to run ${request.tool}: ${request.title}`];
+  if (request.command && request.command !== request.title) {
+    lines.push(`\`${request.command}\``);
+  }
+  return lines.join('\n');
+}
+
+const PERMISSION_RESPONSES: Record<string, string> = {
+  once: 'Allowed once',
+  always: 'Always allowed',
+  reject: 'Rejected',
+};
+
+function describePermissionResolved(resolved: PermissionResolvedPayload): string {
+  const waited = formatDuration(resolved.waitedMs);
+  if (resolved.status === 'timeout') {
+    return `Still waiting after ${waited}: ${resolved.title}`;
+  }
+  const answer = PERMISSION_RESPONSES[resolved.response ?? ''] ?? `Answered "${resolved.response}"`;
+  return `${answer} after ${waited}: ${resolved.title}`;
+}
+
+function describeBudgetExceeded(alert: BudgetExceededPayload): string {
+  const format = (value: number) => alert.metric === 'cost'
+    ? formatCost(value)
+    : `${value.toLocaleString('en-US')} tokens`;
+  const scope = alert.scope === 'daily' ? `Daily budget for ${alert.date}` : 'Session budget';
+
+  return `${scope} exceeded: ${format(alert.value)} spent, limit ${format(alert.limit)}`;
+}
+
+function describeDailyUsage(usage: DailyUsagePayload): string {
+  const sessions = usage.sessions ?? [];
+  const lines = [
+    `Spent ${formatCost(usage.cost)} across ${sessions.length} session${sessions.length === 1 ? '' : 's'}`
+      + ` · ${usage.tokens.input.toLocaleString('en-US')} input / ${usage.tokens.output.toLocaleString('en-US')} output tokens`,
+  ];
+
+  for (const session of sessions.slice(0, MAX_LISTED_SESSIONS)) {
+    lines.push(`• ${session.sessionTitle ?? session.sessionId}: ${formatCost(session.cost)}`);
+  }
+  if (sessions.length > MAX_LISTED_SESSIONS) {
+    lines.push(`…and ${sessions.length - MAX_LISTED_SESSIONS} more`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * "1h 5m", "12m 5s" or "42s" style duration
+ */
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * "1,500 in · 800 out · 50 reasoning" style token summary
+ */
+export function formatTokens(tokens: NonNullable<EventSummary['tokens']>): string {
+  const parts = [
+    `${tokens.input.toLocaleString('en-US')} in`,
+    `${tokens.output.toLocaleString('en-US')} out`,
+  ];
+  if (tokens.reasoning) {
+    parts.push(`${tokens.reasoning.toLocaleString('en-US')} reasoning`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * "$0.0275" style cost
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
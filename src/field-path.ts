@@ -0,0 +1,13 @@
+/**
+ * Read a dotted field path (e.g. "tokens.output") from a payload
+ */
+export function getFieldValue(payload: unknown, fieldPath: string): any {
+  let current: any = payload;
+  for (const key of fieldPath.split('.')) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
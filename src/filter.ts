@@ -0,0 +1,230 @@
+import { BaseEventPayload, FieldFilter, WebhookFilter } from './types.js';
+import { getFieldValue } from './field-path.js';
+
+/**
+ * Outcome of evaluating a filter. The reason describes the condition that
+ * decided the outcome, e.g. 'cost > 0.5 (was 0.1)'.
+ */
+export interface FilterOutcome {
+  matched: boolean;
+  reason: string;
+}
+
+/**
+ * A filter compiled into a function from payload to outcome
+ */
+export type CompiledFilter = (payload: BaseEventPayload) => FilterOutcome;
+
+/**
+ * Error thrown when a filter cannot be compiled
+ */
+export class FilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterError';
+  }
+}
+
+type Matcher = (value: unknown) => boolean;
+
+const OPERATORS = [
+  'equals', 'notEquals', 'in', 'notIn', 'contains', 'exists',
+  'glob', 'matches', 'gt', 'gte', 'lt', 'lte',
+] as const;
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: '==',
+  notEquals: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+/**
+ * Convert a glob to a regular expression: ** matches across directories,
+ * * and ? within one path segment, {a,b} either alternative
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Accept "/pattern/flags" strings (as written in YAML or JSON), plain
+ * patterns and RegExp objects
+ */
+function toRegExp(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+  const literal = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+  try {
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+  } catch (error) {
+    throw new FilterError(`Invalid regular expression ${pattern}: ${(error as Error).message}`);
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value instanceof RegExp) return String(value);
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function compileMatcher(operator: typeof OPERATORS[number], expected: any): Matcher {
+  switch (operator) {
+    case 'equals':
+      return (value) => value === expected;
+    case 'notEquals':
+      return (value) => value !== expected;
+    case 'in':
+    case 'notIn': {
+      if (!Array.isArray(expected)) {
+        throw new FilterError(`"${operator}" expects an array`);
+      }
+      return operator === 'in'
+        ? (value) => expected.includes(value)
+        : (value) => !expected.includes(value);
+    }
+    case 'contains':
+      return (value) => (typeof value === 'string' || Array.isArray(value)) && value.includes(expected);
+    case 'exists':
+      return (value) => (value !== undefined && value !== null) === Boolean(expected);
+    case 'glob': {
+      const regex = globToRegExp(String(expected));
+      return (value) => typeof value === 'string' && regex.test(value);
+    }
+    case 'matches': {
+      const regex = toRegExp(expected);
+      return (value) => typeof value === 'string' && regex.test(value);
+    }
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (typeof expected !== 'number') {
+        throw new FilterError(`"${operator}" expects a number`);
+      }
+      const compare = {
+        gt: (value: number) => value > expected,
+        gte: (value: number) => value >= expected,
+        lt: (value: number) => value < expected,
+        lte: (value: number) => value <= expected,
+      }[operator];
+      return (value) => typeof value === 'number' && compare(value);
+    }
+  }
+}
+
+function compileFieldFilter(filter: FieldFilter): CompiledFilter {
+  if (typeof filter.field !== 'string' || filter.field === '') {
+    throw new FilterError('Field filters need a "field" path');
+  }
+
+  const conditions = Object.keys(filter)
+    .filter((key) => key !== 'field')
+    .map((key) => {
+      if (!(OPERATORS as readonly string[]).includes(key)) {
+        throw new FilterError(`Unknown filter operator "${key}" for ${filter.field}`);
+      }
+      const operator = key as typeof OPERATORS[number];
+      const expected = filter[operator];
+      return {
+        description: `${filter.field} ${OPERATOR_LABELS[operator] ?? operator} ${describeValue(expected)}`,
+        test: compileMatcher(operator, expected),
+      };
+    });
+
+  if (conditions.length === 0) {
+    throw new FilterError(`No operator given for ${filter.field}`);
+  }
+
+  return (payload) => {
+    const value = getFieldValue(payload, filter.field);
+    for (const condition of conditions) {
+      if (!condition.test(value)) {
+        return { matched: false, reason: `${condition.description} (was ${describeValue(value)})` };
+      }
+    }
+    return { matched: true, reason: conditions.map((condition) => condition.description).join(' and ') };
+  };
+}
+
+/**
+ * Compile a declarative filter. Field filters combine with all, any and not:
+ *
+ * @example
+ * compileFilter({
+ *   all: [
+ *     { field: 'eventType', in: ['session.idle', 'session.error'] },
+ *     { field: 'properties.file', glob: 'src/**' },
+ *     { not: { field: 'messageContent', matches: '/draft/i' } },
+ *   ],
+ * });
+ */
+export function compileFilter(filter: WebhookFilter): CompiledFilter {
+  if (filter === null || typeof filter !== 'object' || Array.isArray(filter)) {
+    throw new FilterError('Filters must be objects');
+  }
+
+  if ('all' in filter || 'any' in filter) {
+    const isAll = 'all' in filter;
+    const items = isAll ? (filter as { all: WebhookFilter[] }).all : (filter as { any: WebhookFilter[] }).any;
+    if (!Array.isArray(items)) {
+      throw new FilterError(`"${isAll ? 'all' : 'any'}" expects an array of filters`);
+    }
+    const children = items.map(compileFilter);
+
+    return (payload) => {
+      const reasons: string[] = [];
+      for (const child of children) {
+        const outcome = child(payload);
+        if (outcome.matched !== isAll) {
+          // First failure decides "all", first match decides "any"
+          return outcome;
+        }
+        reasons.push(outcome.reason);
+      }
+      return isAll
+        ? { matched: true, reason: reasons.join(' and ') || 'all: no conditions' }
+        : { matched: false, reason: `none of: ${reasons.join('; ') || 'no conditions'}` };
+    };
+  }
+
+  if ('not' in filter) {
+    const child = compileFilter(filter.not);
+    return (payload) => {
+      const outcome = child(payload);
+      return { matched: !outcome.matched, reason: `not (${outcome.reason})` };
+    };
+  }
+
+  return compileFieldFilter(filter);
+}
@@ -0,0 +1,68 @@
+import { BaseEventPayload } from './types.js';
+import { summarizeEvent, truncate, formatTokens, formatCost } from './event-summary.js';
+
+/** Google Chat message limits */
+const GCHAT_TEXT_MAX_LENGTH = 4000;
+const GCHAT_HEADER_MAX_LENGTH = 200;
+
+export interface GoogleChatFormatterOptions {
+  /** Optional: Maximum length of the card body (default and cap: 4000) */
+  maxMessageLength?: number;
+}
+
+/**
+ * Escape the HTML subset Google Chat cards interpret
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Preset transformPayload for Google Chat space webhooks. Renders the event
+ * as a cardsV2 card with a plain text fallback.
+ */
+export function gchatFormatter(
+  options: GoogleChatFormatterOptions = {}
+): (payload: BaseEventPayload) => Record<string, any> {
+  const maxMessageLength = Math.min(
+    options.maxMessageLength ?? GCHAT_TEXT_MAX_LENGTH,
+    GCHAT_TEXT_MAX_LENGTH
+  );
+
+  return (payload: BaseEventPayload) => {
+    const summary = summarizeEvent(payload);
+
+    const widgets: any[] = [];
+    if (summary.text) {
+      widgets.push({
+        textParagraph: { text: truncate(escapeHtml(summary.text), maxMessageLength) },
+      });
+    }
+    if (summary.tokens) {
+      widgets.push({ decoratedText: { topLabel: 'Tokens', text: formatTokens(summary.tokens) } });
+    }
+    if (summary.cost !== undefined) {
+      widgets.push({ decoratedText: { topLabel: 'Cost', text: formatCost(summary.cost) } });
+    }
+    if (summary.sessionId) {
+      widgets.push({ decoratedText: { topLabel: 'Session', text: escapeHtml(summary.sessionId) } });
+    }
+
+    return {
+      // Shown in notifications and clients that cannot render cards
+      text: truncate(`${summary.emoji} ${summary.title}`, GCHAT_HEADER_MAX_LENGTH),
+      cardsV2: [
+        {
+          cardId: `opencode-${summary.eventType}`,
+          card: {
+            header: {
+              title: truncate(summary.title, GCHAT_HEADER_MAX_LENGTH),
+              subtitle: `${summary.emoji} ${summary.label}`,
+            },
+            sections: widgets.length > 0 ? [{ widgets }] : [],
+          },
+        },
+      ],
+    };
+  };
+}
@@ -1,13 +1,63 @@
 import type { Plugin } from '@opencode-ai/plugin';
+import * as path from 'path';
 import {
   WebhookPluginConfig,
   WebhookConfig,
   BaseEventPayload,
   OpencodeEventType,
   WebhookResult,
+  AgentNotificationConfig,
+  AgentCompletedPayload,
+  AGENT_COMPLETED_EVENT,
+  PluginContext,
+  BatchSummaryPayload,
+  BATCH_SUMMARY_EVENT,
+  NormalizedEventPayload,
+  SESSION_SUMMARY_EVENT,
+  DAILY_USAGE_EVENT,
+  BUDGET_EXCEEDED_EVENT,
+  AGENT_AWAITING_PERMISSION_EVENT,
+  AGENT_PERMISSION_RESOLVED_EVENT,
+  AGENT_FAILED_EVENT,
+  TOOL_COMPLETED_EVENT,
+  TOOL_STATS_EVENT,
+  FILES_CHANGED_EVENT,
+  TODO_PROGRESS_EVENT,
+  DIAGNOSTICS_CHANGED_EVENT,
 } from './types.js';
 import { WebhookClient } from './webhook-client.js';
 import { BatchHandler } from './batch-handler.js';
+import { DebounceHandler } from './debounce-handler.js';
+import { AgentCompletionMiddleware } from './middleware.js';
+import { DeliveryOutbox, OutboxEntry } from './outbox.js';
+import { loadConfigFile, ConfigFileOptions, CONFIG_FILE_NAMES } from './config-file.js';
+import { compileTemplate, CompiledTemplate } from './template.js';
+import { compileFilter, CompiledFilter } from './filter.js';
+import { EventRouter } from './event-matcher.js';
+import { normalizeEvent, createEventId } from './normalize.js';
+import { ContextEnricher } from './enrichment.js';
+import { SessionTracker } from './session-tracker.js';
+import { DailyUsageTracker } from './usage-tracker.js';
+import { BudgetWatcher } from './budget.js';
+import { PermissionMiddleware } from './permission-middleware.js';
+import { CallbackServer } from './callback-server.js';
+import { ErrorMiddleware } from './error-middleware.js';
+import { ToolTracker } from './tool-tracker.js';
+import { OtlpTraceExporter } from './otlp-exporter.js';
+import { ChangeTracker } from './change-tracker.js';
+import { TodoTracker } from './todo-tracker.js';
+import { DiagnosticsAggregator } from './diagnostics.js';
+
+const DEFAULT_OUTBOX_FILE = path.join('.opencode', 'webhooks-outbox.jsonl');
+const DEFAULT_OUTBOX_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Follows the OpenCode event stream to produce synthetic events
+ */
+interface EventTracker {
+  handleEvent(payload: NormalizedEventPayload): Promise<void>;
+  destroy?(): void | Promise<void>;
+}
 
 /**
  * Opencode Webhook Plugin Class
@@ -16,13 +66,24 @@ import { BatchHandler } from './batch-handler.js';
 export class WebhookPlugin {
   private config: WebhookPluginConfig;
   private client: WebhookClient;
-  private eventHandlers: Map<OpencodeEventType, Set<WebhookConfig>>;
+  private eventHandlers: EventRouter<WebhookConfig>;
   private batchHandlers: Map<string, BatchHandler>;
+  private debounceHandlers: Map<string, DebounceHandler> = new Map();
+  private templates: Map<WebhookConfig, CompiledTemplate> = new Map();
+  private filters: Map<WebhookConfig, CompiledFilter> = new Map();
+  private outbox?: DeliveryOutbox;
+  private enricher?: ContextEnricher;
+  private callbackServer?: CallbackServer;
+  private trackers: EventTracker[] = [];
+  private trackersEnabled = false;
+  private toolHookQueue: Promise<unknown> = Promise.resolve();
+  private outboxBacklog: OutboxEntry[] = [];
+  private outboxIds: WeakMap<BaseEventPayload, Map<string, string>> = new WeakMap();
 
   constructor(config: WebhookPluginConfig) {
     this.config = config;
     this.client = new WebhookClient(config.debug);
-    this.eventHandlers = new Map();
+    this.eventHandlers = new EventRouter();
     this.batchHandlers = new Map();
 
     this.indexWebhooks();
@@ -38,13 +99,16 @@ export class WebhookPlugin {
 
   private indexWebhooks(): void {
     for (const webhook of this.config.webhooks) {
-      for (const eventType of webhook.events) {
-        if (!this.eventHandlers.has(eventType as OpencodeEventType)) {
-          this.eventHandlers.set(eventType as OpencodeEventType, new Set());
-        }
-        this.eventHandlers.get(eventType as OpencodeEventType)!.add(webhook);
+      // Compile templates and filters once, so mistakes surface at startup
+      if (webhook.template !== undefined) {
+        this.templates.set(webhook, compileTemplate(webhook.template));
+      }
+      if (webhook.filter !== undefined) {
+        this.filters.set(webhook, compileFilter(webhook.filter));
       }
 
+      this.eventHandlers.add(webhook.events, webhook);
+
       // Create batch handler if rate limiting is configured
       if (webhook.rateLimit) {
         const key = this.getWebhookKey(webhook);
@@ -53,6 +117,18 @@ export class WebhookPlugin {
         };
         this.batchHandlers.set(key, new BatchHandler(webhook, sendCallback, this.config.debug));
       }
+
+      // Coalesce bursts before they reach persistence and rate limiting
+      if (webhook.debounce) {
+        const sendCallback = async (payload: BaseEventPayload) => {
+          await this.persist(webhook, payload);
+          await this.dispatch(webhook, payload);
+        };
+        this.debounceHandlers.set(
+          this.getWebhookKey(webhook),
+          new DebounceHandler(webhook, sendCallback, this.config.debug)
+        );
+      }
     }
   }
 
@@ -61,33 +137,299 @@ export class WebhookPlugin {
   }
 
   private getRegisteredEvents(): string[] {
-    return Array.from(this.eventHandlers.keys());
+    return Array.from(new Set(this.config.webhooks.flatMap((webhook) => webhook.events)));
   }
 
   async handleEvent(
-    eventType: OpencodeEventType,
+    eventType: OpencodeEventType | string,
     payload: Partial<BaseEventPayload>
   ): Promise<WebhookResult[]> {
-    const webhooks = this.eventHandlers.get(eventType);
+    const webhooks = this.eventHandlers.resolve(eventType);
 
-    if (!webhooks || webhooks.size === 0) {
+    if (webhooks.length === 0) {
       return [];
     }
 
+    const timestamp = payload.timestamp ?? new Date().toISOString();
     const fullPayload: BaseEventPayload = {
-      timestamp: new Date().toISOString(),
+      timestamp,
       eventType,
+      eventId: payload.eventId ?? createEventId(eventType, payload, timestamp),
       ...payload,
     };
 
+    if (this.enricher && !fullPayload.context) {
+      fullPayload.context = await this.enricher.enrich(fullPayload);
+    }
+
     if (this.config.debug) {
       console.log(`[WebhookPlugin] Handling event: ${eventType}`, fullPayload);
     }
 
-    const webhookPromises = Array.from(webhooks).map((webhook) =>
+    const webhookPromises = webhooks.map((webhook) =>
       this.processWebhook(webhook, fullPayload)
     );
 
+    return this.collectResults(webhookPromises);
+  }
+
+  /**
+   * Whether any webhook subscribes to an event type
+   */
+  hasSubscribers(eventType: string): boolean {
+    return this.eventHandlers.resolve(eventType).length > 0;
+  }
+
+  /**
+   * Create the trackers behind synthetic events (session.summary, ...).
+   * A tracker only runs when a webhook subscribes to its events.
+   */
+  enableTrackers(context?: PluginContext): void {
+    if (this.trackersEnabled) {
+      return;
+    }
+    this.trackersEnabled = true;
+
+    if (this.hasSubscribers(SESSION_SUMMARY_EVENT)) {
+      this.trackers.push(new SessionTracker({
+        context,
+        debug: this.config.debug,
+        onSummary: async (summary) => {
+          await this.handleEvent(SESSION_SUMMARY_EVENT, summary);
+        },
+      }));
+    }
+
+    if (this.hasSubscribers(DAILY_USAGE_EVENT)) {
+      this.trackers.push(new DailyUsageTracker({
+        debug: this.config.debug,
+        onRollup: async (rollup) => {
+          await this.handleEvent(DAILY_USAGE_EVENT, rollup);
+        },
+      }));
+    }
+
+    if (this.config.budget && this.hasSubscribers(BUDGET_EXCEEDED_EVENT)) {
+      this.trackers.push(new BudgetWatcher({
+        budget: this.config.budget,
+        debug: this.config.debug,
+        onExceeded: async (alert) => {
+          await this.handleEvent(BUDGET_EXCEEDED_EVENT, alert);
+        },
+      }));
+    }
+
+    if (this.hasSubscribers(AGENT_AWAITING_PERMISSION_EVENT) || this.hasSubscribers(AGENT_PERMISSION_RESOLVED_EVENT)) {
+      this.trackers.push(this.createPermissionMiddleware(context));
+    }
+
+    if (this.hasSubscribers(TOOL_COMPLETED_EVENT) || this.hasSubscribers(TOOL_STATS_EVENT)) {
+      this.trackers.push(new ToolTracker({
+        debug: this.config.debug,
+        onCompleted: async (payload) => {
+          await this.handleEvent(TOOL_COMPLETED_EVENT, payload);
+        },
+        onStats: async (payload) => {
+          await this.handleEvent(TOOL_STATS_EVENT, payload);
+        },
+      }));
+    }
+
+    if (this.hasSubscribers(AGENT_FAILED_EVENT)) {
+      this.trackers.push(new ErrorMiddleware({
+        context,
+        debug: this.config.debug,
+        onFailed: async (payload) => {
+          await this.handleEvent(AGENT_FAILED_EVENT, payload);
+        },
+      }));
+    }
+
+    if (this.hasSubscribers(FILES_CHANGED_EVENT)) {
+      this.trackers.push(new ChangeTracker({
+        context,
+        config: this.config.changes,
+        debug: this.config.debug,
+        onChanged: async (payload) => {
+          await this.handleEvent(FILES_CHANGED_EVENT, payload);
+        },
+      }));
+    }
+
+    if (this.hasSubscribers(TODO_PROGRESS_EVENT)) {
+      this.trackers.push(new TodoTracker({
+        debug: this.config.debug,
+        onProgress: async (payload) => {
+          await this.handleEvent(TODO_PROGRESS_EVENT, payload);
+        },
+      }));
+    }
+
+    if (this.hasSubscribers(DIAGNOSTICS_CHANGED_EVENT)) {
+      this.trackers.push(new DiagnosticsAggregator({
+        context,
+        config: this.config.diagnostics,
+        debug: this.config.debug,
+        onChanged: async (payload) => {
+          await this.handleEvent(DIAGNOSTICS_CHANGED_EVENT, payload);
+        },
+      }));
+    }
+
+    if (this.config.otlp) {
+      this.trackers.push(new OtlpTraceExporter({
+        config: this.config.otlp,
+        debug: this.config.debug,
+      }));
+    }
+  }
+
+  /**
+   * Permission middleware that delivers its payloads through this plugin,
+   * with action URLs when the callbacks option is set
+   */
+  private createPermissionMiddleware(context: PluginContext | undefined): PermissionMiddleware {
+    if (this.config.callbacks && context && !this.callbackServer) {
+      const options = this.config.callbacks === true ? {} : this.config.callbacks;
+      this.callbackServer = new CallbackServer(context, options, this.config.debug);
+    }
+
+    return new PermissionMiddleware({
+      context: context ?? ({} as PluginContext),
+      debug: this.config.debug,
+      timeoutSecs: this.config.permissionTimeoutSecs,
+      callbacks: this.callbackServer,
+      onAwaiting: async (payload) => {
+        await this.handleEvent(AGENT_AWAITING_PERMISSION_EVENT, payload);
+      },
+      onResolved: async (payload) => {
+        await this.handleEvent(AGENT_PERMISSION_RESOLVED_EVENT, payload);
+      },
+    });
+  }
+
+  /**
+   * Deliver a normalized OpenCode event to its webhooks, then let the
+   * trackers derive synthetic events from it
+   */
+  async handleOpencodeEvent(payload: NormalizedEventPayload): Promise<WebhookResult[]> {
+    // Tool hooks that came in first must reach the trackers first, or an
+    // error part or session.idle can overtake the call it belongs to
+    await this.toolHookQueue;
+    return this.processOpencodeEvent(payload);
+  }
+
+  private async processOpencodeEvent(payload: NormalizedEventPayload): Promise<WebhookResult[]> {
+    const results = await this.handleEvent(payload.eventType, payload);
+
+    for (const tracker of this.trackers) {
+      await tracker.handleEvent(payload);
+    }
+
+    return results;
+  }
+
+  /**
+   * tool.execute.before/after arrive through plugin hooks rather than the
+   * event bus. They are handled in order, but without holding up the tool.
+   */
+  handleToolHook(payload: NormalizedEventPayload): void {
+    this.toolHookQueue = this.toolHookQueue
+      .then(() => this.processOpencodeEvent(payload))
+      .catch((error) => {
+        if (this.config.debug) {
+          console.error(`[WebhookPlugin] Error handling ${payload.eventType}:`, error);
+        }
+      });
+  }
+
+  /**
+   * Start adding project, git and environment context to payloads, if the
+   * enrich option is set. Needs the OpenCode plugin context.
+   */
+  enableEnrichment(context: PluginContext): void {
+    if (!this.config.enrich || this.enricher || !context) {
+      return;
+    }
+
+    const options = this.config.enrich === true ? {} : this.config.enrich;
+    this.enricher = new ContextEnricher(context, options, this.config.debug);
+  }
+
+  /**
+   * Open the durable outbox and load deliveries left over from a previous run.
+   * The file lives under the project's .opencode directory unless a path is configured.
+   */
+  async openOutbox(directory?: string): Promise<void> {
+    if (!this.config.outbox || this.outbox) {
+      return;
+    }
+
+    const filePath = this.config.outbox.path
+      ?? (directory ? path.join(directory, DEFAULT_OUTBOX_FILE) : undefined);
+
+    if (!filePath) {
+      if (this.config.debug) {
+        console.log('[WebhookPlugin] Outbox disabled: no path configured and no project directory');
+      }
+      return;
+    }
+
+    const outbox = new DeliveryOutbox(filePath, this.config.debug);
+    try {
+      this.outboxBacklog = await outbox.load();
+      this.outbox = outbox;
+    } catch (error) {
+      if (this.config.debug) {
+        console.error(`[WebhookPlugin] Failed to open outbox ${filePath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Replay deliveries loaded by openOutbox. Entries for webhooks that are no
+   * longer configured, or older than outbox.maxAgeMs, are dropped.
+   */
+  async replayOutbox(): Promise<WebhookResult[]> {
+    if (!this.outbox) {
+      return [];
+    }
+
+    const outbox = this.outbox;
+    const entries = this.outboxBacklog;
+    this.outboxBacklog = [];
+
+    const maxAgeMs = this.config.outbox?.maxAgeMs ?? DEFAULT_OUTBOX_MAX_AGE_MS;
+    const webhooksByKey = new Map(
+      this.config.webhooks.map((webhook) => [this.getWebhookKey(webhook), webhook])
+    );
+
+    const replayPromises: Promise<WebhookResult>[] = [];
+    for (const entry of entries) {
+      const webhook = webhooksByKey.get(entry.webhookKey);
+
+      if (!webhook || Date.now() - entry.createdAt > maxAgeMs) {
+        if (this.config.debug) {
+          console.log(`[WebhookPlugin] Dropping stale outbox entry ${entry.id} (${entry.payload.eventType})`);
+        }
+        await outbox.remove(entry.id);
+        continue;
+      }
+
+      this.trackOutboxId(webhook, entry.payload, entry.id);
+      replayPromises.push(this.dispatch(webhook, entry.payload));
+    }
+
+    if (this.config.debug && replayPromises.length > 0) {
+      console.log(`[WebhookPlugin] Replaying ${replayPromises.length} pending delivery(ies) from outbox`);
+    }
+
+    return this.collectResults(replayPromises);
+  }
+
+  private async collectResults(
+    webhookPromises: Promise<WebhookResult>[]
+  ): Promise<WebhookResult[]> {
     const results = await Promise.allSettled(webhookPromises);
 
     return results.map((result) => {
@@ -108,20 +450,63 @@ export class WebhookPlugin {
     webhook: WebhookConfig,
     payload: BaseEventPayload
   ): Promise<WebhookResult> {
-    // Check shouldSend filter
-    if (webhook.shouldSend && !webhook.shouldSend(payload)) {
+    const skipReason = this.getSkipReason(webhook, payload);
+    if (skipReason) {
       if (this.config.debug) {
         console.log(
-          `[WebhookPlugin] Webhook filtered out by shouldSend: ${webhook.url}`
+          `[WebhookPlugin] Webhook skipped: ${webhook.url} (${skipReason})`
         );
       }
       return {
         success: true,
         webhookUrl: webhook.url,
         attempts: 0,
+        skipped: true,
+        skipReason,
       };
     }
 
+    const debounceHandler = this.debounceHandlers.get(this.getWebhookKey(webhook));
+    if (debounceHandler) {
+      debounceHandler.addEvent(payload);
+      return {
+        success: true,
+        webhookUrl: webhook.url,
+        attempts: 0,
+        debounced: true,
+      };
+    }
+
+    // Persist before sending so the delivery survives a restart
+    await this.persist(webhook, payload);
+
+    return this.dispatch(webhook, payload);
+  }
+
+  /**
+   * Evaluate filter, then shouldSend. Returns why the webhook should be
+   * skipped, or undefined when it should be sent.
+   */
+  private getSkipReason(webhook: WebhookConfig, payload: BaseEventPayload): string | undefined {
+    const filter = this.filters.get(webhook);
+    if (filter) {
+      const outcome = filter(payload);
+      if (!outcome.matched) {
+        return `filter: ${outcome.reason}`;
+      }
+    }
+
+    if (webhook.shouldSend && !webhook.shouldSend(payload)) {
+      return 'shouldSend returned false';
+    }
+
+    return undefined;
+  }
+
+  private async dispatch(
+    webhook: WebhookConfig,
+    payload: BaseEventPayload
+  ): Promise<WebhookResult> {
     // Check if rate limiting is enabled
     if (webhook.rateLimit) {
       const key = this.getWebhookKey(webhook);
@@ -150,15 +535,19 @@ export class WebhookPlugin {
   ): Promise<WebhookResult> {
     const webhookWithDefaults: WebhookConfig = {
       ...webhook,
+      transformPayload: webhook.transformPayload ?? this.templates.get(webhook),
       timeoutMs: webhook.timeoutMs ?? this.config.defaultTimeoutMs,
       retry: {
         maxAttempts:
           webhook.retry?.maxAttempts ?? this.config.defaultRetry?.maxAttempts ?? 3,
         delayMs: webhook.retry?.delayMs ?? this.config.defaultRetry?.delayMs ?? 1000,
+        retryableStatuses:
+          webhook.retry?.retryableStatuses ?? this.config.defaultRetry?.retryableStatuses,
       },
     };
 
     const result = await this.client.send(webhookWithDefaults, payload);
+    await this.acknowledge(webhook, payload, result);
     
     // Add rate limit delay flag if applicable
     if (rateLimitDelayed) {
@@ -174,40 +563,226 @@ export class WebhookPlugin {
   ): Promise<WebhookResult> {
     const webhookWithDefaults: WebhookConfig = {
       ...webhook,
+      transformPayload: webhook.transformPayload ?? this.templates.get(webhook),
       timeoutMs: webhook.timeoutMs ?? this.config.defaultTimeoutMs,
       retry: {
         maxAttempts:
           webhook.retry?.maxAttempts ?? this.config.defaultRetry?.maxAttempts ?? 3,
         delayMs: webhook.retry?.delayMs ?? this.config.defaultRetry?.delayMs ?? 1000,
+        retryableStatuses:
+          webhook.retry?.retryableStatuses ?? this.config.defaultRetry?.retryableStatuses,
       },
     };
 
-    return this.client.send(webhookWithDefaults, payload);
+    const result = await this.client.send(webhookWithDefaults, payload);
+    await this.acknowledge(webhook, payload, result);
+
+    return result;
+  }
+
+  private async persist(webhook: WebhookConfig, payload: BaseEventPayload): Promise<void> {
+    if (!this.outbox) {
+      return;
+    }
+
+    try {
+      const id = await this.outbox.add(this.getWebhookKey(webhook), payload);
+      this.trackOutboxId(webhook, payload, id);
+    } catch (error) {
+      if (this.config.debug) {
+        console.error(`[WebhookPlugin] Failed to persist delivery for ${webhook.url}:`, error);
+      }
+    }
+  }
+
+  private trackOutboxId(webhook: WebhookConfig, payload: BaseEventPayload, id: string): void {
+    if (!this.outboxIds.has(payload)) {
+      this.outboxIds.set(payload, new Map());
+    }
+    this.outboxIds.get(payload)!.set(this.getWebhookKey(webhook), id);
   }
 
   /**
-   * Cleanup batch handlers on shutdown
+   * Remove delivered payloads from the outbox, along with ones the endpoint
+   * rejected outright (replaying those would fail the same way).
+   * Failures without a response, e.g. a throwing transformPayload, are kept
+   * since a fix to the configuration can still deliver them.
+   * A batch summary acknowledges every event it was built from.
    */
-  destroy(): void {
+  private async acknowledge(
+    webhook: WebhookConfig,
+    payload: BaseEventPayload,
+    result: WebhookResult
+  ): Promise<void> {
+    const rejected = result?.retryable === false && result.statusCode !== undefined;
+    if (!this.outbox || !(result?.success || rejected)) {
+      return;
+    }
+
+    const key = this.getWebhookKey(webhook);
+    const delivered = payload.eventType === BATCH_SUMMARY_EVENT
+      ? (payload as BatchSummaryPayload).events
+      : [payload];
+
+    for (const event of delivered) {
+      const ids = this.outboxIds.get(event);
+      const id = ids?.get(key);
+      if (!id) continue;
+
+      ids!.delete(key);
+      try {
+        await this.outbox.remove(id);
+      } catch (error) {
+        if (this.config.debug) {
+          console.error(`[WebhookPlugin] Failed to remove delivered entry ${id} from outbox:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Cleanup batch handlers on shutdown. Events held by debounce are sent
+   * first, through rate limiting and the outbox like any other.
+   */
+  async destroy(): Promise<void> {
+    // Trackers may send final reports, so they go before the handlers
+    for (const tracker of this.trackers) {
+      await tracker.destroy?.();
+    }
+
+    for (const handler of this.debounceHandlers.values()) {
+      await handler.destroy();
+    }
+    this.debounceHandlers.clear();
+
     for (const handler of this.batchHandlers.values()) {
       handler.destroy();
     }
     this.batchHandlers.clear();
+
+    await this.callbackServer?.stop();
+
+    if (this.config.debug && this.outbox && this.outbox.size > 0) {
+      console.log(`[WebhookPlugin] ${this.outbox.size} pending delivery(ies) kept in outbox for replay`);
+    }
   }
 }
 
 /**
- * Factory function to create a webhook plugin instance compatible with Opencode
+ * Factory function to create a webhook plugin instance compatible with Opencode.
+ * Pass a WebhookPluginConfig, or nothing (or ConfigFileOptions) to load the
+ * webhooks from an opencode-webhooks.json / .yaml file.
  */
-export function createWebhookPlugin(config: WebhookPluginConfig): Plugin {
-  const plugin = new WebhookPlugin(config);
-  
-  return async (_context) => {
+export function createWebhookPlugin(config?: WebhookPluginConfig | ConfigFileOptions): Plugin {
+  // Without inline webhooks, the configuration comes from opencode-webhooks.json / .yaml
+  let plugin = config && 'webhooks' in config ? new WebhookPlugin(config) : undefined;
+  const fileOptions = config && !('webhooks' in config) ? config : {};
+
+  return async (context) => {
+    if (!plugin) {
+      const fileConfig = await loadConfigFile({
+        directory: context?.directory,
+        ...fileOptions,
+      });
+
+      if (!fileConfig) {
+        console.error(
+          `[WebhookPlugin] No webhooks configured: create one of ${CONFIG_FILE_NAMES.join(', ')} in your project or ~/.config/opencode`
+        );
+        return {};
+      }
+
+      plugin = new WebhookPlugin(fileConfig);
+    }
+
+    const webhookPlugin = plugin;
+    webhookPlugin.enableEnrichment(context);
+    webhookPlugin.enableTrackers(context);
+    await webhookPlugin.openOutbox(context?.directory);
+    void webhookPlugin.replayOutbox();
+
+    const normalizeContext = {
+      projectId: context?.project?.id,
+      worktree: context?.worktree,
+    };
+
     return {
       event: async ({ event }: { event: any }) => {
-        // Map the incoming event to our handler
         // event.type corresponds to OpencodeEventType values (e.g. 'session.idle')
-        await plugin.handleEvent(event.type as OpencodeEventType, event);
+        await webhookPlugin.handleOpencodeEvent(normalizeEvent(event, normalizeContext));
+      },
+      'tool.execute.before': async (input, output) => {
+        webhookPlugin.handleToolHook(normalizeEvent({
+          type: OpencodeEventType.TOOL_EXECUTE_BEFORE,
+          properties: { ...input, args: output.args },
+        }, normalizeContext));
+      },
+      'tool.execute.after': async (input, output) => {
+        webhookPlugin.handleToolHook(normalizeEvent({
+          type: OpencodeEventType.TOOL_EXECUTE_AFTER,
+          properties: { ...input, ...output },
+        }, normalizeContext));
+      },
+    };
+  };
+}
+
+/**
+ * Factory function to create an agent notification plugin.
+ * Feeds every OpenCode event through AgentCompletionMiddleware and delivers
+ * the resulting agent.completed payloads to all configured webhooks.
+ */
+export function createAgentNotificationPlugin(config: AgentNotificationConfig): Plugin {
+  const events = [AGENT_COMPLETED_EVENT];
+  if (config.notifyPermissions) {
+    events.push(AGENT_AWAITING_PERMISSION_EVENT, AGENT_PERMISSION_RESOLVED_EVENT);
+  }
+  if (config.notifyErrors) {
+    events.push(AGENT_FAILED_EVENT);
+  }
+
+  const plugin = new WebhookPlugin({
+    webhooks: config.webhooks.map((webhook) => ({
+      ...webhook,
+      events,
+    })),
+    debug: config.debug,
+    defaultTimeoutMs: config.defaultTimeoutMs,
+    defaultRetry: config.defaultRetry,
+    outbox: config.outbox,
+    enrich: config.enrich,
+    permissionTimeoutSecs: config.permissionTimeoutSecs,
+    callbacks: config.callbacks,
+  });
+
+  return async (context) => {
+    plugin.enableEnrichment(context);
+    // Permission and error notifications come from the plugin's own trackers
+    plugin.enableTrackers(context);
+    await plugin.openOutbox(context?.directory);
+    void plugin.replayOutbox();
+
+    const normalizeContext = {
+      projectId: context?.project?.id,
+      worktree: context?.worktree,
+    };
+
+    const middleware = new AgentCompletionMiddleware({
+      context,
+      debug: config.debug,
+      idleDelaySecs: config.idleDelaySecs,
+      changes: config.changes,
+      onComplete: async (payload: AgentCompletedPayload) => {
+        await plugin.handleEvent(AGENT_COMPLETED_EVENT, payload);
+      },
+    });
+
+    return {
+      event: async ({ event }: { event: any }) => {
+        await middleware.handleEvent(event);
+        if (events.length > 1) {
+          await plugin.handleOpencodeEvent(normalizeEvent(event, normalizeContext));
+        }
       }
     };
   };
@@ -215,5 +790,55 @@ export function createWebhookPlugin(config: WebhookPluginConfig): Plugin {
 
 // Export types for consumers
 export * from './types.js';
-export { WebhookClient } from './webhook-client.js';
-export { BatchHandler } from './batch-handler.js';
+export {
+  WebhookClient,
+  WebhookRequestError,
+  parseRetryAfter,
+  isRetryableError,
+  DEFAULT_RETRYABLE_STATUSES,
+} from './webhook-client.js';
+export { BatchHandler, defaultBatchSummary } from './batch-handler.js';
+export { DebounceHandler, mergePayloads } from './debounce-handler.js';
+export { AgentCompletionMiddleware } from './middleware.js';
+export { DeliveryOutbox } from './outbox.js';
+export { signPayload, verifySignature } from './signing.js';
+export {
+  loadConfigFile,
+  parseConfigFile,
+  findConfigFile,
+  ConfigFileError,
+  CONFIG_FILE_NAMES,
+} from './config-file.js';
+export type { ConfigFileOptions } from './config-file.js';
+export { configSchema, validateAgainstSchema } from './config-schema.js';
+export { compileTemplate, TemplateError, TEMPLATE_FILTERS } from './template.js';
+export type { CompiledTemplate } from './template.js';
+export { compileFilter, FilterError, globToRegExp } from './filter.js';
+export { EventMatcher, EventRouter } from './event-matcher.js';
+export { normalizeEvent, isEventType, getEventSessionId, createEventId } from './normalize.js';
+export { ContextEnricher } from './enrichment.js';
+export { SessionTracker } from './session-tracker.js';
+export { UsageAccumulator } from './usage.js';
+export { DailyUsageTracker, localDate } from './usage-tracker.js';
+export { BudgetWatcher } from './budget.js';
+export { PermissionMiddleware } from './permission-middleware.js';
+export { CallbackServer } from './callback-server.js';
+export { ErrorMiddleware, classifyError } from './error-middleware.js';
+export { ToolTracker, summarizeArgs } from './tool-tracker.js';
+export { ChangeTracker, countLineChanges, worktreeRelativePath } from './change-tracker.js';
+export { TodoTracker, summarizeTodos, diffTodos } from './todo-tracker.js';
+export { DiagnosticsAggregator } from './diagnostics.js';
+export { OtlpTraceExporter, sessionTraceId, sessionSpanId } from './otlp-exporter.js';
+export type { OtlpSpan } from './otlp-exporter.js';
+export type { NormalizeContext, RawOpencodeEvent } from './normalize.js';
+export type { CompiledFilter, FilterOutcome } from './filter.js';
+export type { VerifySignatureOptions } from './signing.js';
+export { slackFormatter } from './slack-formatter.js';
+export type { SlackFormatterOptions } from './slack-formatter.js';
+export { discordFormatter } from './discord-formatter.js';
+export type { DiscordFormatterOptions } from './discord-formatter.js';
+export { teamsFormatter } from './teams-formatter.js';
+export type { TeamsFormatterOptions } from './teams-formatter.js';
+export { gchatFormatter } from './gchat-formatter.js';
+export type { GoogleChatFormatterOptions } from './gchat-formatter.js';
+export type { OutboxEntry } from './outbox.js';
@@ -1,14 +1,15 @@
-import { AgentCompletedPayload, AGENT_COMPLETED_EVENT, PluginContext } from './types.js';
+import { AgentCompletedPayload, AGENT_COMPLETED_EVENT, ChangeTrackingConfig, PluginContext } from './types.js';
 import * as path from 'path';
+import { UsageAccumulator } from './usage.js';
+import { ChangeTracker } from './change-tracker.js';
+import { TodoTracker } from './todo-tracker.js';
+import { normalizeEvent } from './normalize.js';
 
 interface SessionState {
   parts: Map<string, string>;     // partId -> accumulated text (handles updates)
   assistantMessageIds: Set<string>; // Track which message IDs are from assistant
   lastMessageId?: string;
-  lastAssistantInfo?: {
-    tokens?: { input: number; output: number; reasoning: number };
-    cost?: number;
-  };
+  turnUsage: UsageAccumulator;      // Tokens and cost of every assistant message this turn
   pendingIdleTimer?: ReturnType<typeof setTimeout>;  // Timer for delayed webhook sending
   pendingIdlePayload?: AgentCompletedPayload;  // Stored payload for delayed send
 }
@@ -17,15 +18,48 @@ interface MiddlewareOptions {
   context: PluginContext;
   debug?: boolean;
   idleDelaySecs?: number;  // Delay in seconds before sending webhook after idle
+  changes?: ChangeTrackingConfig;  // What the changes section includes
   onComplete: (payload: AgentCompletedPayload) => Promise<void>;
 }
 
+/**
+ * Session title from the SDK, falling back to the project directory name
+ * and then the session ID
+ */
+export async function resolveSessionTitle(context: PluginContext, sessionId: string, debug = false): Promise<string> {
+  try {
+    // Try to fetch session from SDK
+    const session = await context.client.session.get({
+      path: { id: sessionId }
+    });
+    
+    if (session?.title) {
+      return session.title;
+    }
+  } catch (error) {
+    if (debug) {
+      console.log(`[Middleware] Could not fetch session title: ${error}`);
+    }
+  }
+  
+  // Fallback: use project directory name
+  if (context?.directory) {
+    return path.basename(context.directory);
+  }
+  
+  // Final fallback: session ID
+  return sessionId;
+}
+
 /**
  * Middleware that tracks OpenCode events and emits AgentCompletedPayload
  * when the agent finishes working (session goes idle)
  */
 export class AgentCompletionMiddleware {
   private sessions: Map<string, SessionState> = new Map();
+  private sessionUsage: Map<string, UsageAccumulator> = new Map();  // Survives across turns
+  private changeTracker: ChangeTracker;
+  private todoTracker: TodoTracker;
   private context: PluginContext;
   private debug: boolean;
   private idleDelaySecs: number;
@@ -36,6 +70,12 @@ export class AgentCompletionMiddleware {
     this.debug = options.debug ?? false;
     this.idleDelaySecs = options.idleDelaySecs ?? 0;
     this.onComplete = options.onComplete;
+    this.changeTracker = new ChangeTracker({
+      context: options.context,
+      config: options.changes,
+      debug: this.debug,
+    });
+    this.todoTracker = new TodoTracker({ debug: this.debug });
   }
 
   /**
@@ -45,6 +85,10 @@ export class AgentCompletionMiddleware {
     const eventType = event.type;
     const properties = event.properties ?? event;
 
+    const normalized = normalizeEvent({ type: eventType, properties });
+    await this.changeTracker.handleEvent(normalized);
+    await this.todoTracker.handleEvent(normalized);
+
     switch (eventType) {
       case 'message.part.updated':
         this.handleMessagePartUpdated(properties);
@@ -57,6 +101,12 @@ export class AgentCompletionMiddleware {
       case 'session.idle':
         await this.handleSessionIdle(properties);
         break;
+
+      case 'session.deleted':
+        if (properties.info?.id) {
+          this.sessionUsage.delete(properties.info.id);
+        }
+        break;
     }
   }
 
@@ -75,7 +125,8 @@ export class AgentCompletionMiddleware {
     if (!this.sessions.has(sessionId)) {
       this.sessions.set(sessionId, { 
         parts: new Map(),
-        assistantMessageIds: new Set()
+        assistantMessageIds: new Set(),
+        turnUsage: new UsageAccumulator(),
       });
     }
     
@@ -122,7 +173,8 @@ export class AgentCompletionMiddleware {
     if (!this.sessions.has(sessionId)) {
       this.sessions.set(sessionId, { 
         parts: new Map(),
-        assistantMessageIds: new Set()
+        assistantMessageIds: new Set(),
+        turnUsage: new UsageAccumulator(),
       });
     }
     
@@ -141,10 +193,12 @@ export class AgentCompletionMiddleware {
     // Track this message ID as an assistant message
     state.assistantMessageIds.add(messageId);
     
-    state.lastAssistantInfo = {
-      tokens: info.tokens,
-      cost: info.cost,
-    };
+    state.turnUsage.record(messageId, info.tokens, info.cost);
+
+    if (!this.sessionUsage.has(sessionId)) {
+      this.sessionUsage.set(sessionId, new UsageAccumulator());
+    }
+    this.sessionUsage.get(sessionId)!.record(messageId, info.tokens, info.cost);
     
     if (this.debug) {
       console.log(`[Middleware] Tracked assistant message ${messageId} for session ${sessionId}`);
@@ -172,6 +226,9 @@ export class AgentCompletionMiddleware {
       // Compile all text parts into single message with smart separators
       const messageContent = this.joinMessageParts(Array.from(state.parts.values()));
       
+      const turn = state.turnUsage.totals();
+      const session = this.sessionUsage.get(sessionId)?.totals() ?? turn;
+
       const payload: AgentCompletedPayload = {
         timestamp: new Date().toISOString(),
         eventType: AGENT_COMPLETED_EVENT,
@@ -179,10 +236,12 @@ export class AgentCompletionMiddleware {
         sessionTitle,
         messageContent,
         messageId: state.lastMessageId,
-        tokens: state.lastAssistantInfo?.tokens,
-        cost: state.lastAssistantInfo?.cost,
+        tokens: turn.messages > 0 ? turn.tokens : undefined,
+        cost: turn.messages > 0 ? turn.cost : undefined,
+        turn,
+        session,
       };
-      
+
       if (this.debug) {
         console.log(`[Middleware] Agent completed in "${sessionTitle}", message length: ${messageContent.length}`);
       }
@@ -206,14 +265,20 @@ export class AgentCompletionMiddleware {
           if (this.debug) {
             console.log(`[Middleware] Idle delay completed for session ${sessionId}, sending webhook`);
           }
-          await this.onComplete(payload);
+          try {
+            await this.complete(payload);
+          } catch (error) {
+            if (this.debug) {
+              console.error(`[Middleware] Error sending delayed agent.completed:`, error);
+            }
+          }
           this.sessions.delete(sessionId);
         }, this.idleDelaySecs * 1000);
         
         state.pendingIdlePayload = payload;
       } else {
         // No delay - send immediately
-        await this.onComplete(payload);
+        await this.complete(payload);
         this.sessions.delete(sessionId);
       }
       
@@ -224,29 +289,26 @@ export class AgentCompletionMiddleware {
     }
   }
 
-  private async getSessionTitle(sessionId: string): Promise<string> {
-    try {
-      // Try to fetch session from SDK
-      const session = await this.context.client.session.get({
-        path: { id: sessionId }
-      });
-      
-      if (session?.title) {
-        return session.title;
-      }
-    } catch (error) {
-      if (this.debug) {
-        console.log(`[Middleware] Could not fetch session title: ${error}`);
-      }
+  /**
+   * Attach file changes and todos, then send. Changes are only taken here,
+   * right before sending, so a delayed payload that gets cancelled does not
+   * consume them.
+   */
+  private async complete(payload: AgentCompletedPayload): Promise<void> {
+    const sessionId = payload.sessionId;
+    const changes = await this.changeTracker.takeChanges(sessionId);
+    if (changes) {
+      payload.changes = changes;
     }
-    
-    // Fallback: use project directory name
-    if (this.context.directory) {
-      return path.basename(this.context.directory);
+    const todos = this.todoTracker.getProgress(sessionId);
+    if (todos) {
+      payload.todos = todos;
     }
-    
-    // Final fallback: session ID
-    return sessionId;
+    await this.onComplete(payload);
+  }
+
+  private async getSessionTitle(sessionId: string): Promise<string> {
+    return resolveSessionTitle(this.context, sessionId, this.debug);
   }
 
   /**
@@ -296,5 +358,7 @@ export class AgentCompletionMiddleware {
       }
     }
     this.sessions.clear();
+    this.changeTracker.destroy();
+    this.todoTracker.destroy();
   }
 }
@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+import {
+  BaseEventPayload,
+  NormalizedEventPayload,
+  OpencodeEventPropertiesMap,
+  TypedEventPayload,
+} from './types.js';
+
+/**
+ * Values from the plugin context used to fill in fields events do not carry
+ */
+export interface NormalizeContext {
+  projectId?: string;
+  worktree?: string;
+}
+
+/**
+ * Raw event as delivered on the OpenCode bus
+ */
+export interface RawOpencodeEvent {
+  type: string;
+  properties?: Record<string, any>;
+}
+
+/**
+ * Find the session an event belongs to, wherever the event type keeps it
+ */
+export function getEventSessionId(eventType: string, properties: Record<string, any> = {}): string | undefined {
+  return properties.sessionID
+    ?? properties.info?.sessionID
+    ?? properties.part?.sessionID
+    ?? (eventType.startsWith('session.') ? properties.info?.id : undefined);
+}
+
+/**
+ * Derive an event id from the event's content and time, so every webhook,
+ * retry and outbox replay of the event reports the same id
+ */
+export function createEventId(eventType: string, properties: unknown, timestamp: string): string {
+  return createHash('sha256')
+    .update(`${eventType}\n${timestamp}\n${JSON.stringify(properties ?? {})}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Turn a raw bus event ({ type, properties }) into a payload with sessionId,
+ * projectId, worktree and eventId at the top level. The raw type and
+ * properties are kept as they are, so existing receivers continue to work.
+ */
+export function normalizeEvent(
+  event: RawOpencodeEvent,
+  context: NormalizeContext = {},
+  timestamp: string = new Date().toISOString()
+): NormalizedEventPayload {
+  const properties = event.properties ?? {};
+
+  const payload: NormalizedEventPayload = {
+    timestamp,
+    eventType: event.type,
+    eventId: createEventId(event.type, properties, timestamp),
+    // Receivers written against the raw event read type and properties
+    type: event.type,
+    properties,
+  };
+
+  const sessionId = getEventSessionId(event.type, properties);
+  const projectId = properties.info?.projectID ?? context.projectId;
+
+  if (sessionId) payload.sessionId = sessionId;
+  if (projectId) payload.projectId = projectId;
+  if (context.worktree) payload.worktree = context.worktree;
+
+  return payload;
+}
+
+/**
+ * Type guard narrowing a payload to one OpenCode event type
+ *
+ * @example
+ * transformPayload: (payload) => isEventType(payload, OpencodeEventType.TODO_UPDATED)
+ *   ? { done: payload.properties.todos.filter((todo) => todo.status === 'completed').length }
+ *   : payload,
+ */
+export function isEventType<T extends keyof OpencodeEventPropertiesMap>(
+  payload: BaseEventPayload,
+  eventType: T
+): payload is TypedEventPayload<T> {
+  return payload.eventType === eventType && typeof payload.properties === 'object' && payload.properties !== null;
+}
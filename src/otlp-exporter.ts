@@ -0,0 +1,401 @@
+import axios from 'axios';
+import { createHash, randomBytes } from 'crypto';
+import { NormalizedEventPayload, OtlpExporterConfig } from './types.js';
+import { UsageAccumulator } from './usage.js';
+import { summarizeArgs } from './tool-tracker.js';
+
+const DEFAULT_SERVICE_NAME = 'opencode';
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const TRACES_PATH = '/v1/traces';
+const SCOPE_NAME = 'opencode-webhooks';
+
+/** Finished spans held before a flush is forced */
+const MAX_BATCH_SIZE = 100;
+
+/** OTLP span kind and status codes */
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+type AttributeValue = string | number | boolean | undefined;
+
+interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+/** Span in OTLP/JSON form */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  status: { code: number; message?: string };
+}
+
+interface TurnState {
+  spanId: string;
+  startedAt: number;
+  usage: UsageAccumulator;
+  model?: string;
+  provider?: string;
+  error?: string;
+  toolPartIds: Set<string>;
+}
+
+interface SessionState {
+  title?: string;
+  startedAt: number;
+  usage: UsageAccumulator;
+  turns: number;
+  turn?: TurnState;
+  error?: string;
+}
+
+interface OtlpExporterOptions {
+  config: OtlpExporterConfig;
+  debug?: boolean;
+}
+
+function hashId(value: string, length: number): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, length);
+}
+
+/**
+ * Trace ID of a session; derived from the session ID so spans exported
+ * after a restart land in the same trace
+ */
+export function sessionTraceId(sessionId: string): string {
+  return hashId(`trace:${sessionId}`, 32);
+}
+
+/**
+ * Span ID of a session's root span, known before the span is exported
+ */
+export function sessionSpanId(sessionId: string): string {
+  return hashId(`span:${sessionId}`, 16);
+}
+
+function toUnixNano(timeMs: number): string {
+  return (BigInt(Math.round(timeMs)) * 1000000n).toString();
+}
+
+function toAttributes(attributes: Record<string, AttributeValue>): OtlpAttribute[] {
+  const result: OtlpAttribute[] = [];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) continue;
+    if (typeof value === 'string') {
+      result.push({ key, value: { stringValue: value } });
+    } else if (typeof value === 'boolean') {
+      result.push({ key, value: { boolValue: value } });
+    } else if (Number.isInteger(value)) {
+      result.push({ key, value: { intValue: String(value) } });
+    } else {
+      result.push({ key, value: { doubleValue: value } });
+    }
+  }
+  return result;
+}
+
+function usageAttributes(usage: UsageAccumulator): Record<string, AttributeValue> {
+  if (usage.size === 0) {
+    return {};
+  }
+  const { tokens, cost } = usage.totals();
+  return {
+    'gen_ai.usage.input_tokens': tokens.input,
+    'gen_ai.usage.output_tokens': tokens.output,
+    'opencode.usage.reasoning_tokens': tokens.reasoning,
+    'opencode.usage.cache_read_tokens': tokens.cache?.read,
+    'opencode.usage.cache_write_tokens': tokens.cache?.write,
+    'opencode.usage.cost': cost,
+  };
+}
+
+/**
+ * Exports agent activity to an OpenTelemetry collector over OTLP/HTTP JSON.
+ * A session is a trace with a root span, each turn (user message to idle) is
+ * a child span, and each tool call is a span under its turn.
+ *
+ * The root span's ID is derived from the session ID, so turns can point at it
+ * before it exists. It is exported once, when the session is deleted or at
+ * shutdown; until then the collector holds its children without it.
+ */
+export class OtlpTraceExporter {
+  private sessions: Map<string, SessionState> = new Map();
+  private batch: OtlpSpan[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private url: string;
+  private config: OtlpExporterConfig;
+  private debug: boolean;
+
+  constructor(options: OtlpExporterOptions) {
+    this.config = options.config;
+    this.debug = options.debug ?? false;
+
+    const endpoint = this.config.endpoint.replace(/\/+$/, '');
+    this.url = endpoint.endsWith(TRACES_PATH) ? endpoint : `${endpoint}${TRACES_PATH}`;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const sessionId = payload.sessionId;
+    if (!sessionId) return;
+
+    const props = payload.properties;
+    const info = props.info;
+
+    switch (payload.eventType) {
+      case 'session.created':
+      case 'session.updated': {
+        const session = this.getSession(sessionId, info?.time?.created);
+        session.title = info?.title ?? session.title;
+        return;
+      }
+
+      case 'message.updated':
+        this.handleMessage(sessionId, info);
+        return;
+
+      case 'message.part.updated':
+        this.handlePart(sessionId, props.part);
+        return;
+
+      case 'session.error': {
+        const session = this.getSession(sessionId);
+        const message = props.error?.data?.message ?? props.error?.message ?? props.error?.name ?? 'Unknown error';
+        if (session.turn) {
+          session.turn.error = message;
+        } else {
+          session.error = message;
+        }
+        return;
+      }
+
+      case 'session.idle': {
+        const session = this.sessions.get(sessionId);
+        if (session?.turn) {
+          this.endTurn(sessionId, session);
+        }
+        return;
+      }
+
+      case 'session.deleted': {
+        const session = this.sessions.get(sessionId);
+        this.sessions.delete(sessionId);
+        if (session) {
+          session.title = info?.title ?? session.title;
+          this.endSession(sessionId, session);
+          await this.flush();
+        }
+        return;
+      }
+    }
+  }
+
+  private getSession(sessionId: string, createdAt?: number): SessionState {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { startedAt: createdAt ?? Date.now(), usage: new UsageAccumulator(), turns: 0 };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private getTurn(session: SessionState, startedAt?: number): TurnState {
+    if (!session.turn) {
+      session.turns++;
+      session.turn = {
+        spanId: randomBytes(8).toString('hex'),
+        startedAt: startedAt ?? Date.now(),
+        usage: new UsageAccumulator(),
+        toolPartIds: new Set(),
+      };
+    }
+    return session.turn;
+  }
+
+  private handleMessage(sessionId: string, info: any): void {
+    if (!info?.id) return;
+
+    const session = this.getSession(sessionId);
+    if (info.role !== 'assistant') {
+      this.getTurn(session, info.time?.created);
+      return;
+    }
+
+    session.usage.record(info.id, info.tokens, info.cost);
+
+    // A late update of a finished message must not open an empty turn
+    if (!session.turn && info.time?.completed) {
+      return;
+    }
+    const turn = this.getTurn(session, info.time?.created);
+    turn.usage.record(info.id, info.tokens, info.cost);
+    turn.model = info.modelID ?? turn.model;
+    turn.provider = info.providerID ?? turn.provider;
+  }
+
+  private handlePart(sessionId: string, part: any): void {
+    const status = part?.state?.status;
+    if (part?.type !== 'tool' || (status !== 'completed' && status !== 'error')) {
+      return;
+    }
+
+    const session = this.getSession(sessionId);
+    const turn = this.getTurn(session);
+    if (turn.toolPartIds.has(part.id)) return;
+    turn.toolPartIds.add(part.id);
+
+    const end = part.state.time?.end ?? Date.now();
+    const start = part.state.time?.start ?? end;
+
+    this.addSpan({
+      traceId: sessionTraceId(sessionId),
+      spanId: randomBytes(8).toString('hex'),
+      parentSpanId: turn.spanId,
+      name: `tool ${part.tool}`,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(start),
+      endTimeUnixNano: toUnixNano(end),
+      attributes: toAttributes({
+        'opencode.session.id': sessionId,
+        'opencode.tool.name': part.tool,
+        'opencode.tool.call_id': part.callID,
+        'opencode.tool.args': summarizeArgs(part.state.input),
+        'opencode.tool.title': part.state.title,
+        'opencode.tool.exit_code': typeof part.state.metadata?.exit === 'number' ? part.state.metadata.exit : undefined,
+      }),
+      status: status === 'error'
+        ? { code: STATUS_ERROR, message: String(part.state.error ?? 'Unknown error') }
+        : { code: STATUS_OK },
+    });
+  }
+
+  private endTurn(sessionId: string, session: SessionState): void {
+    const turn = session.turn!;
+    session.turn = undefined;
+
+    this.addSpan({
+      traceId: sessionTraceId(sessionId),
+      spanId: turn.spanId,
+      parentSpanId: sessionSpanId(sessionId),
+      name: 'turn',
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(turn.startedAt),
+      endTimeUnixNano: toUnixNano(Math.max(turn.startedAt, Date.now())),
+      attributes: toAttributes({
+        'opencode.session.id': sessionId,
+        'opencode.session.title': session.title,
+        'opencode.turn.number': session.turns,
+        'opencode.turn.tool_calls': turn.toolPartIds.size,
+        'gen_ai.system': turn.provider,
+        'gen_ai.request.model': turn.model,
+        ...usageAttributes(turn.usage),
+      }),
+      status: turn.error ? { code: STATUS_ERROR, message: turn.error } : { code: STATUS_OK },
+    });
+  }
+
+  private endSession(sessionId: string, session: SessionState): void {
+    if (session.turn) {
+      this.endTurn(sessionId, session);
+    }
+
+    this.addSpan({
+      traceId: sessionTraceId(sessionId),
+      spanId: sessionSpanId(sessionId),
+      name: session.title ? `session ${session.title}` : 'session',
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(session.startedAt),
+      endTimeUnixNano: toUnixNano(Math.max(session.startedAt, Date.now())),
+      attributes: toAttributes({
+        'opencode.session.id': sessionId,
+        'opencode.session.title': session.title,
+        'opencode.session.turns': session.turns,
+        ...usageAttributes(session.usage),
+      }),
+      status: session.error ? { code: STATUS_ERROR, message: session.error } : { code: STATUS_OK },
+    });
+  }
+
+  private addSpan(span: OtlpSpan): void {
+    this.batch.push(span);
+
+    if (this.batch.length >= MAX_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        void this.flush();
+      }, this.config.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * Send the batched spans to the collector
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (this.batch.length === 0) {
+      return;
+    }
+
+    const spans = this.batch;
+    this.batch = [];
+
+    const body = {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toAttributes({
+              ...this.config.resourceAttributes,
+              'service.name': this.config.serviceName ?? DEFAULT_SERVICE_NAME,
+            }),
+          },
+          scopeSpans: [{ scope: { name: SCOPE_NAME }, spans }],
+        },
+      ],
+    };
+
+    try {
+      await axios.post(this.url, body, {
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        timeout: this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      });
+      if (this.debug) {
+        console.log(`[OtlpTraceExporter] Exported ${spans.length} span(s) to ${this.url}`);
+      }
+    } catch (error) {
+      // Traces are best effort; a collector outage must not affect webhooks
+      if (this.debug) {
+        console.error(`[OtlpTraceExporter] Failed to export ${spans.length} span(s):`, error);
+      }
+    }
+  }
+
+  /**
+   * End open sessions and send what is left
+   */
+  async shutdown(): Promise<void> {
+    for (const [sessionId, session] of this.sessions) {
+      this.endSession(sessionId, session);
+    }
+    this.sessions.clear();
+    await this.flush();
+  }
+
+  destroy(): Promise<void> {
+    return this.shutdown();
+  }
+}
@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { BaseEventPayload } from './types.js';
+
+/**
+ * A pending delivery stored in the outbox
+ */
+export interface OutboxEntry {
+  id: string;
+  webhookKey: string;
+  payload: BaseEventPayload;
+  createdAt: number;
+}
+
+type OutboxRecord =
+  | ({ op: 'add' } & OutboxEntry)
+  | { op: 'remove'; id: string };
+
+/**
+ * Append-only JSONL outbox that persists pending webhook deliveries to disk.
+ * Entries are written before sending and removed on success, so anything
+ * still pending when OpenCode exits can be replayed on the next startup.
+ */
+export class DeliveryOutbox {
+  private pending: Map<string, OutboxEntry> = new Map();
+  private writeChain: Promise<void> = Promise.resolve();
+  private debug: boolean;
+
+  constructor(
+    private filePath: string,
+    debug: boolean = false
+  ) {
+    this.debug = debug;
+  }
+
+  /**
+   * Load pending entries from disk and compact the file
+   */
+  async load(): Promise<OutboxEntry[]> {
+    let content = '';
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    this.pending.clear();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let record: OutboxRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A crash mid-write can leave a truncated last line
+        if (this.debug) {
+          console.log(`[Outbox] Skipping malformed line in ${this.filePath}`);
+        }
+        continue;
+      }
+
+      if (record.op === 'add') {
+        const { op: _op, ...entry } = record;
+        this.pending.set(entry.id, entry);
+      } else if (record.op === 'remove') {
+        this.pending.delete(record.id);
+      }
+    }
+
+    await this.compact();
+
+    if (this.debug) {
+      console.log(`[Outbox] Loaded ${this.pending.size} pending delivery(ies) from ${this.filePath}`);
+    }
+
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Persist a payload before it is sent
+   */
+  async add(webhookKey: string, payload: BaseEventPayload): Promise<string> {
+    const entry: OutboxEntry = {
+      id: randomUUID(),
+      webhookKey,
+      payload,
+      createdAt: Date.now(),
+    };
+    this.pending.set(entry.id, entry);
+    await this.append({ op: 'add', ...entry });
+    return entry.id;
+  }
+
+  /**
+   * Remove a delivered (or abandoned) payload
+   */
+  async remove(id: string): Promise<void> {
+    if (!this.pending.delete(id)) {
+      return;
+    }
+    await this.append({ op: 'remove', id });
+  }
+
+  /**
+   * Number of deliveries still waiting
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  private append(record: OutboxRecord): Promise<void> {
+    return this.enqueueWrite(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+    });
+  }
+
+  /**
+   * Rewrite the file with only the pending entries
+   */
+  private compact(): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const lines = Array.from(this.pending.values())
+        .map((entry) => JSON.stringify({ op: 'add', ...entry }) + '\n')
+        .join('');
+      const tmpPath = `${this.filePath}.tmp`;
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, lines, 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+    });
+  }
+
+  /**
+   * Serialize file writes so records are never interleaved
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write);
+    this.writeChain = next.catch((error) => {
+      if (this.debug) {
+        console.error(`[Outbox] Failed to write ${this.filePath}:`, error);
+      }
+    });
+    return next;
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  AwaitingPermissionPayload,
+  AGENT_AWAITING_PERMISSION_EVENT,
+  AGENT_PERMISSION_RESOLVED_EVENT,
+  NormalizedEventPayload,
+  PermissionInfo,
+  PermissionResolvedPayload,
+  PluginContext,
+} from './types.js';
+import { resolveSessionTitle } from './middleware.js';
+import { CallbackServer } from './callback-server.js';
+
+interface PendingPermission {
+  request: AwaitingPermissionPayload;
+  requestedAt: number;
+  timeoutTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface PermissionMiddlewareOptions {
+  context: PluginContext;
+  debug?: boolean;
+  /** Send a timeout follow-up when a request is unanswered this long (default: 0 = never) */
+  timeoutSecs?: number;
+  /** Adds one-time action URLs to agent.awaiting_permission payloads */
+  callbacks?: CallbackServer;
+  onAwaiting: (payload: AwaitingPermissionPayload) => Promise<void>;
+  onResolved: (payload: PermissionResolvedPayload) => Promise<void>;
+}
+
+/**
+ * Middleware that turns permission.updated / permission.replied into
+ * agent.awaiting_permission and agent.permission_resolved payloads, so a
+ * webhook can say "the agent is blocked waiting for you"
+ */
+export class PermissionMiddleware {
+  private pending: Map<string, PendingPermission> = new Map();
+  private context: PluginContext;
+  private debug: boolean;
+  private timeoutSecs: number;
+  private callbacks?: CallbackServer;
+  private onAwaiting: (payload: AwaitingPermissionPayload) => Promise<void>;
+  private onResolved: (payload: PermissionResolvedPayload) => Promise<void>;
+
+  constructor(options: PermissionMiddlewareOptions) {
+    this.context = options.context;
+    this.debug = options.debug ?? false;
+    this.timeoutSecs = options.timeoutSecs ?? 0;
+    this.callbacks = options.callbacks;
+    this.onAwaiting = options.onAwaiting;
+    this.onResolved = options.onResolved;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const props = payload.properties;
+
+    try {
+      switch (payload.eventType) {
+        case 'permission.updated':
+          await this.handlePermissionUpdated(props as PermissionInfo);
+          break;
+
+        case 'permission.replied':
+          await this.handlePermissionReplied(props.permissionID, props.response);
+          break;
+
+        case 'session.deleted':
+          if (payload.sessionId) this.forgetSession(payload.sessionId);
+          break;
+      }
+    } catch (error) {
+      if (this.debug) {
+        console.error(`[PermissionMiddleware] Error handling ${payload.eventType}:`, error);
+      }
+    }
+  }
+
+  private async handlePermissionUpdated(info: PermissionInfo): Promise<void> {
+    // permission.updated repeats for the same request; only the first one is news
+    if (!info?.id || !info.sessionID || this.pending.has(info.id)) {
+      return;
+    }
+
+    const requestedAt = info.time?.created ?? Date.now();
+    const metadata = info.metadata ?? {};
+    const request: AwaitingPermissionPayload = {
+      timestamp: new Date().toISOString(),
+      eventType: AGENT_AWAITING_PERMISSION_EVENT,
+      sessionId: info.sessionID,
+      sessionTitle: info.sessionID,
+      permissionId: info.id,
+      tool: info.type,
+      title: info.title,
+      command: typeof metadata.command === 'string' ? metadata.command : undefined,
+      pattern: info.pattern,
+      messageId: info.messageID,
+      callId: info.callID,
+      metadata,
+      requestedAt: new Date(requestedAt).toISOString(),
+    };
+
+    const entry: PendingPermission = { request, requestedAt };
+    this.pending.set(info.id, entry);
+    request.sessionTitle = await resolveSessionTitle(this.context, info.sessionID, this.debug);
+
+    if (this.callbacks) {
+      try {
+        request.actions = await this.callbacks.createActions(info.sessionID, info.id, info.title);
+      } catch (error) {
+        // Still notify, just without the links
+        if (this.debug) {
+          console.error(`[PermissionMiddleware] Could not create action URLs:`, error);
+        }
+      }
+    }
+
+    if (this.timeoutSecs > 0) {
+      entry.timeoutTimer = setTimeout(() => {
+        entry.timeoutTimer = undefined;
+        void this.resolve(entry, 'timeout');
+      }, this.timeoutSecs * 1000);
+    }
+
+    if (this.debug) {
+      console.log(`[PermissionMiddleware] Session ${info.sessionID} awaiting ${info.type} permission: ${info.title}`);
+    }
+
+    await this.onAwaiting(request);
+  }
+
+  private async handlePermissionReplied(permissionId: string, response: string): Promise<void> {
+    this.callbacks?.revoke(permissionId);
+
+    const entry = this.pending.get(permissionId);
+    if (!entry) {
+      return;
+    }
+
+    this.pending.delete(permissionId);
+    if (entry.timeoutTimer) {
+      clearTimeout(entry.timeoutTimer);
+    }
+
+    await this.resolve(entry, 'replied', response);
+  }
+
+  private async resolve(
+    entry: PendingPermission,
+    status: PermissionResolvedPayload['status'],
+    response?: string
+  ): Promise<void> {
+    const { request } = entry;
+    const payload: PermissionResolvedPayload = {
+      timestamp: new Date().toISOString(),
+      eventType: AGENT_PERMISSION_RESOLVED_EVENT,
+      sessionId: request.sessionId,
+      sessionTitle: request.sessionTitle,
+      permissionId: request.permissionId,
+      tool: request.tool,
+      title: request.title,
+      status,
+      response,
+      waitedMs: Math.max(0, Date.now() - entry.requestedAt),
+    };
+
+    if (this.debug) {
+      console.log(`[PermissionMiddleware] Permission ${request.permissionId} ${status}${response ? `: ${response}` : ''}`);
+    }
+
+    try {
+      await this.onResolved(payload);
+    } catch (error) {
+      if (this.debug) {
+        console.error(`[PermissionMiddleware] Error sending permission follow-up:`, error);
+      }
+    }
+  }
+
+  /**
+   * Deleting a session drops its requests without a follow-up
+   */
+  private forgetSession(sessionId: string): void {
+    for (const [permissionId, entry] of this.pending) {
+      if (entry.request.sessionId === sessionId) {
+        if (entry.timeoutTimer) clearTimeout(entry.timeoutTimer);
+        this.pending.delete(permissionId);
+        this.callbacks?.revoke(permissionId);
+      }
+    }
+  }
+
+  /**
+   * Clear all pending requests and timers
+   */
+  destroy(): void {
+    for (const entry of this.pending.values()) {
+      if (entry.timeoutTimer) {
+        clearTimeout(entry.timeoutTimer);
+      }
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,26 @@
+import { BaseEventPayload, WebhookPreset } from './types.js';
+import { slackFormatter } from './slack-formatter.js';
+import { discordFormatter } from './discord-formatter.js';
+import { teamsFormatter } from './teams-formatter.js';
+import { gchatFormatter } from './gchat-formatter.js';
+
+type PayloadFormatter = (payload: BaseEventPayload) => any;
+
+const PRESET_FORMATTERS: Record<WebhookPreset, PayloadFormatter> = {
+  'slack': slackFormatter(),
+  'slack-workflow': slackFormatter({ mode: 'workflow' }),
+  'discord': discordFormatter(),
+  'teams': teamsFormatter(),
+  'gchat': gchatFormatter(),
+};
+
+/**
+ * Look up the transformPayload function for a preset name
+ */
+export function getPresetFormatter(preset: WebhookPreset): PayloadFormatter {
+  const formatter = PRESET_FORMATTERS[preset];
+  if (!formatter) {
+    throw new Error(`Unknown webhook preset: ${preset}`);
+  }
+  return formatter;
+}
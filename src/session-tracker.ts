@@ -0,0 +1,198 @@
+import { worktreeRelativePath } from './change-tracker.js';
+import {
+  NormalizedEventPayload,
+  PluginContext,
+  SessionSummaryPayload,
+  SESSION_SUMMARY_EVENT,
+} from './types.js';
+import { UsageAccumulator } from './usage.js';
+
+interface SessionStats {
+  title?: string;
+  startedAt: number;
+  userMessageIds: Set<string>;
+  usage: UsageAccumulator;
+  filesEdited: Set<string>;
+  commands: string[];
+  commandPartIds: Set<string>;
+  errors: SessionSummaryPayload['errors'];
+  /** Activity since the last summary */
+  dirty: boolean;
+}
+
+interface SessionTrackerOptions {
+  /** Used to make paths relative to the worktree */
+  context?: PluginContext;
+  debug?: boolean;
+  onSummary: (payload: SessionSummaryPayload) => Promise<void>;
+}
+
+/**
+ * Follows sessions from session.created to session.deleted and emits a
+ * session.summary event when a session goes idle (after new activity) or is deleted
+ */
+export class SessionTracker {
+  private sessions: Map<string, SessionStats> = new Map();
+  private lastActiveSessionId?: string;
+  private context?: PluginContext;
+  private debug: boolean;
+  private onSummary: (payload: SessionSummaryPayload) => Promise<void>;
+
+  constructor(options: SessionTrackerOptions) {
+    this.context = options.context;
+    this.debug = options.debug ?? false;
+    this.onSummary = options.onSummary;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const props = payload.properties;
+
+    // file.edited does not say which session edited the file
+    const sessionId = payload.eventType === 'file.edited'
+      ? this.lastActiveSessionId
+      : payload.sessionId;
+    if (!sessionId) return;
+
+    switch (payload.eventType) {
+      case 'session.created':
+      case 'session.updated': {
+        const stats = this.getStats(sessionId, props.info?.time?.created);
+        stats.title = props.info?.title ?? stats.title;
+        return;
+      }
+
+      case 'session.idle': {
+        const stats = this.sessions.get(sessionId);
+        if (stats?.dirty) {
+          await this.emit(sessionId, stats, 'idle');
+        }
+        return;
+      }
+
+      case 'session.deleted': {
+        const stats = this.sessions.get(sessionId);
+        this.sessions.delete(sessionId);
+        if (stats) {
+          stats.title = props.info?.title ?? stats.title;
+          await this.emit(sessionId, stats, 'deleted');
+        }
+        return;
+      }
+    }
+
+    const stats = this.getStats(sessionId);
+    this.lastActiveSessionId = sessionId;
+    stats.dirty = true;
+
+    switch (payload.eventType) {
+      case 'message.updated':
+        this.trackMessage(stats, props.info);
+        break;
+
+      case 'message.part.updated':
+        this.trackPart(stats, props.part);
+        break;
+
+      case 'file.edited':
+        if (props.file) stats.filesEdited.add(worktreeRelativePath(this.context, props.file));
+        break;
+
+      case 'command.executed':
+        stats.commands.push(`/${props.name}${props.arguments ? ` ${props.arguments}` : ''}`);
+        break;
+
+      case 'session.error': {
+        const error = props.error;
+        stats.errors.push({
+          name: error?.name ?? 'UnknownError',
+          message: error?.data?.message ?? error?.message ?? 'Unknown error',
+        });
+        break;
+      }
+    }
+  }
+
+  private getStats(sessionId: string, createdAt?: number): SessionStats {
+    let stats = this.sessions.get(sessionId);
+    if (!stats) {
+      stats = {
+        startedAt: createdAt ?? Date.now(),
+        userMessageIds: new Set(),
+        usage: new UsageAccumulator(),
+        filesEdited: new Set(),
+        commands: [],
+        commandPartIds: new Set(),
+        errors: [],
+        dirty: false,
+      };
+      this.sessions.set(sessionId, stats);
+    }
+    return stats;
+  }
+
+  private trackMessage(stats: SessionStats, info: any): void {
+    if (!info?.id) return;
+
+    if (info.role === 'user') {
+      stats.userMessageIds.add(info.id);
+    } else if (info.role === 'assistant') {
+      stats.usage.record(info.id, info.tokens, info.cost);
+    }
+  }
+
+  private trackPart(stats: SessionStats, part: any): void {
+    if (part?.type !== 'tool' || part.state?.status !== 'completed' || stats.commandPartIds.has(part.id)) {
+      return;
+    }
+
+    const input = part.state.input ?? {};
+    if (part.tool === 'bash' && input.command) {
+      stats.commandPartIds.add(part.id);
+      stats.commands.push(input.command);
+    } else if (['edit', 'write', 'patch'].includes(part.tool) && input.filePath) {
+      stats.filesEdited.add(worktreeRelativePath(this.context, input.filePath));
+    }
+  }
+
+  private buildSummary(sessionId: string, stats: SessionStats, reason: SessionSummaryPayload['reason']): SessionSummaryPayload {
+    const { tokens, cost } = stats.usage.totals();
+
+    return {
+      timestamp: new Date().toISOString(),
+      eventType: SESSION_SUMMARY_EVENT,
+      sessionId,
+      sessionTitle: stats.title,
+      reason,
+      startedAt: new Date(stats.startedAt).toISOString(),
+      durationMs: Math.max(0, Date.now() - stats.startedAt),
+      turns: stats.userMessageIds.size,
+      filesEdited: Array.from(stats.filesEdited),
+      commands: [...stats.commands],
+      errors: [...stats.errors],
+      tokens,
+      cost,
+    };
+  }
+
+  private async emit(sessionId: string, stats: SessionStats, reason: SessionSummaryPayload['reason']): Promise<void> {
+    stats.dirty = false;
+    const summary = this.buildSummary(sessionId, stats, reason);
+
+    if (this.debug) {
+      console.log(
+        `[SessionTracker] Session ${sessionId} ${reason}: ${summary.turns} turns, ${summary.filesEdited.length} files edited`
+      );
+    }
+
+    try {
+      await this.onSummary(summary);
+    } catch (error) {
+      if (this.debug) {
+        console.error(`[SessionTracker] Error emitting session summary:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WebhookConfig } from './types.js';
+
+export type SigningConfig = NonNullable<WebhookConfig['signing']>;
+
+export const DEFAULT_SIGNATURE_HEADER = 'X-Opencode-Signature';
+export const DEFAULT_TIMESTAMP_HEADER = 'X-Opencode-Timestamp';
+
+/**
+ * Compute the hex HMAC of "<timestamp>.<body>"
+ */
+function computeSignature(
+  secret: string,
+  algorithm: 'sha256' | 'sha512',
+  timestamp: number | string,
+  body: string
+): string {
+  return createHmac(algorithm, secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Build the signature and timestamp headers for a serialized request body
+ */
+export function signPayload(
+  body: string,
+  signing: SigningConfig,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  const algorithm = signing.algorithm ?? 'sha256';
+  const signature = computeSignature(signing.secret, algorithm, timestamp, body);
+
+  return {
+    [signing.signatureHeader ?? DEFAULT_SIGNATURE_HEADER]: `${algorithm}=${signature}`,
+    [signing.timestampHeader ?? DEFAULT_TIMESTAMP_HEADER]: String(timestamp),
+  };
+}
+
+export interface VerifySignatureOptions {
+  /** Shared secret configured on the sending webhook */
+  secret: string;
+
+  /** Raw request body, exactly as received */
+  body: string;
+
+  /** Value of the signature header ("sha256=<hex>" or "sha512=<hex>") */
+  signature: string;
+
+  /** Value of the timestamp header (Unix seconds) */
+  timestamp: string | number;
+
+  /** Maximum age of a request in seconds before it is rejected as a replay (default: 300) */
+  toleranceSecs?: number;
+
+  /** Current time in milliseconds (default: Date.now()) */
+  now?: number;
+}
+
+/**
+ * Verify a signed webhook request on the receiving side.
+ * Returns false for bad signatures and for timestamps outside the tolerance window.
+ */
+export function verifySignature(options: VerifySignatureOptions): boolean {
+  const toleranceSecs = options.toleranceSecs ?? 300;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const timestamp = Number(options.timestamp);
+
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > toleranceSecs) {
+    return false;
+  }
+
+  const [algorithm, received] = options.signature.split('=', 2);
+  if ((algorithm !== 'sha256' && algorithm !== 'sha512') || !received) {
+    return false;
+  }
+
+  const expected = computeSignature(options.secret, algorithm, options.timestamp, options.body);
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const receivedBuffer = Buffer.from(received, 'hex');
+
+  return expectedBuffer.length === receivedBuffer.length
+    && timingSafeEqual(expectedBuffer, receivedBuffer);
+}
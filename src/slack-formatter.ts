@@ -0,0 +1,120 @@
+import { BaseEventPayload } from './types.js';
+import { summarizeEvent, truncate, formatTokens, formatCost, EventSummary } from './event-summary.js';
+
+/** Slack Block Kit limits */
+const SLACK_HEADER_MAX_LENGTH = 150;
+const SLACK_SECTION_MAX_LENGTH = 3000;
+
+export interface SlackFormatterOptions {
+  /**
+   * Target webhook type (default: 'incoming-webhook')
+   * - 'incoming-webhook': classic hooks.slack.com/services URLs, renders Block Kit
+   * - 'workflow': Workflow Builder triggers, renders flat string variables
+   */
+  mode?: 'incoming-webhook' | 'workflow';
+
+  /** Optional: Maximum length of the message body (default and cap: 3000) */
+  maxMessageLength?: number;
+}
+
+/**
+ * Escape the characters Slack treats as control sequences in mrkdwn
+ */
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function buildContext(summary: EventSummary): string[] {
+  const context = [`${summary.emoji} ${summary.label}`];
+  if (summary.tokens) {
+    context.push(`Tokens: ${formatTokens(summary.tokens)}`);
+  }
+  if (summary.cost !== undefined) {
+    context.push(`Cost: ${formatCost(summary.cost)}`);
+  }
+  if (summary.sessionId) {
+    context.push(`Session: \`${summary.sessionId}\``);
+  }
+  return context;
+}
+
+function toBlockKit(summary: EventSummary, maxMessageLength: number): Record<string, any> {
+  const text = summary.text ? truncate(escapeMrkdwn(summary.text), maxMessageLength) : '';
+  const blocks: any[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: truncate(summary.title, SLACK_HEADER_MAX_LENGTH),
+        emoji: true,
+      },
+    },
+  ];
+
+  if (text) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text },
+    });
+  }
+
+  if (summary.links?.length) {
+    blocks.push({
+      type: 'actions',
+      elements: summary.links.map((link) => ({
+        type: 'button',
+        text: { type: 'plain_text', text: link.label },
+        url: link.url,
+      })),
+    });
+  }
+
+  blocks.push({
+    type: 'context',
+    elements: buildContext(summary).map((element) => ({ type: 'mrkdwn', text: element })),
+  });
+
+  return {
+    // Fallback for notifications and clients that cannot render blocks
+    text: truncate(`${summary.emoji} ${summary.title}${text ? `: ${summary.text}` : ''}`, maxMessageLength),
+    blocks,
+  };
+}
+
+function toWorkflowVariables(summary: EventSummary, maxMessageLength: number): Record<string, string> {
+  // Workflow Builder only accepts flat string variables
+  return {
+    eventType: summary.eventType,
+    title: truncate(`${summary.emoji} ${summary.title}`, SLACK_HEADER_MAX_LENGTH),
+    message: truncate(summary.text, maxMessageLength),
+    sessionId: summary.sessionId ?? 'N/A',
+    tokens: summary.tokens ? formatTokens(summary.tokens) : '',
+    cost: summary.cost !== undefined ? formatCost(summary.cost) : '',
+    timestamp: summary.timestamp,
+  };
+}
+
+/**
+ * Preset transformPayload for Slack. Renders any event, including
+ * agent.completed and batch summaries, as a Slack message.
+ *
+ * @example
+ * transformPayload: slackFormatter(),
+ * transformPayload: slackFormatter({ mode: 'workflow' }),
+ */
+export function slackFormatter(
+  options: SlackFormatterOptions = {}
+): (payload: BaseEventPayload) => Record<string, any> {
+  const mode = options.mode ?? 'incoming-webhook';
+  const maxMessageLength = Math.min(
+    options.maxMessageLength ?? SLACK_SECTION_MAX_LENGTH,
+    SLACK_SECTION_MAX_LENGTH
+  );
+
+  return (payload: BaseEventPayload) => {
+    const summary = summarizeEvent(payload);
+    return mode === 'workflow'
+      ? toWorkflowVariables(summary, maxMessageLength)
+      : toBlockKit(summary, maxMessageLength);
+  };
+}
@@ -0,0 +1,75 @@
+import { BaseEventPayload } from './types.js';
+import { summarizeEvent, truncate, formatTokens, formatCost } from './event-summary.js';
+
+/** Keep cards well under the ~28 KB Teams message limit */
+const TEAMS_TEXT_MAX_LENGTH = 10000;
+const TEAMS_TITLE_MAX_LENGTH = 200;
+
+export interface TeamsFormatterOptions {
+  /** Optional: Maximum length of the card body (default and cap: 10000) */
+  maxMessageLength?: number;
+}
+
+/**
+ * Preset transformPayload for Microsoft Teams incoming webhooks and
+ * Workflows. Renders the event as an Adaptive Card.
+ */
+export function teamsFormatter(
+  options: TeamsFormatterOptions = {}
+): (payload: BaseEventPayload) => Record<string, any> {
+  const maxMessageLength = Math.min(
+    options.maxMessageLength ?? TEAMS_TEXT_MAX_LENGTH,
+    TEAMS_TEXT_MAX_LENGTH
+  );
+
+  return (payload: BaseEventPayload) => {
+    const summary = summarizeEvent(payload);
+
+    const facts: { title: string; value: string }[] = [
+      { title: 'Event', value: `${summary.emoji} ${summary.label}` },
+    ];
+    if (summary.tokens) {
+      facts.push({ title: 'Tokens', value: formatTokens(summary.tokens) });
+    }
+    if (summary.cost !== undefined) {
+      facts.push({ title: 'Cost', value: formatCost(summary.cost) });
+    }
+    if (summary.sessionId) {
+      facts.push({ title: 'Session', value: summary.sessionId });
+    }
+
+    const body: any[] = [
+      {
+        type: 'TextBlock',
+        text: truncate(summary.title, TEAMS_TITLE_MAX_LENGTH),
+        size: 'Large',
+        weight: 'Bolder',
+        wrap: true,
+      },
+    ];
+    if (summary.text) {
+      body.push({
+        type: 'TextBlock',
+        text: truncate(summary.text, maxMessageLength),
+        wrap: true,
+      });
+    }
+    body.push({ type: 'FactSet', facts });
+
+    return {
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          contentUrl: null,
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body,
+          },
+        },
+      ],
+    };
+  };
+}
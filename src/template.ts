@@ -0,0 +1,223 @@
+import { BaseEventPayload } from './types.js';
+import { getFieldValue } from './field-path.js';
+
+/**
+ * A template compiled into a function from payload to request body
+ */
+export type CompiledTemplate = (payload: BaseEventPayload) => unknown;
+
+type TemplateFilter = (value: any, ...args: any[]) => unknown;
+
+/**
+ * Error thrown when a payload template cannot be compiled
+ */
+export class TemplateError extends Error {
+  constructor(message: string, public expression?: string) {
+    super(expression ? `${message} in "{{${expression}}}"` : message);
+    this.name = 'TemplateError';
+  }
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Format a date with YYYY, MM, DD, HH, mm and ss tokens (UTC), or one of the
+ * named formats: iso, unix, date, time, datetime
+ */
+function formatDate(value: unknown, format: string = 'iso'): string {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) {
+    return value === undefined || value === null ? '' : String(value);
+  }
+
+  switch (format) {
+    case 'iso':
+      return date.toISOString();
+    case 'unix':
+      return String(Math.floor(date.getTime() / 1000));
+    case 'date':
+      format = 'YYYY-MM-DD';
+      break;
+    case 'time':
+      format = 'HH:mm:ss';
+      break;
+    case 'datetime':
+      format = 'YYYY-MM-DD HH:mm:ss';
+      break;
+  }
+
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Filters available in {{ value | filter:arg }} expressions
+ */
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  default: (value, fallback = '') =>
+    value === undefined || value === null || value === '' ? fallback : value,
+  truncate: (value, length = 100, suffix = '…') => {
+    const text = toText(value);
+    const max = Number(length);
+    return text.length <= max ? text : text.slice(0, Math.max(0, max - suffix.length)) + suffix;
+  },
+  date: (value, format) => formatDate(value, format),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  json: (value) => JSON.stringify(value ?? null),
+  escapeMarkdown: (value) => toText(value).replace(/([\\`*_{}[\]()#+\-.!|>~])/g, '\\$1'),
+  escapeHtml: (value) => toText(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;'),
+  round: (value, digits = 0) => {
+    const factor = 10 ** Number(digits);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  number: (value) => (typeof value === 'number' ? value.toLocaleString('en-US') : toText(value)),
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.map(toText).join(separator) : toText(value)),
+  length: (value) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+};
+
+/**
+ * Split on a separator, ignoring separators inside quoted strings
+ */
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of input) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+function parseArgument(raw: string, expression: string): unknown {
+  const arg = raw.trim();
+  if (/^(["']).*\1$/.test(arg)) {
+    return arg.slice(1, -1);
+  }
+  if (/^-?\d+(\.\d+)?$/.test(arg)) {
+    return Number(arg);
+  }
+  if (/^[\w.-]+$/.test(arg)) {
+    return arg;
+  }
+  throw new TemplateError(`Invalid filter argument ${arg}`, expression);
+}
+
+/**
+ * Compile "path | filter:arg1,arg2 | filter" into an evaluator
+ */
+function compileExpression(expression: string): CompiledTemplate {
+  const [pathPart, ...filterParts] = splitOutsideQuotes(expression, '|');
+  const fieldPath = pathPart.trim();
+
+  if (!/^[\w$-]+(\.[\w$-]+)*$/.test(fieldPath)) {
+    throw new TemplateError(`Invalid field path "${fieldPath}"`, expression);
+  }
+
+  const filters = filterParts.map((part) => {
+    const [name, ...rest] = splitOutsideQuotes(part, ':');
+    const filterName = name.trim();
+    const filter = TEMPLATE_FILTERS[filterName];
+    if (!filter) {
+      throw new TemplateError(`Unknown filter "${filterName}"`, expression);
+    }
+
+    const argString = rest.join(':');
+    const args = argString.trim()
+      ? splitOutsideQuotes(argString, ',').map((arg) => parseArgument(arg, expression))
+      : [];
+
+    return (value: unknown) => filter(value, ...args);
+  });
+
+  return (payload) => filters.reduce<unknown>(
+    (value, filter) => filter(value),
+    getFieldValue(payload, fieldPath)
+  );
+}
+
+const PLACEHOLDER = /\{\{([\s\S]*?)\}\}/g;
+
+function compileString(template: string): CompiledTemplate {
+  const matches = Array.from(template.matchAll(PLACEHOLDER));
+  if (matches.length === 0) {
+    return () => template;
+  }
+
+  // A lone placeholder keeps the value's original type (numbers, objects...)
+  if (matches.length === 1 && matches[0][0] === template) {
+    const evaluate = compileExpression(matches[0][1]);
+    return (payload) => evaluate(payload) ?? null;
+  }
+
+  const segments: (string | CompiledTemplate)[] = [];
+  let lastIndex = 0;
+  for (const match of matches) {
+    segments.push(template.slice(lastIndex, match.index));
+    segments.push(compileExpression(match[1]));
+    lastIndex = match.index! + match[0].length;
+  }
+  segments.push(template.slice(lastIndex));
+
+  return (payload) => segments
+    .map((segment) => (typeof segment === 'string' ? segment : toText(segment(payload))))
+    .join('');
+}
+
+/**
+ * Compile a JSON payload template. Strings may contain {{field.path}}
+ * expressions with filters, e.g. {{messageContent | truncate:500}}.
+ * Throws TemplateError for syntax errors and unknown filters.
+ */
+export function compileTemplate(template: unknown): CompiledTemplate {
+  if (typeof template === 'string') {
+    return compileString(template);
+  }
+
+  if (Array.isArray(template)) {
+    const items = template.map(compileTemplate);
+    return (payload) => items.map((item) => item(payload));
+  }
+
+  if (template !== null && typeof template === 'object') {
+    const entries = Object.entries(template).map(
+      ([key, value]) => [key, compileTemplate(value)] as const
+    );
+    return (payload) => Object.fromEntries(entries.map(([key, item]) => [key, item(payload)]));
+  }
+
+  return () => template;
+}
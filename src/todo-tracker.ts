@@ -0,0 +1,169 @@
+import {
+  NormalizedEventPayload,
+  TodoChange,
+  TodoItem,
+  TodoProgress,
+  TodoProgressPayload,
+  TODO_PROGRESS_EVENT,
+} from './types.js';
+
+interface SessionTodos {
+  title?: string;
+  todos: TodoItem[];
+}
+
+interface TodoTrackerOptions {
+  debug?: boolean;
+  /** Emit todo.progress when an update changes the list */
+  onProgress?: (payload: TodoProgressPayload) => Promise<void>;
+}
+
+/**
+ * Counts and a one-line description of a todo list. Cancelled todos are
+ * left out of the "done" count.
+ */
+export function summarizeTodos(todos: TodoItem[]): TodoProgress {
+  const count = (status: string) => todos.filter((todo) => todo.status === status).length;
+  const completed = count('completed');
+  const cancelled = count('cancelled');
+  const current = todos.find((todo) => todo.status === 'in_progress');
+  const remaining = todos.length - cancelled;
+
+  let summary = `${completed}/${remaining} done`;
+  if (current) {
+    summary += `, now working on ${current.content}`;
+  } else if (remaining > 0 && completed === remaining) {
+    summary = `All ${remaining} done`;
+  }
+
+  return {
+    todos: todos.map((todo) => ({ ...todo })),
+    total: todos.length,
+    completed,
+    inProgress: count('in_progress'),
+    pending: count('pending'),
+    cancelled,
+    current: current ? { ...current } : undefined,
+    summary,
+  };
+}
+
+/**
+ * Todos added, removed or with a new status between two versions of a list
+ */
+export function diffTodos(previous: TodoItem[], next: TodoItem[]): TodoChange[] {
+  const before = new Map(previous.map((todo) => [todo.id, todo]));
+  const changes: TodoChange[] = [];
+
+  for (const todo of next) {
+    const old = before.get(todo.id);
+    before.delete(todo.id);
+    if (!old) {
+      changes.push({ id: todo.id, content: todo.content, to: todo.status });
+    } else if (old.status !== todo.status) {
+      changes.push({ id: todo.id, content: todo.content, from: old.status, to: todo.status });
+    }
+  }
+  for (const todo of before.values()) {
+    changes.push({ id: todo.id, content: todo.content, from: todo.status });
+  }
+
+  return changes;
+}
+
+/**
+ * Keeps the latest todo list of each session from todo.updated and emits
+ * todo.progress when an update adds, removes or moves a todo. OpenCode
+ * resends the whole list on every change, so repeats are ignored.
+ */
+export class TodoTracker {
+  private sessions: Map<string, SessionTodos> = new Map();
+  private debug: boolean;
+  private onProgress?: (payload: TodoProgressPayload) => Promise<void>;
+
+  constructor(options: TodoTrackerOptions = {}) {
+    this.debug = options.debug ?? false;
+    this.onProgress = options.onProgress;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const sessionId = payload.sessionId;
+    if (!sessionId) return;
+
+    const props = payload.properties;
+
+    switch (payload.eventType) {
+      case 'session.updated': {
+        const session = this.getSession(sessionId);
+        session.title = props.info?.title ?? session.title;
+        break;
+      }
+
+      case 'todo.updated':
+        if (Array.isArray(props.todos)) {
+          await this.update(sessionId, props.todos);
+        }
+        break;
+
+      case 'session.deleted':
+        this.sessions.delete(sessionId);
+        break;
+    }
+  }
+
+  /**
+   * Where the session's todo list stands, or undefined if it has none
+   */
+  getProgress(sessionId: string): TodoProgress | undefined {
+    const session = this.sessions.get(sessionId);
+    return session && session.todos.length > 0 ? summarizeTodos(session.todos) : undefined;
+  }
+
+  private getSession(sessionId: string): SessionTodos {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = { todos: [] };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private async update(sessionId: string, todos: TodoItem[]): Promise<void> {
+    const session = this.getSession(sessionId);
+
+    const changes = diffTodos(session.todos, todos);
+    session.todos = todos.map((todo) => ({ ...todo }));
+    if (changes.length === 0) return;
+
+    const progress = summarizeTodos(todos);
+    if (this.debug) {
+      console.log(`[TodoTracker] Session ${sessionId}: ${progress.summary} (${changes.length} change(s))`);
+    }
+    if (!this.onProgress) return;
+
+    try {
+      await this.onProgress({
+        timestamp: new Date().toISOString(),
+        eventType: TODO_PROGRESS_EVENT,
+        sessionId,
+        sessionTitle: session.title,
+        ...progress,
+        changes,
+      });
+    } catch (error) {
+      if (this.debug) {
+        console.error(`[TodoTracker] Error emitting todo.progress:`, error);
+      }
+    }
+  }
+
+  /**
+   * Clear all tracked state
+   */
+  destroy(): void {
+    this.sessions.clear();
+  }
+}
@@ -0,0 +1,234 @@
+import {
+  NormalizedEventPayload,
+  ToolCallStats,
+  ToolCompletedPayload,
+  ToolStatsPayload,
+  TOOL_COMPLETED_EVENT,
+  TOOL_STATS_EVENT,
+} from './types.js';
+import { truncate } from './event-summary.js';
+
+/** Length of argsSummary */
+const MAX_ARGS_SUMMARY_LENGTH = 200;
+
+/** Calls still waiting for their "after" beyond this are dropped, oldest first */
+const MAX_PENDING_CALLS = 500;
+
+/** Arguments that best describe a call, in order of preference */
+const SUMMARY_ARGS = ['command', 'filePath', 'path', 'pattern', 'url', 'query', 'description'];
+
+interface PendingCall {
+  sessionId: string;
+  tool: string;
+  args: Record<string, any>;
+  startedAt: number;
+}
+
+interface SessionToolStats {
+  tools: Map<string, ToolCallStats>;
+  /** Calls since the last tool.stats */
+  dirty: boolean;
+}
+
+interface ToolTrackerOptions {
+  debug?: boolean;
+  onCompleted?: (payload: ToolCompletedPayload) => Promise<void>;
+  onStats?: (payload: ToolStatsPayload) => Promise<void>;
+}
+
+/**
+ * Short, single-line description of a tool call's arguments
+ */
+export function summarizeArgs(args: Record<string, any> | undefined): string {
+  if (!args || typeof args !== 'object') {
+    return '';
+  }
+
+  const key = SUMMARY_ARGS.find((name) => typeof args[name] === 'string' && args[name]);
+  const summary = key ? args[key] : JSON.stringify(args);
+  return truncate(String(summary).replace(/\s+/g, ' ').trim(), MAX_ARGS_SUMMARY_LENGTH);
+}
+
+/**
+ * Pairs tool.execute.before with tool.execute.after (or with the tool part
+ * reporting an error, as failed calls have no "after") by call ID. Emits
+ * tool.completed per call and tool.stats when the session goes idle.
+ */
+export class ToolTracker {
+  private pending: Map<string, PendingCall> = new Map();
+  private sessions: Map<string, SessionToolStats> = new Map();
+  private debug: boolean;
+  private onCompleted?: (payload: ToolCompletedPayload) => Promise<void>;
+  private onStats?: (payload: ToolStatsPayload) => Promise<void>;
+
+  constructor(options: ToolTrackerOptions) {
+    this.debug = options.debug ?? false;
+    this.onCompleted = options.onCompleted;
+    this.onStats = options.onStats;
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    const props = payload.properties;
+
+    switch (payload.eventType) {
+      case 'tool.execute.before':
+        this.handleBefore(props);
+        break;
+
+      case 'tool.execute.after':
+        await this.handleAfter(props);
+        break;
+
+      case 'message.part.updated':
+        if (props.part?.type === 'tool' && props.part.state?.status === 'error') {
+          await this.finish(props.part.callID, {
+            status: 'error',
+            error: String(props.part.state.error ?? 'Unknown error'),
+            outputBytes: 0,
+          });
+        }
+        break;
+
+      case 'session.idle':
+        if (payload.sessionId) await this.emitStats(payload.sessionId);
+        break;
+
+      case 'session.deleted':
+        if (payload.sessionId) this.forgetSession(payload.sessionId);
+        break;
+    }
+  }
+
+  private handleBefore(props: Record<string, any>): void {
+    if (!props.callID || !props.sessionID) return;
+
+    this.pending.set(props.callID, {
+      sessionId: props.sessionID,
+      tool: props.tool,
+      args: props.args ?? {},
+      startedAt: Date.now(),
+    });
+
+    while (this.pending.size > MAX_PENDING_CALLS) {
+      this.pending.delete(this.pending.keys().next().value as string);
+    }
+  }
+
+  private async handleAfter(props: Record<string, any>): Promise<void> {
+    const output = typeof props.output === 'string' ? props.output : '';
+    const exit = props.metadata?.exit;
+
+    await this.finish(props.callID, {
+      status: 'completed',
+      title: props.title || undefined,
+      exitCode: typeof exit === 'number' ? exit : undefined,
+      outputBytes: Buffer.byteLength(output),
+    });
+  }
+
+  private async finish(
+    callId: string | undefined,
+    result: Pick<ToolCompletedPayload, 'status' | 'outputBytes' | 'title' | 'exitCode' | 'error'>
+  ): Promise<void> {
+    const call = callId ? this.pending.get(callId) : undefined;
+    if (!call) return;
+    this.pending.delete(callId!);
+
+    const durationMs = Math.max(0, Date.now() - call.startedAt);
+    const stats = this.record(call, durationMs, result.status === 'error');
+
+    const payload: ToolCompletedPayload = {
+      timestamp: new Date().toISOString(),
+      eventType: TOOL_COMPLETED_EVENT,
+      sessionId: call.sessionId,
+      callId: callId!,
+      tool: call.tool,
+      status: result.status,
+      startedAt: new Date(call.startedAt).toISOString(),
+      durationMs,
+      argsSummary: summarizeArgs(call.args),
+      title: result.title,
+      exitCode: result.exitCode,
+      outputBytes: result.outputBytes,
+      error: result.error,
+      stats: { ...stats },
+    };
+
+    if (this.debug) {
+      console.log(`[ToolTracker] ${call.tool} ${result.status} in ${durationMs}ms (session ${call.sessionId})`);
+    }
+
+    await this.emit(() => this.onCompleted?.(payload));
+  }
+
+  private record(call: PendingCall, durationMs: number, failed: boolean): ToolCallStats {
+    let session = this.sessions.get(call.sessionId);
+    if (!session) {
+      session = { tools: new Map(), dirty: false };
+      this.sessions.set(call.sessionId, session);
+    }
+    session.dirty = true;
+
+    let stats = session.tools.get(call.tool);
+    if (!stats) {
+      stats = { calls: 0, errors: 0, totalDurationMs: 0, averageDurationMs: 0, maxDurationMs: 0 };
+      session.tools.set(call.tool, stats);
+    }
+
+    stats.calls++;
+    if (failed) stats.errors++;
+    stats.totalDurationMs += durationMs;
+    stats.averageDurationMs = Math.round(stats.totalDurationMs / stats.calls);
+    stats.maxDurationMs = Math.max(stats.maxDurationMs, durationMs);
+
+    return stats;
+  }
+
+  private async emitStats(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.dirty) return;
+    session.dirty = false;
+
+    const tools: Record<string, ToolCallStats> = {};
+    let totalCalls = 0;
+    let totalErrors = 0;
+    for (const [tool, stats] of session.tools) {
+      tools[tool] = { ...stats };
+      totalCalls += stats.calls;
+      totalErrors += stats.errors;
+    }
+
+    const payload: ToolStatsPayload = {
+      timestamp: new Date().toISOString(),
+      eventType: TOOL_STATS_EVENT,
+      sessionId,
+      tools,
+      totalCalls,
+      totalErrors,
+    };
+
+    await this.emit(() => this.onStats?.(payload));
+  }
+
+  private async emit(send: () => Promise<void> | undefined): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      if (this.debug) {
+        console.error(`[ToolTracker] Error emitting tool event:`, error);
+      }
+    }
+  }
+
+  private forgetSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    for (const [callId, call] of this.pending) {
+      if (call.sessionId === sessionId) {
+        this.pending.delete(callId);
+      }
+    }
+  }
+}
@@ -51,12 +51,250 @@ export enum OpencodeEventType {
  */
 export interface BaseEventPayload {
   timestamp: string;
-  eventType: OpencodeEventType;
+  eventType: OpencodeEventType | string;
+  /** Identifier shared by every delivery and retry of the same event */
+  eventId?: string;
   sessionId?: string;
+  projectId?: string;
+  worktree?: string;
   userId?: string;
+  /** Project, git and environment details (when enrichment is enabled) */
+  context?: EventContext;
   [key: string]: any;
 }
 
+/**
+ * Where an event came from, added to payloads when enrichment is enabled
+ */
+export interface EventContext {
+  project?: { id: string };
+  directory?: string;
+  worktree?: string;
+  git?: {
+    branch?: string;
+    commit?: string;
+  };
+  hostname?: string;
+  opencodeVersion?: string;
+}
+
+/**
+ * Payload enrichment configuration
+ */
+export interface EnrichmentOptions {
+  /** Optional: Include the current git branch and commit (default: true) */
+  git?: boolean;
+
+  /** Optional: Include the machine's hostname (default: true) */
+  hostname?: boolean;
+}
+
+// Normalized OpenCode event types
+
+/**
+ * Session as reported on session.created / updated / deleted
+ */
+export interface SessionInfo {
+  id: string;
+  projectID: string;
+  directory: string;
+  parentID?: string;
+  title: string;
+  version: string;
+  time: { created: number; updated: number };
+  [key: string]: any;
+}
+
+/**
+ * User or assistant message as reported on message.updated
+ */
+export interface MessageInfo {
+  id: string;
+  sessionID: string;
+  role: 'user' | 'assistant';
+  time: { created: number; completed?: number };
+  tokens?: {
+    input: number;
+    output: number;
+    reasoning: number;
+    cache?: { read: number; write: number };
+  };
+  cost?: number;
+  error?: any;
+  [key: string]: any;
+}
+
+/**
+ * Message part (text, tool call, file, ...) as reported on message.part.updated
+ */
+export interface MessagePart {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: string;
+  text?: string;
+  [key: string]: any;
+}
+
+/**
+ * Permission request as reported on permission.updated
+ */
+export interface PermissionInfo {
+  id: string;
+  type: string;
+  pattern?: string | string[];
+  sessionID: string;
+  messageID: string;
+  callID?: string;
+  title: string;
+  metadata: Record<string, any>;
+  time: { created: number };
+}
+
+/**
+ * Todo list entry as reported on todo.updated
+ */
+export interface TodoItem {
+  id: string;
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'cancelled' | string;
+  priority: 'high' | 'medium' | 'low' | string;
+}
+
+/**
+ * Properties carried by each OpenCode event type
+ */
+export interface OpencodeEventPropertiesMap {
+  [OpencodeEventType.SESSION_CREATED]: { info: SessionInfo };
+  [OpencodeEventType.SESSION_UPDATED]: { info: SessionInfo };
+  [OpencodeEventType.SESSION_DELETED]: { info: SessionInfo };
+  [OpencodeEventType.SESSION_IDLE]: { sessionID: string };
+  [OpencodeEventType.SESSION_ERROR]: { sessionID?: string; error?: { name: string; data?: Record<string, any> } };
+  [OpencodeEventType.SESSION_RESUMED]: { sessionID: string };
+  [OpencodeEventType.SESSION_COMPACTED]: { sessionID: string };
+  [OpencodeEventType.SESSION_STATUS]: {
+    sessionID: string;
+    status: { type: 'idle' | 'busy' | 'retry'; attempt?: number; message?: string; next?: number };
+  };
+  [OpencodeEventType.SESSION_DIFF]: {
+    sessionID: string;
+    diff: { file: string; before: string; after: string; additions: number; deletions: number }[];
+  };
+  [OpencodeEventType.TOOL_EXECUTE_BEFORE]: { tool: string; sessionID: string; callID: string; args?: any };
+  [OpencodeEventType.TOOL_EXECUTE_AFTER]: {
+    tool: string;
+    sessionID: string;
+    callID: string;
+    title?: string;
+    output?: string;
+    metadata?: any;
+  };
+  [OpencodeEventType.MESSAGE_UPDATED]: { info: MessageInfo };
+  [OpencodeEventType.MESSAGE_REMOVED]: { sessionID: string; messageID: string };
+  [OpencodeEventType.MESSAGE_PART_UPDATED]: { part: MessagePart; delta?: string };
+  [OpencodeEventType.MESSAGE_PART_REMOVED]: { sessionID: string; messageID: string; partID: string };
+  [OpencodeEventType.FILE_EDITED]: { file: string };
+  [OpencodeEventType.FILE_WATCHER_UPDATED]: { file: string; event: 'add' | 'change' | 'unlink' };
+  [OpencodeEventType.COMMAND_EXECUTED]: { name: string; sessionID: string; arguments: string; messageID: string };
+  [OpencodeEventType.LSP_UPDATED]: Record<string, unknown>;
+  [OpencodeEventType.LSP_CLIENT_DIAGNOSTICS]: { serverID: string; path: string };
+  [OpencodeEventType.INSTALLATION_UPDATED]: { version: string };
+  [OpencodeEventType.PERMISSION_UPDATED]: PermissionInfo;
+  [OpencodeEventType.PERMISSION_REPLIED]: { sessionID: string; permissionID: string; response: string };
+  [OpencodeEventType.SERVER_CONNECTED]: Record<string, unknown>;
+  [OpencodeEventType.TODO_UPDATED]: { sessionID: string; todos: TodoItem[] };
+  [OpencodeEventType.TUI_PROMPT_APPEND]: { text: string };
+  [OpencodeEventType.TUI_COMMAND_EXECUTE]: { command: string };
+  [OpencodeEventType.TUI_TOAST_SHOW]: {
+    title?: string;
+    message: string;
+    variant: 'info' | 'success' | 'warning' | 'error';
+    duration?: number;
+  };
+}
+
+/**
+ * A raw bus event after normalization: the original properties plus
+ * sessionId, projectId, worktree and eventId lifted to the top level
+ */
+export interface NormalizedEventPayload extends BaseEventPayload {
+  eventId: string;
+  /** The raw event type, same as eventType */
+  type: string;
+  properties: Record<string, any>;
+}
+
+/**
+ * Normalized payload for one OpenCode event type
+ */
+export interface TypedEventPayload<T extends keyof OpencodeEventPropertiesMap> extends NormalizedEventPayload {
+  eventType: T;
+  properties: OpencodeEventPropertiesMap[T];
+}
+
+/**
+ * Discriminated union of every normalized OpenCode event; narrow on eventType
+ * (or use isEventType) to get typed properties
+ */
+export type OpencodeEventPayload = {
+  [T in keyof OpencodeEventPropertiesMap]: TypedEventPayload<T>;
+}[keyof OpencodeEventPropertiesMap];
+
+/**
+ * Built-in payload formats for chat platforms
+ */
+export type WebhookPreset = 'slack' | 'slack-workflow' | 'discord' | 'teams' | 'gchat';
+
+/**
+ * Matches one payload field (a dotted path such as "properties.file").
+ * Every operator given must hold.
+ */
+export interface FieldFilter {
+  field: string;
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  notIn?: unknown[];
+  /** String contains a substring, or array contains an element */
+  contains?: unknown;
+  /** Field is present (true) or missing (false) */
+  exists?: boolean;
+  /** Glob pattern, e.g. "src/**" */
+  glob?: string;
+  /** Regular expression, either a RegExp or a "/pattern/flags" string */
+  matches?: string | RegExp;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * Declarative filter: a field filter, or a combination of filters
+ */
+export type WebhookFilter =
+  | FieldFilter
+  | { all: WebhookFilter[] }
+  | { any: WebhookFilter[] }
+  | { not: WebhookFilter };
+
+/**
+ * When and how failed deliveries are retried
+ */
+export interface RetryConfig {
+  /** Total attempts, including the first (default: 3) */
+  maxAttempts?: number;
+
+  /** Base delay between attempts, multiplied by the attempt number (default: 1000) */
+  delayMs?: number;
+
+  /**
+   * HTTP statuses worth retrying (default: 408, 425, 429, 500, 502, 503, 504).
+   * Other error responses fail immediately; network errors are always retried.
+   */
+  retryableStatuses?: number[];
+}
+
 /**
  * Webhook configuration for a specific event
  */
@@ -64,7 +302,10 @@ export interface WebhookConfig {
   /** The URL to send the webhook to */
   url: string;
 
-  /** The events that should trigger this webhook */
+  /**
+   * The events that should trigger this webhook. Supports wildcards
+   * ("session.*", "*") and exclusions ("!message.part.updated").
+   */
   events: (OpencodeEventType | string)[];
 
   /** Optional: HTTP method (default: POST) */
@@ -76,18 +317,43 @@ export interface WebhookConfig {
   /** Optional: Transform function to customize the payload */
   transformPayload?: (payload: BaseEventPayload) => any;
 
+  /**
+   * Optional: JSON payload template (ignored when transformPayload is set).
+   * Strings may contain {{field.path}} expressions with filters,
+   * e.g. "{{messageContent | truncate:500}}"
+   */
+  template?: unknown;
+
+  /** Optional: Built-in payload format for a chat platform (ignored when transformPayload or template is set) */
+  preset?: WebhookPreset;
+
+  /** Optional: Declarative filter; the webhook is skipped unless it matches */
+  filter?: WebhookFilter;
+
   /** Optional: Filter function to determine if webhook should be sent */
   shouldSend?: (payload: BaseEventPayload) => boolean;
 
   /** Optional: Retry configuration */
-  retry?: {
-    maxAttempts?: number;
-    delayMs?: number;
-  };
+  retry?: RetryConfig;
 
   /** Optional: Timeout in milliseconds */
   timeoutMs?: number;
 
+  /** Optional: HMAC request signing so receivers can verify the sender */
+  signing?: {
+    /** Shared secret used to compute the signature */
+    secret: string;
+
+    /** Hash algorithm (default: sha256) */
+    algorithm?: 'sha256' | 'sha512';
+
+    /** Header carrying the signature, formatted as "<algorithm>=<hex>" (default: X-Opencode-Signature) */
+    signatureHeader?: string;
+
+    /** Header carrying the Unix timestamp in seconds (default: X-Opencode-Timestamp) */
+    timestampHeader?: string;
+  };
+
   /** Optional: Rate limiting configuration */
   rateLimit?: {
     /** Maximum number of requests per time window */
@@ -95,7 +361,59 @@ export interface WebhookConfig {
     
     /** Time window in milliseconds (e.g., 60000 for 1 minute) */
     windowMs: number;
+
+    /**
+     * Optional: Collapse queued events into a single summary request instead of
+     * replaying them one by one (default: true when maxBatchDelayMs or
+     * generateSummary is set)
+     */
+    batch?: boolean;
+
+    /**
+     * Optional: Maximum time in milliseconds a batch waits after its first event
+     * was queued. The summary is then sent even if the rate limit window is
+     * still full.
+     */
+    maxBatchDelayMs?: number;
+
+    /** Optional: Build the summary text for a batch (default: markdown digest) */
+    generateSummary?: (events: BaseEventPayload[]) => string;
   };
+
+  /** Optional: Coalesce bursts of events (e.g. streamed message parts) into one request */
+  debounce?: DebounceConfig;
+}
+
+/**
+ * Per-webhook debounce: events with the same key are held until no new one
+ * has arrived for waitMs, then sent as one payload
+ */
+export interface DebounceConfig {
+  /** Quiet period in milliseconds */
+  waitMs: number;
+
+  /** Optional: Send after this many milliseconds even if events keep arriving (default: no limit) */
+  maxWaitMs?: number;
+
+  /** Optional: Payload field paths that make up the key (default: ['sessionId', 'eventType']) */
+  key?: string[];
+
+  /**
+   * Optional: How held events become one payload: 'latest' sends the last
+   * one, 'merge' deep-merges them in order (default: 'latest'), or a function
+   */
+  merge?: 'latest' | 'merge' | ((payloads: BaseEventPayload[]) => BaseEventPayload);
+}
+
+/**
+ * Durable delivery outbox configuration
+ */
+export interface OutboxConfig {
+  /** Optional: Path of the JSONL outbox file (default: <project>/.opencode/webhooks-outbox.jsonl) */
+  path?: string;
+
+  /** Optional: Drop pending deliveries older than this at startup (default: 86400000 = 24 hours) */
+  maxAgeMs?: number;
 }
 
 /**
@@ -112,10 +430,54 @@ export interface WebhookPluginConfig {
   defaultTimeoutMs?: number;
 
   /** Optional: Global retry configuration */
-  defaultRetry?: {
-    maxAttempts?: number;
-    delayMs?: number;
-  };
+  defaultRetry?: RetryConfig;
+
+  /** Optional: Persist pending deliveries to disk and replay them at startup */
+  outbox?: OutboxConfig;
+
+  /** Optional: Add project, git and environment context to every payload */
+  enrich?: boolean | EnrichmentOptions;
+
+  /** Optional: Spend limits that trigger budget.exceeded events */
+  budget?: BudgetConfig;
+
+  /** Optional: Send agent.permission_resolved when a permission is still unanswered after this many seconds (default: 0 = never) */
+  permissionTimeoutSecs?: number;
+
+  /** Optional: Serve one-time action URLs that answer permission requests */
+  callbacks?: boolean | CallbackServerConfig;
+
+  /** Optional: Export sessions, turns and tool calls as OpenTelemetry traces */
+  otlp?: OtlpExporterConfig;
+
+  /** Optional: What files.changed digests include */
+  changes?: ChangeTrackingConfig;
+
+  /** Optional: When diagnostics.changed is sent */
+  diagnostics?: DiagnosticsConfig;
+}
+
+/**
+ * OTLP/HTTP (JSON) trace export configuration
+ */
+export interface OtlpExporterConfig {
+  /** Collector base URL, e.g. http://localhost:4318 (/v1/traces is appended unless present) */
+  endpoint: string;
+
+  /** Optional: Extra request headers, e.g. for authentication */
+  headers?: Record<string, string>;
+
+  /** Optional: service.name resource attribute (default: opencode) */
+  serviceName?: string;
+
+  /** Optional: Additional resource attributes */
+  resourceAttributes?: Record<string, string | number | boolean>;
+
+  /** Optional: Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+
+  /** Optional: How long finished spans are batched before sending, in milliseconds (default: 1000) */
+  flushIntervalMs?: number;
 }
 
 /**
@@ -128,6 +490,119 @@ export interface WebhookResult {
   error?: string;
   attempts: number;
   rateLimitDelayed?: boolean;
+
+  /** True when filter or shouldSend excluded the event (nothing was sent) */
+  skipped?: boolean;
+
+  /** Why the webhook was skipped, e.g. 'filter: cost > 0.5 (was 0.1)' */
+  skipReason?: string;
+
+  /** True when the event is held by debounce; it is sent later, possibly merged with others */
+  debounced?: boolean;
+
+  /**
+   * Set on failures: whether the last error was worth retrying (network
+   * errors, timeouts, retryable statuses). False for responses such as 400,
+   * 401 or 404 that will not succeed on a later attempt.
+   */
+  retryable?: boolean;
+}
+
+// Batching types
+
+/**
+ * Synthetic event constant for a batch of queued events
+ */
+export const BATCH_SUMMARY_EVENT = 'batch.summary';
+
+/**
+ * Payload sent when queued events are collapsed into a single request
+ */
+export interface BatchSummaryPayload extends BaseEventPayload {
+  eventType: typeof BATCH_SUMMARY_EVENT;
+  summary: string;
+  eventCount: number;
+  batchStartTime: string;
+  batchEndTime: string;
+  events: BaseEventPayload[];
+}
+
+// Usage accounting types
+
+/**
+ * Token counts reported for assistant messages
+ */
+export interface TokenUsage {
+  input: number;
+  output: number;
+  reasoning: number;
+  cache?: { read: number; write: number };
+}
+
+/**
+ * Tokens and cost summed over a number of assistant messages
+ */
+export interface UsageTotals {
+  tokens: TokenUsage;
+  cost: number;
+  /** Number of assistant messages counted */
+  messages: number;
+}
+
+/**
+ * Synthetic event constant for the daily usage rollup
+ */
+export const DAILY_USAGE_EVENT = 'usage.daily';
+
+/**
+ * Payload sent after midnight with the previous day's usage
+ */
+export interface DailyUsagePayload extends BaseEventPayload, UsageTotals {
+  eventType: typeof DAILY_USAGE_EVENT;
+  /** Day the usage belongs to, YYYY-MM-DD in local time */
+  date: string;
+  /** Per-session breakdown, most expensive first */
+  sessions: (UsageTotals & { sessionId: string; sessionTitle?: string })[];
+}
+
+/**
+ * Limits on spend; either may be omitted
+ */
+export interface BudgetLimits {
+  /** Cost in the provider's currency (USD for most providers) */
+  cost?: number;
+  /** Input, output and reasoning tokens combined (cache tokens are not counted) */
+  tokens?: number;
+}
+
+/**
+ * Budget thresholds, per session and per local calendar day
+ */
+export interface BudgetConfig {
+  session?: BudgetLimits;
+  daily?: BudgetLimits;
+}
+
+/**
+ * Synthetic event constant for budget alerts
+ */
+export const BUDGET_EXCEEDED_EVENT = 'budget.exceeded';
+
+/**
+ * Payload sent once when spend first crosses a budget threshold
+ */
+export interface BudgetExceededPayload extends BaseEventPayload {
+  eventType: typeof BUDGET_EXCEEDED_EVENT;
+  /** Which budget was crossed */
+  scope: 'session' | 'daily';
+  metric: keyof BudgetLimits;
+  limit: number;
+  /** Spend at the time of the crossing */
+  value: number;
+  /** Day the daily budget applies to, YYYY-MM-DD in local time */
+  date?: string;
+  /** Usage for the scope so far */
+  usage: UsageTotals;
 }
 
 // Agent completion middleware types
@@ -147,15 +622,405 @@ export interface AgentCompletedPayload {
   sessionTitle: string;
   messageContent: string;
   messageId?: string;
-  tokens?: {
-    input: number;
-    output: number;
-    reasoning: number;
-  };
+  /** Tokens summed over every assistant message in this turn */
+  tokens?: TokenUsage;
+  /** Cost summed over every assistant message in this turn */
   cost?: number;
+  /** Usage for this turn (same totals as tokens and cost) */
+  turn?: UsageTotals;
+  /** Usage for the whole session so far, including this turn */
+  session?: UsageTotals;
+  /** Files changed during this turn, when there were any */
+  changes?: ChangeSummary;
+  /** The session's todo list as of this turn, when the agent keeps one */
+  todos?: TodoProgress;
   [key: string]: any;
 }
 
+// Session tracker types
+
+/**
+ * Synthetic event constant for session summaries
+ */
+export const SESSION_SUMMARY_EVENT = 'session.summary';
+
+/**
+ * Payload emitted when a session goes idle or is deleted
+ */
+export interface SessionSummaryPayload extends BaseEventPayload {
+  eventType: typeof SESSION_SUMMARY_EVENT;
+  sessionId: string;
+  sessionTitle?: string;
+  /** What triggered the summary; 'deleted' summaries are final */
+  reason: 'idle' | 'deleted';
+  startedAt: string;
+  durationMs: number;
+  /** Number of user messages */
+  turns: number;
+  filesEdited: string[];
+  /** Slash commands and shell commands run by the agent */
+  commands: string[];
+  errors: { name: string; message: string }[];
+  tokens: TokenUsage;
+  cost: number;
+}
+
+// Permission middleware types
+
+/**
+ * Synthetic event constant for permission requests the agent is blocked on
+ */
+export const AGENT_AWAITING_PERMISSION_EVENT = 'agent.awaiting_permission';
+
+/**
+ * Synthetic event constant for the follow-up to a permission request
+ */
+export const AGENT_PERMISSION_RESOLVED_EVENT = 'agent.permission_resolved';
+
+/**
+ * Payload sent when the agent stops to ask for permission
+ */
+export interface AwaitingPermissionPayload extends BaseEventPayload {
+  eventType: typeof AGENT_AWAITING_PERMISSION_EVENT;
+  sessionId: string;
+  sessionTitle: string;
+  permissionId: string;
+  /** Permission type, usually the tool asking: 'bash', 'edit', 'webfetch', ... */
+  tool: string;
+  /** What the agent wants to do, as shown in the OpenCode prompt */
+  title: string;
+  /** Shell command, for bash permissions */
+  command?: string;
+  /** Pattern(s) an "always" answer would allow from now on */
+  pattern?: string | string[];
+  messageId?: string;
+  callId?: string;
+  metadata: Record<string, any>;
+  requestedAt: string;
+  /** One-time URLs that answer the request (when callbacks are enabled) */
+  actions?: PermissionActions;
+}
+
+/**
+ * Answers OpenCode accepts for a permission request
+ */
+export type PermissionResponse = 'once' | 'always' | 'reject';
+
+/**
+ * Signed action URLs, one per answer
+ */
+export type PermissionActions = Record<PermissionResponse, string>;
+
+/**
+ * Local HTTP endpoint that answers permission requests from action URLs
+ */
+export interface CallbackServerConfig {
+  /** Port to listen on (default: 0 = any free port) */
+  port?: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Base URL used in action links, e.g. a tunnel to this machine (default: http://host:port) */
+  publicUrl?: string;
+  /** Secret used to sign action URLs (default: random per process) */
+  secret?: string;
+  /** How long action URLs stay valid, in seconds (default: 3600) */
+  ttlSecs?: number;
+}
+
+/**
+ * Payload sent when a permission request is answered, or is still
+ * unanswered after the permission timeout
+ */
+export interface PermissionResolvedPayload extends BaseEventPayload {
+  eventType: typeof AGENT_PERMISSION_RESOLVED_EVENT;
+  sessionId: string;
+  sessionTitle: string;
+  permissionId: string;
+  tool: string;
+  title: string;
+  status: 'replied' | 'timeout';
+  /** The answer ('once', 'always' or 'reject'), when replied */
+  response?: string;
+  waitedMs: number;
+}
+
+// Tool tracker types
+
+/**
+ * Synthetic event constant for finished tool calls
+ */
+export const TOOL_COMPLETED_EVENT = 'tool.completed';
+
+/**
+ * Synthetic event constant for per-session tool statistics
+ */
+export const TOOL_STATS_EVENT = 'tool.stats';
+
+/**
+ * Call counts and timings for one tool
+ */
+export interface ToolCallStats {
+  calls: number;
+  errors: number;
+  totalDurationMs: number;
+  averageDurationMs: number;
+  maxDurationMs: number;
+}
+
+/**
+ * Payload sent when a tool call finishes, paired from
+ * tool.execute.before and tool.execute.after by call ID
+ */
+export interface ToolCompletedPayload extends BaseEventPayload {
+  eventType: typeof TOOL_COMPLETED_EVENT;
+  sessionId: string;
+  callId: string;
+  tool: string;
+  status: 'completed' | 'error';
+  startedAt: string;
+  durationMs: number;
+  /** Short description of the arguments, e.g. the command or file path */
+  argsSummary: string;
+  /** Title OpenCode gave the call */
+  title?: string;
+  /** Exit code, for shell commands */
+  exitCode?: number;
+  /** Size of the tool output in bytes */
+  outputBytes: number;
+  /** Error message, when the call failed */
+  error?: string;
+  /** This tool's statistics in the session so far, including this call */
+  stats: ToolCallStats;
+}
+
+/**
+ * Payload sent when a session goes idle after running tools
+ */
+export interface ToolStatsPayload extends BaseEventPayload {
+  eventType: typeof TOOL_STATS_EVENT;
+  sessionId: string;
+  /** Statistics per tool name */
+  tools: Record<string, ToolCallStats>;
+  totalCalls: number;
+  totalErrors: number;
+}
+
+// Change tracker types
+
+/**
+ * Synthetic event constant for the digest of files changed in a turn
+ */
+export const FILES_CHANGED_EVENT = 'files.changed';
+
+/**
+ * Options for the change digests on agent.completed and files.changed
+ */
+export interface ChangeTrackingConfig {
+  /** Optional: Attach a unified diff of the changed files against HEAD, via git (default: false) */
+  diff?: boolean;
+
+  /** Optional: Diffs longer than this are cut off, in bytes (default: 4000) */
+  maxDiffBytes?: number;
+}
+
+/**
+ * A file changed during a turn
+ */
+export interface FileChange {
+  /** Path relative to the worktree */
+  file: string;
+  /** Lines added; unknown until OpenCode reports a session diff for the file */
+  additions?: number;
+  /** Lines removed; unknown until OpenCode reports a session diff for the file */
+  deletions?: number;
+}
+
+/**
+ * Files changed since the previous digest for the session
+ */
+export interface ChangeSummary {
+  files: FileChange[];
+  /** Lines added over every file with known counts */
+  additions: number;
+  /** Lines removed over every file with known counts */
+  deletions: number;
+  /** Unified diff against HEAD, when enabled and git is available */
+  diff?: string;
+  /** Whether diff was cut off at maxDiffBytes */
+  diffTruncated?: boolean;
+}
+
+/**
+ * Payload emitted when a session goes idle after changing files
+ */
+export interface FilesChangedPayload extends BaseEventPayload, ChangeSummary {
+  eventType: typeof FILES_CHANGED_EVENT;
+  sessionId: string;
+  sessionTitle?: string;
+}
+
+// Todo tracker types
+
+/**
+ * Synthetic event constant for todo list progress
+ */
+export const TODO_PROGRESS_EVENT = 'todo.progress';
+
+/**
+ * Where a session's todo list stands
+ */
+export interface TodoProgress {
+  todos: TodoItem[];
+  total: number;
+  completed: number;
+  inProgress: number;
+  pending: number;
+  cancelled: number;
+  /** The todo being worked on (the first one in progress) */
+  current?: TodoItem;
+  /** One-line description, e.g. "3/7 done, now working on Add tests" */
+  summary: string;
+}
+
+/**
+ * A todo added, removed or moved to another status
+ */
+export interface TodoChange {
+  id: string;
+  content: string;
+  /** Previous status; undefined for added todos */
+  from?: string;
+  /** New status; undefined for removed todos */
+  to?: string;
+}
+
+/**
+ * Payload emitted when a todo list update changes it
+ */
+export interface TodoProgressPayload extends BaseEventPayload, TodoProgress {
+  eventType: typeof TODO_PROGRESS_EVENT;
+  sessionId: string;
+  sessionTitle?: string;
+  /** What changed since the previous update */
+  changes: TodoChange[];
+}
+
+// Diagnostics aggregator types
+
+/**
+ * Synthetic event constant for diagnostics summaries
+ */
+export const DIAGNOSTICS_CHANGED_EVENT = 'diagnostics.changed';
+
+/**
+ * When the diagnostics aggregator reports
+ */
+export interface DiagnosticsConfig {
+  /** Optional: Wait for diagnostics to settle this long before reporting, in milliseconds (default: 2000) */
+  debounceMs?: number;
+
+  /** Optional: Report when the error total reaches or drops below this (default: 1, i.e. broken/fixed) */
+  errorThreshold?: number;
+
+  /** Optional: Report when the warning total reaches or drops below this (default: none) */
+  warningThreshold?: number;
+
+  /** Optional: New errors count as the agent's when it edited the file this recently, in milliseconds (default: 300000) */
+  editWindowMs?: number;
+}
+
+/**
+ * Error and warning counts of one file
+ */
+export interface FileDiagnostics {
+  /** Path relative to the worktree */
+  file: string;
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * An error that appeared in a file the agent recently edited
+ */
+export interface NewDiagnosticError {
+  file: string;
+  /** 1-based line number */
+  line: number;
+  message: string;
+  source?: string;
+}
+
+/**
+ * Payload emitted when diagnostics cross a threshold or new errors appear
+ * in files the agent edited
+ */
+export interface DiagnosticsChangedPayload extends BaseEventPayload {
+  eventType: typeof DIAGNOSTICS_CHANGED_EVENT;
+  /** Session that last edited a file, if any */
+  sessionId?: string;
+  /** Why this was sent */
+  reasons: ('errors_threshold' | 'warnings_threshold' | 'new_errors')[];
+  errors: number;
+  warnings: number;
+  previousErrors: number;
+  previousWarnings: number;
+  /** Files with errors or warnings, most errors first */
+  files: FileDiagnostics[];
+  newErrors: NewDiagnosticError[];
+}
+
+// Error middleware types
+
+/**
+ * Synthetic event constant for failed agent runs
+ */
+export const AGENT_FAILED_EVENT = 'agent.failed';
+
+/**
+ * What went wrong, as far as the error lets us tell
+ */
+export type ErrorCategory =
+  | 'provider_auth'
+  | 'rate_limit'
+  | 'context_overflow'
+  | 'output_length'
+  | 'tool_failure'
+  | 'aborted'
+  | 'api'
+  | 'unknown';
+
+/**
+ * How urgently someone should look at a failure
+ */
+export type ErrorSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+/**
+ * Payload sent when a session reports an error
+ */
+export interface AgentFailedPayload extends BaseEventPayload {
+  eventType: typeof AGENT_FAILED_EVENT;
+  sessionId?: string;
+  sessionTitle?: string;
+  category: ErrorCategory;
+  severity: ErrorSeverity;
+  /** OpenCode error name, e.g. 'APIError' or 'ProviderAuthError' */
+  errorName: string;
+  message: string;
+  statusCode?: number;
+  providerId?: string;
+  /** Whether the provider said retrying may help */
+  retryable?: boolean;
+  /** Text of the last assistant message before the failure */
+  lastAssistantMessage?: string;
+  /** The most recent tool call that failed in this turn */
+  failedTool?: {
+    name: string;
+    callId?: string;
+    error: string;
+    input?: Record<string, any>;
+  };
+}
+
 /**
  * Simplified config for agent notification plugin
  */
@@ -167,21 +1032,34 @@ export interface AgentNotificationConfig {
   /** Default timeout for all webhooks */
   defaultTimeoutMs?: number;
   /** Default retry configuration */
-  defaultRetry?: {
-    maxAttempts?: number;
-    delayMs?: number;
-  };
+  defaultRetry?: RetryConfig;
   /** Optional: Delay in seconds to wait after session.idle before sending (default: 0 = immediate) */
   idleDelaySecs?: number;
+  /** Optional: Persist pending deliveries to disk and replay them at startup */
+  outbox?: OutboxConfig;
+  /** Optional: Add project, git and environment context to every payload */
+  enrich?: boolean | EnrichmentOptions;
+  /** Optional: Also notify when the agent is waiting for a permission, and when it is answered */
+  notifyPermissions?: boolean;
+  /** Optional: Send a follow-up when a permission is still unanswered after this many seconds (default: 0 = never) */
+  permissionTimeoutSecs?: number;
+  /** Optional: Serve one-time action URLs that answer permission requests */
+  callbacks?: boolean | CallbackServerConfig;
+  /** Optional: Also notify with agent.failed when a session reports an error */
+  notifyErrors?: boolean;
+  /** Optional: What the changes section of agent.completed includes */
+  changes?: ChangeTrackingConfig;
 }
 
 /**
- * Context provided to the middleware from OpenCode plugin system
+ * Context provided to the middleware from OpenCode plugin system. A
+ * structural subset of the plugin's input, so the real context can be
+ * passed as is.
  */
 export interface PluginContext {
   project: {
     id: string;
-    [key: string]: any;
+    vcs?: string;
   };
   directory: string;
   worktree: string;
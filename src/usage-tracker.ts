@@ -0,0 +1,182 @@
+import {
+  DailyUsagePayload,
+  DAILY_USAGE_EVENT,
+  NormalizedEventPayload,
+} from './types.js';
+import { UsageAccumulator } from './usage.js';
+
+interface DailyUsageTrackerOptions {
+  debug?: boolean;
+  onRollup: (payload: DailyUsagePayload) => Promise<void>;
+}
+
+/**
+ * Local calendar day of a timestamp, as YYYY-MM-DD
+ */
+export function localDate(time: number): string {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Adds up assistant message usage per local day and emits a usage.daily
+ * event for each finished day shortly after midnight, or with the first
+ * event of the new day if the timer didn't fire in time. The day still
+ * open is reported on destroy.
+ */
+export class DailyUsageTracker {
+  /** date -> sessionId -> usage */
+  private days: Map<string, Map<string, UsageAccumulator>> = new Map();
+  private sessionTitles: Map<string, string> = new Map();
+  /** The day the last flush ran in */
+  private currentDate = localDate(Date.now());
+  private timer?: ReturnType<typeof setTimeout>;
+  private debug: boolean;
+  private onRollup: (payload: DailyUsagePayload) => Promise<void>;
+
+  constructor(options: DailyUsageTrackerOptions) {
+    this.debug = options.debug ?? false;
+    this.onRollup = options.onRollup;
+    this.scheduleRollup();
+  }
+
+  /**
+   * Process a normalized OpenCode event
+   */
+  async handleEvent(payload: NormalizedEventPayload): Promise<void> {
+    // The midnight timer can be late, e.g. after the machine slept
+    if (localDate(Date.now()) !== this.currentDate) {
+      await this.flush();
+    }
+
+    const info = payload.properties.info;
+
+    if (payload.eventType === 'session.updated' && info?.id && info.title) {
+      this.sessionTitles.set(info.id, info.title);
+      return;
+    }
+
+    if (payload.eventType !== 'message.updated' || info?.role !== 'assistant' || !info.id || !payload.sessionId) {
+      return;
+    }
+
+    const date = localDate(info.time?.created ?? Date.now());
+    let sessions = this.days.get(date);
+    if (!sessions) {
+      sessions = new Map();
+      this.days.set(date, sessions);
+    }
+
+    let usage = sessions.get(payload.sessionId);
+    if (!usage) {
+      usage = new UsageAccumulator();
+      sessions.set(payload.sessionId, usage);
+    }
+    usage.record(info.id, info.tokens, info.cost);
+  }
+
+  /**
+   * Emit usage.daily for every day before today
+   */
+  async flush(): Promise<void> {
+    this.currentDate = localDate(Date.now());
+    await this.emitRollups(this.currentDate);
+  }
+
+  /**
+   * Stop the midnight timer and emit usage.daily for every pending day,
+   * including today's totals so far
+   */
+  async destroy(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.emitRollups();
+  }
+
+  /**
+   * Emit usage.daily for every pending day before `until`, or all of them
+   */
+  private async emitRollups(until?: string): Promise<void> {
+    for (const [date, sessions] of this.days) {
+      if (until && date >= until) continue;
+      this.days.delete(date);
+
+      const payload = this.buildRollup(date, sessions);
+      if (payload.messages === 0) continue;
+
+      if (this.debug) {
+        console.log(
+          `[DailyUsageTracker] ${date}: $${payload.cost.toFixed(4)} across ${payload.sessions.length} sessions`
+        );
+      }
+
+      try {
+        await this.onRollup(payload);
+      } catch (error) {
+        if (this.debug) {
+          console.error(`[DailyUsageTracker] Error emitting daily usage:`, error);
+        }
+      }
+    }
+
+    this.pruneTitles();
+  }
+
+  private buildRollup(date: string, sessions: Map<string, UsageAccumulator>): DailyUsagePayload {
+    const total = { input: 0, output: 0, reasoning: 0 };
+    let cost = 0;
+    let messages = 0;
+
+    const breakdown = Array.from(sessions, ([sessionId, usage]) => {
+      const totals = usage.totals();
+      total.input += totals.tokens.input;
+      total.output += totals.tokens.output;
+      total.reasoning += totals.tokens.reasoning;
+      cost += totals.cost;
+      messages += totals.messages;
+      return { sessionId, sessionTitle: this.sessionTitles.get(sessionId), ...totals };
+    })
+      .filter((session) => session.messages > 0)
+      .sort((a, b) => b.cost - a.cost);
+
+    return {
+      timestamp: new Date().toISOString(),
+      eventType: DAILY_USAGE_EVENT,
+      date,
+      tokens: total,
+      cost,
+      messages,
+      sessions: breakdown,
+    };
+  }
+
+  /**
+   * Forget titles of sessions with no usage still pending
+   */
+  private pruneTitles(): void {
+    for (const sessionId of this.sessionTitles.keys()) {
+      const pending = Array.from(this.days.values()).some((sessions) => sessions.has(sessionId));
+      if (!pending) {
+        this.sessionTitles.delete(sessionId);
+      }
+    }
+  }
+
+  private scheduleRollup(): void {
+    const now = new Date();
+    const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    // A second past midnight so the new day has certainly started
+    const delay = midnight.getTime() - now.getTime() + 1000;
+
+    this.timer = setTimeout(() => {
+      this.scheduleRollup();
+      void this.flush();
+    }, delay);
+    // Don't keep the process alive just for the rollup
+    this.timer.unref?.();
+  }
+}
@@ -0,0 +1,43 @@
+import { TokenUsage, UsageTotals } from './types.js';
+
+/**
+ * Sums tokens and cost over assistant messages. OpenCode repeats
+ * message.updated while a message streams, so usage is recorded per message
+ * id and the latest report for each message wins. Messages that report
+ * neither tokens nor cost are not counted.
+ */
+export class UsageAccumulator {
+  private messages: Map<string, { tokens?: Partial<TokenUsage>; cost?: number }> = new Map();
+
+  record(messageId: string, tokens?: Partial<TokenUsage>, cost?: number): void {
+    if (tokens === undefined && cost === undefined) {
+      return;
+    }
+    this.messages.set(messageId, { tokens, cost });
+  }
+
+  get size(): number {
+    return this.messages.size;
+  }
+
+  totals(): UsageTotals {
+    const tokens: TokenUsage = { input: 0, output: 0, reasoning: 0 };
+    let cost = 0;
+
+    for (const usage of this.messages.values()) {
+      tokens.input += usage.tokens?.input ?? 0;
+      tokens.output += usage.tokens?.output ?? 0;
+      tokens.reasoning += usage.tokens?.reasoning ?? 0;
+      cost += usage.cost ?? 0;
+
+      // Only providers with prompt caching report cache tokens
+      if (usage.tokens?.cache) {
+        tokens.cache ??= { read: 0, write: 0 };
+        tokens.cache.read += usage.tokens.cache.read ?? 0;
+        tokens.cache.write += usage.tokens.cache.write ?? 0;
+      }
+    }
+
+    return { tokens, cost, messages: this.messages.size };
+  }
+}
@@ -1,5 +1,71 @@
 import axios, { AxiosError, AxiosRequestConfig } from 'axios';
 import { WebhookConfig, WebhookResult, BaseEventPayload } from './types.js';
+import { signPayload } from './signing.js';
+import { getPresetFormatter } from './presets.js';
+import { compileTemplate } from './template.js';
+
+/** Upper bound on how long a server-provided Retry-After can stall a delivery */
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+/** Statuses retried when retry.retryableStatuses is not set */
+export const DEFAULT_RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+/** Statuses whose Retry-After header replaces the usual backoff */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Error thrown when a single webhook request fails
+ */
+export class WebhookRequestError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'WebhookRequestError';
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const raw = String(value).trim();
+  let delayMs: number;
+
+  if (/^\d+(\.\d+)?$/.test(raw)) {
+    delayMs = parseFloat(raw) * 1000;
+  } else {
+    const date = Date.parse(raw);
+    if (Number.isNaN(date)) {
+      return undefined;
+    }
+    delayMs = date - now;
+  }
+
+  return Math.min(Math.max(delayMs, 0), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Whether a failed attempt is worth retrying. Network errors and timeouts
+ * (no status) are; error responses only when their status is listed.
+ * Errors raised while building the request, e.g. by transformPayload, would
+ * fail the same way again.
+ */
+export function isRetryableError(
+  error: unknown,
+  retryableStatuses: number[] = DEFAULT_RETRYABLE_STATUSES
+): boolean {
+  if (!(error instanceof WebhookRequestError)) {
+    return false;
+  }
+  return error.statusCode === undefined || retryableStatuses.includes(error.statusCode);
+}
 
 /**
  * Webhook client for sending HTTP requests
@@ -20,8 +86,12 @@ export class WebhookClient {
   ): Promise<WebhookResult> {
     const maxAttempts = config.retry?.maxAttempts ?? 3;
     const delayMs = config.retry?.delayMs ?? 1000;
+    const retryableStatuses = config.retry?.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
     let attempts = 0;
     let lastError: string | undefined;
+    let lastStatus: number | undefined;
+    let retryable = true;
+    let transform: ((payload: BaseEventPayload) => any) | undefined;
 
     while (attempts < maxAttempts) {
       attempts++;
@@ -33,7 +103,9 @@ export class WebhookClient {
           );
         }
 
-        const result = await this.sendOnce(config, payload);
+        // Resolved on the first attempt and reused by the retries
+        transform ??= this.resolveTransform(config);
+        const result = await this.sendOnce(config, transform(payload));
 
         if (this.debug) {
           console.log(
@@ -44,6 +116,8 @@ export class WebhookClient {
         return result;
       } catch (error) {
         lastError = this.getErrorMessage(error);
+        lastStatus = error instanceof WebhookRequestError ? error.statusCode : undefined;
+        retryable = isRetryableError(error, retryableStatuses);
 
         if (this.debug) {
           console.error(
@@ -51,19 +125,38 @@ export class WebhookClient {
           );
         }
 
+        // A 400, 401 or 404 will not succeed on the next attempt either
+        if (!retryable) {
+          if (this.debug) {
+            console.log(`[WebhookPlugin] Not retrying ${config.url}: error is not retryable`);
+          }
+          break;
+        }
+
         // If this wasn't the last attempt, wait before retrying
         if (attempts < maxAttempts) {
-          await this.delay(delayMs * attempts); // Exponential backoff
+          // Honour the server's Retry-After (e.g. Slack 429s) over our own backoff
+          const retryAfterMs = error instanceof WebhookRequestError ? error.retryAfterMs : undefined;
+
+          if (retryAfterMs !== undefined && this.debug) {
+            console.log(
+              `[WebhookPlugin] ${config.url} asked to retry after ${retryAfterMs}ms`
+            );
+          }
+
+          await this.delay(retryAfterMs ?? delayMs * attempts); // Exponential backoff
         }
       }
     }
 
-    // All attempts failed
+    // All attempts failed, or the error was not retryable
     return {
       success: false,
       webhookUrl: config.url,
+      statusCode: lastStatus,
       error: lastError || 'Unknown error',
       attempts,
+      retryable,
     };
   }
 
@@ -72,13 +165,8 @@ export class WebhookClient {
    */
   private async sendOnce(
     config: WebhookConfig,
-    payload: BaseEventPayload
+    finalPayload: any
   ): Promise<WebhookResult> {
-    // Transform payload if transformer is provided
-    const finalPayload = config.transformPayload
-      ? config.transformPayload(payload)
-      : payload;
-
     // Prepare request configuration
     const requestConfig: AxiosRequestConfig = {
       method: config.method || 'POST',
@@ -92,6 +180,16 @@ export class WebhookClient {
       timeout: config.timeoutMs || 10000,
     };
 
+    // Sign the exact bytes we send, with a fresh timestamp on every attempt
+    if (config.signing) {
+      const body = JSON.stringify(finalPayload);
+      requestConfig.data = body;
+      requestConfig.headers = {
+        ...requestConfig.headers,
+        ...signPayload(body, config.signing),
+      };
+    }
+
     try {
       const response = await axios(requestConfig);
 
@@ -103,12 +201,30 @@ export class WebhookClient {
       };
     } catch (error) {
       const axiosError = error as AxiosError;
-      throw new Error(
-        `Webhook request failed: ${axiosError.message} (status: ${axiosError.response?.status})`
+      const status = axiosError.response?.status;
+      const retryAfterMs = status !== undefined && RETRY_AFTER_STATUSES.includes(status)
+        ? parseRetryAfter(axiosError.response?.headers?.['retry-after'])
+        : undefined;
+
+      throw new WebhookRequestError(
+        `Webhook request failed: ${axiosError.message} (status: ${status})`,
+        status,
+        retryAfterMs
       );
     }
   }
 
+  /**
+   * The first of transformPayload, template or preset. WebhookPlugin passes
+   * templates already compiled as transformPayload.
+   */
+  private resolveTransform(config: WebhookConfig): (payload: BaseEventPayload) => any {
+    return config.transformPayload
+      ?? (config.template !== undefined ? compileTemplate(config.template) : undefined)
+      ?? (config.preset ? getPresetFormatter(config.preset) : undefined)
+      ?? ((payload) => payload);
+  }
+
   /**
    * Delay helper for retry logic
    */
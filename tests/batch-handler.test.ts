@@ -2,7 +2,7 @@
  * Tests for rate limiting and queuing
  */
 
-import { BatchHandler } from '../src/batch-handler.js';
+import { BatchHandler, defaultBatchSummary } from '../src/batch-handler.js';
 import { WebhookConfig, BaseEventPayload, OpencodeEventType } from '../src/types.js';
 
 describe('BatchHandler', () => {
@@ -287,6 +287,241 @@ describe('BatchHandler', () => {
     });
   });
 
+  describe('batching mode', () => {
+    const fillWindow = async (handler: BatchHandler) => {
+      await handler.addEvent({
+        timestamp: '2025-01-01T00:00:00.000Z',
+        eventType: OpencodeEventType.SESSION_CREATED,
+        sessionId: 'session-1',
+      });
+    };
+
+    it('should collapse queued events into a single summary payload', async () => {
+      const mockSendCallback = jest.fn().mockResolvedValue(undefined);
+      const generateSummary = jest.fn().mockReturnValue('custom summary');
+      const config: WebhookConfig = {
+        url: 'https://example.com/webhook',
+        events: [OpencodeEventType.SESSION_CREATED, OpencodeEventType.FILE_EDITED],
+        rateLimit: {
+          maxRequests: 1,
+          windowMs: 60000,
+          generateSummary,
+        },
+      };
+
+      const handler = new BatchHandler(config, mockSendCallback);
+      await fillWindow(handler);
+      mockSendCallback.mockClear();
+
+      await handler.addEvent({
+        timestamp: '2025-01-01T00:00:01.000Z',
+        eventType: OpencodeEventType.FILE_EDITED,
+        sessionId: 'session-1',
+      });
+      await handler.addEvent({
+        timestamp: '2025-01-01T00:00:05.000Z',
+        eventType: OpencodeEventType.SESSION_CREATED,
+        sessionId: 'session-2',
+      });
+
+      expect(mockSendCallback).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(60000);
+      await Promise.resolve();
+
+      expect(mockSendCallback).toHaveBeenCalledTimes(1);
+      expect(generateSummary).toHaveBeenCalledWith([
+        expect.objectContaining({ sessionId: 'session-1' }),
+        expect.objectContaining({ sessionId: 'session-2' }),
+      ]);
+      expect(mockSendCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'batch.summary',
+          summary: 'custom summary',
+          eventCount: 2,
+          batchStartTime: '2025-01-01T00:00:01.000Z',
+          batchEndTime: '2025-01-01T00:00:05.000Z',
+        }),
+        true
+      );
+    });
+
+    it('should flush after maxBatchDelayMs when the window has freed up', async () => {
+      const mockSendCallback = jest.fn().mockResolvedValue(undefined);
+      const config: WebhookConfig = {
+        url: 'https://example.com/webhook',
+        events: [OpencodeEventType.SESSION_CREATED],
+        rateLimit: {
+          maxRequests: 2,
+          windowMs: 60000,
+          maxBatchDelayMs: 10000,
+        },
+      };
+
+      const handler = new BatchHandler(config, mockSendCallback);
+      await fillWindow(handler);
+      jest.advanceTimersByTime(55000);
+      await fillWindow(handler);
+      mockSendCallback.mockClear();
+
+      await handler.addEvent({
+        timestamp: '2025-01-01T00:00:56.000Z',
+        eventType: OpencodeEventType.SESSION_CREATED,
+        sessionId: 'session-3',
+      });
+
+      // The first request leaves the window after 5s, before the 10s max delay
+      jest.advanceTimersByTime(5000);
+      await Promise.resolve();
+
+      expect(mockSendCallback).toHaveBeenCalledTimes(1);
+      expect(mockSendCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'batch.summary', eventCount: 1 }),
+        true
+      );
+    });
+
+    it('should send the batch after maxBatchDelayMs even while the window is full', async () => {
+      const mockSendCallback = jest.fn().mockResolvedValue(undefined);
+      const config: WebhookConfig = {
+        url: 'https://example.com/webhook',
+        events: [OpencodeEventType.SESSION_CREATED],
+        rateLimit: {
+          maxRequests: 1,
+          windowMs: 60000,
+          maxBatchDelayMs: 10000,
+        },
+      };
+
+      const handler = new BatchHandler(config, mockSendCallback);
+      await fillWindow(handler);
+      mockSendCallback.mockClear();
+
+      await handler.addEvent({
+        timestamp: '2025-01-01T00:00:01.000Z',
+        eventType: OpencodeEventType.SESSION_CREATED,
+        sessionId: 'session-2',
+      });
+      await jest.advanceTimersByTimeAsync(5000);
+      await handler.addEvent({
+        timestamp: '2025-01-01T00:00:06.000Z',
+        eventType: OpencodeEventType.SESSION_CREATED,
+        sessionId: 'session-3',
+      });
+
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(mockSendCallback).not.toHaveBeenCalled();
+
+      // 10s after the first event was queued, well before the window frees up
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockSendCallback).toHaveBeenCalledTimes(1);
+      expect(mockSendCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'batch.summary', eventCount: 2 }),
+        true
+      );
+
+      // The next batch gets its own max delay
+      await handler.addEvent({
+        timestamp: '2025-01-01T00:00:11.000Z',
+        eventType: OpencodeEventType.SESSION_CREATED,
+        sessionId: 'session-4',
+      });
+      await jest.advanceTimersByTimeAsync(9999);
+      expect(mockSendCallback).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockSendCallback).toHaveBeenCalledTimes(2);
+
+      handler.destroy();
+    });
+
+    it('should use the default markdown digest when batch is enabled without a generator', async () => {
+      const mockSendCallback = jest.fn().mockResolvedValue(undefined);
+      const config: WebhookConfig = {
+        url: 'https://example.com/webhook',
+        events: [OpencodeEventType.SESSION_CREATED],
+        rateLimit: {
+          maxRequests: 1,
+          windowMs: 60000,
+          batch: true,
+        },
+      };
+
+      const handler = new BatchHandler(config, mockSendCallback);
+      await fillWindow(handler);
+      mockSendCallback.mockClear();
+
+      await handler.addEvent({
+        timestamp: '2025-01-01T00:00:01.000Z',
+        eventType: OpencodeEventType.SESSION_CREATED,
+        sessionId: 'session-2',
+      });
+
+      jest.advanceTimersByTime(60000);
+      await Promise.resolve();
+
+      const payload = mockSendCallback.mock.calls[0][0];
+      expect(payload.summary).toContain('**1 event**');
+      expect(payload.summary).toContain('- `session.created`: 1');
+    });
+
+    it('should log, not reject, when a timed batch flush fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+
+      try {
+        const mockSendCallback = jest.fn().mockResolvedValue(undefined);
+        const config: WebhookConfig = {
+          url: 'https://example.com/webhook',
+          events: [OpencodeEventType.SESSION_CREATED],
+          rateLimit: {
+            maxRequests: 1,
+            windowMs: 1000,
+            generateSummary: () => {
+              throw new Error('boom');
+            },
+          },
+        };
+
+        const handler = new BatchHandler(config, mockSendCallback, true);
+        await fillWindow(handler);
+        await fillWindow(handler);
+        mockSendCallback.mockClear();
+
+        await jest.advanceTimersByTimeAsync(1000);
+        // Unhandled rejections are reported after the microtask queue drains
+        jest.useRealTimers();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(unhandled).not.toHaveBeenCalled();
+        expect(mockSendCallback).not.toHaveBeenCalled();
+        expect(consoleErrorSpy).toHaveBeenCalledWith(
+          expect.stringContaining('[BatchHandler] Error flushing queued events'),
+          expect.objectContaining({ message: 'boom' })
+        );
+      } finally {
+        process.off('unhandledRejection', unhandled);
+        consoleErrorSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('defaultBatchSummary', () => {
+    it('should count events by type and session', () => {
+      const summary = defaultBatchSummary([
+        { timestamp: 't1', eventType: OpencodeEventType.SESSION_CREATED, sessionId: 's1' },
+        { timestamp: 't2', eventType: OpencodeEventType.FILE_EDITED, sessionId: 's1' },
+        { timestamp: 't3', eventType: OpencodeEventType.FILE_EDITED, sessionId: 's2' },
+      ]);
+
+      expect(summary).toBe(
+        '**3 events** from t1 to t3 across 2 sessions\n\n' +
+        '- `session.created`: 1\n' +
+        '- `file.edited`: 2'
+      );
+    });
+  });
+
   describe('debug logging', () => {
     it('should log queue operations when debug is enabled', async () => {
       const mockSendCallback = jest.fn().mockResolvedValue(undefined);
@@ -0,0 +1,109 @@
+import { BudgetWatcher } from '../src/budget';
+import { normalizeEvent } from '../src/normalize';
+import { BudgetConfig, BudgetExceededPayload, BUDGET_EXCEEDED_EVENT } from '../src/types';
+
+describe('BudgetWatcher', () => {
+  let onExceededMock: jest.Mock;
+  let watcher: BudgetWatcher;
+
+  const today = new Date(2025, 0, 2, 15, 0, 0);
+  const tomorrow = new Date(2025, 0, 3, 9, 0, 0);
+
+  const send = (type: string, properties: Record<string, any>) =>
+    watcher.handleEvent(normalizeEvent({ type, properties }));
+
+  const assistantMessage = (id: string, sessionID: string, input: number, cost: number, created = today) =>
+    send('message.updated', {
+      info: { id, sessionID, role: 'assistant', time: { created: created.getTime() }, tokens: { input, output: 0, reasoning: 0 }, cost },
+    });
+
+  const createWatcher = (budget: BudgetConfig) => {
+    watcher = new BudgetWatcher({ budget, onExceeded: onExceededMock });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: today });
+    onExceededMock = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should alert once when a session crosses its cost limit', async () => {
+    createWatcher({ session: { cost: 5 } });
+
+    await send('session.updated', { info: { id: 'ses_1', title: 'Refactor billing' } });
+    await assistantMessage('m1', 'ses_1', 1000, 3);
+    expect(onExceededMock).not.toHaveBeenCalled();
+
+    await assistantMessage('m2', 'ses_1', 1000, 2.5);
+    await assistantMessage('m3', 'ses_1', 1000, 1);
+
+    expect(onExceededMock).toHaveBeenCalledTimes(1);
+    const alert: BudgetExceededPayload = onExceededMock.mock.calls[0][0];
+    expect(alert).toEqual(expect.objectContaining({
+      eventType: BUDGET_EXCEEDED_EVENT,
+      sessionId: 'ses_1',
+      sessionTitle: 'Refactor billing',
+      scope: 'session',
+      metric: 'cost',
+      limit: 5,
+      value: 5.5,
+    }));
+    expect(alert.usage.messages).toBe(2);
+  });
+
+  it('should not count streaming updates of a message twice', async () => {
+    createWatcher({ session: { tokens: 1500 } });
+
+    await assistantMessage('m1', 'ses_1', 1000, 0);
+    await assistantMessage('m1', 'ses_1', 1200, 0);
+    expect(onExceededMock).not.toHaveBeenCalled();
+
+    await assistantMessage('m2', 'ses_1', 400, 0);
+    expect(onExceededMock).toHaveBeenCalledWith(expect.objectContaining({ metric: 'tokens', value: 1600 }));
+  });
+
+  it('should track the daily budget across sessions and reset it the next day', async () => {
+    createWatcher({ daily: { tokens: 2000 } });
+
+    await assistantMessage('m1', 'ses_1', 1500, 0);
+    await assistantMessage('m2', 'ses_2', 1000, 0);
+    expect(onExceededMock).toHaveBeenCalledWith(expect.objectContaining({
+      scope: 'daily',
+      date: '2025-01-02',
+      sessionId: 'ses_2',
+      value: 2500,
+    }));
+
+    await assistantMessage('m3', 'ses_2', 1000, 0);
+    expect(onExceededMock).toHaveBeenCalledTimes(1);
+
+    await assistantMessage('m4', 'ses_1', 2500, 0, tomorrow);
+    expect(onExceededMock).toHaveBeenCalledTimes(2);
+    expect(onExceededMock.mock.calls[1][0].date).toBe('2025-01-03');
+  });
+
+  it('should start over for a session that is deleted and recreated', async () => {
+    createWatcher({ session: { cost: 1 } });
+
+    await assistantMessage('m1', 'ses_1', 0, 2);
+    await send('session.deleted', { info: { id: 'ses_1' } });
+    await assistantMessage('m2', 'ses_1', 0, 0.5);
+    expect(onExceededMock).toHaveBeenCalledTimes(1);
+
+    await assistantMessage('m3', 'ses_1', 0, 0.6);
+    expect(onExceededMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore user messages', async () => {
+    createWatcher({ session: { tokens: 1 } });
+
+    await send('message.updated', {
+      info: { id: 'm1', sessionID: 'ses_1', role: 'user', tokens: { input: 100, output: 0, reasoning: 0 } },
+    });
+
+    expect(onExceededMock).not.toHaveBeenCalled();
+  });
+});
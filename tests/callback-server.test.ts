@@ -0,0 +1,151 @@
+/**
+ * Tests for the permission callback server, against a local HTTP stand-in
+ * for the OpenCode server
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { CallbackServer } from '../src/callback-server.js';
+import { PluginContext } from '../src/types.js';
+
+describe('CallbackServer', () => {
+  let opencode: http.Server;
+  let opencodeUrl: string;
+  let replies: { path: string; body: any }[];
+  let opencodeStatus: number;
+  let server: CallbackServer;
+
+  /** Same call shape as the OpenCode SDK client, speaking HTTP to the stand-in */
+  const createContext = (): PluginContext => ({
+    project: { id: 'project-1' },
+    directory: '/work/tree',
+    worktree: '/work/tree',
+    $: undefined,
+    client: {
+      postSessionIdPermissionsPermissionId: async ({ path, body }: any) => {
+        const response = await fetch(`${opencodeUrl}/session/${path.id}/permissions/${path.permissionID}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        return response.ok ? { data: true } : { error: { status: response.status } };
+      },
+    },
+  });
+
+  const submit = (url: string) => fetch(url, { method: 'POST' });
+
+  beforeEach(async () => {
+    replies = [];
+    opencodeStatus = 200;
+    opencode = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        replies.push({ path: req.url ?? '', body: JSON.parse(body || 'null') });
+        res.writeHead(opencodeStatus, { 'Content-Type': 'application/json' });
+        res.end('true');
+      });
+    });
+    await new Promise<void>((resolve) => opencode.listen(0, '127.0.0.1', resolve));
+    opencodeUrl = `http://127.0.0.1:${(opencode.address() as AddressInfo).port}`;
+
+    server = new CallbackServer(createContext(), { secret: 'test-secret' });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await new Promise<void>((resolve) => opencode.close(() => resolve()));
+  });
+
+  it('should create signed action URLs on a local port', async () => {
+    const actions = await server.createActions('ses_1', 'per_1', 'git push');
+
+    expect(Object.keys(actions)).toEqual(['once', 'always', 'reject']);
+    expect(actions.once).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/permission\?token=[\w-]+\.[\w-]+$/);
+    expect(new Set(Object.values(actions)).size).toBe(3);
+  });
+
+  it('should ask for confirmation on GET without replying', async () => {
+    const actions = await server.createActions('ses_1', 'per_1', 'git push <origin>');
+
+    const response = await fetch(actions.always);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(html).toContain('git push &#60;origin&#62;');
+    expect(html).toContain('<form method="post"');
+    expect(html).toContain('Always allow');
+    expect(replies).toHaveLength(0);
+  });
+
+  it('should reply to the permission through the client on POST', async () => {
+    const actions = await server.createActions('ses_1', 'per_1', 'git push');
+
+    const response = await submit(actions.always);
+
+    expect(response.status).toBe(200);
+    expect(replies).toEqual([{ path: '/session/ses_1/permissions/per_1', body: { response: 'always' } }]);
+  });
+
+  it('should accept only one answer per request', async () => {
+    const actions = await server.createActions('ses_1', 'per_1');
+
+    expect((await submit(actions.once)).status).toBe(200);
+    expect((await submit(actions.once)).status).toBe(410);
+    expect((await submit(actions.reject)).status).toBe(410);
+    expect(replies).toHaveLength(1);
+  });
+
+  it('should reject revoked, expired and tampered links', async () => {
+    const actions = await server.createActions('ses_1', 'per_1');
+    server.revoke('per_1');
+    expect((await submit(actions.once)).status).toBe(410);
+
+    const expiring = new CallbackServer(createContext(), { secret: 'test-secret', ttlSecs: 1 });
+    try {
+      const nowSpy = jest.spyOn(Date, 'now');
+      const expired = await expiring.createActions('ses_1', 'per_2');
+      nowSpy.mockReturnValue(Date.now() + 2000);
+      expect((await submit(expired.once)).status).toBe(410);
+      nowSpy.mockRestore();
+    } finally {
+      await expiring.stop();
+    }
+
+    const fresh = await server.createActions('ses_1', 'per_3');
+    const [body, signature] = new URL(fresh.reject).searchParams.get('token')!.split('.');
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, r: 'always' })).toString('base64url');
+    expect((await submit(`${server.url}/permission?token=${forged}.${signature}`)).status).toBe(403);
+
+    expect(replies).toHaveLength(0);
+  });
+
+  it('should keep the link usable when OpenCode rejects the reply', async () => {
+    const actions = await server.createActions('ses_1', 'per_1');
+
+    opencodeStatus = 500;
+    expect((await submit(actions.once)).status).toBe(502);
+
+    opencodeStatus = 200;
+    expect((await submit(actions.once)).status).toBe(200);
+    expect(replies).toHaveLength(2);
+  });
+
+  it('should use the public URL in links', async () => {
+    const tunnelled = new CallbackServer(createContext(), { publicUrl: 'https://opencode.example.com/' });
+    try {
+      const actions = await tunnelled.createActions('ses_1', 'per_1');
+      expect(actions.once.startsWith('https://opencode.example.com/permission?token=')).toBe(true);
+    } finally {
+      await tunnelled.stop();
+    }
+  });
+
+  it('should answer 404 for other paths', async () => {
+    await server.start();
+
+    expect((await fetch(`${server.url}/other`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,164 @@
+import { ChangeTracker, countLineChanges } from '../src/change-tracker';
+import { normalizeEvent } from '../src/normalize';
+import { FilesChangedPayload, FILES_CHANGED_EVENT, PluginContext } from '../src/types';
+
+describe('countLineChanges', () => {
+  it('should count added and removed lines', () => {
+    expect(countLineChanges('a\nb\nc\n', 'a\nB\nc\nd\n')).toEqual({ additions: 2, deletions: 1 });
+    expect(countLineChanges('', 'one\ntwo\n')).toEqual({ additions: 2, deletions: 0 });
+    expect(countLineChanges('one\ntwo\n', '')).toEqual({ additions: 0, deletions: 2 });
+    expect(countLineChanges('same\n', 'same\n')).toEqual({ additions: 0, deletions: 0 });
+  });
+
+  it('should find the shortest edit when lines move', () => {
+    expect(countLineChanges('a\nb\nc\nd', 'b\nc\nd\na')).toEqual({ additions: 1, deletions: 1 });
+  });
+
+  it('should count very different versions as a rewrite', () => {
+    const before = Array.from({ length: 3000 }, (_, i) => `old ${i}`).join('\n');
+    const after = Array.from({ length: 2500 }, (_, i) => `new ${i}`).join('\n');
+    expect(countLineChanges(before, after)).toEqual({ additions: 2500, deletions: 3000 });
+  });
+});
+
+describe('ChangeTracker', () => {
+  let onChangedMock: jest.Mock;
+  let tracker: ChangeTracker;
+
+  const context = { worktree: '/repo', directory: '/repo' } as PluginContext;
+
+  const send = (type: string, properties: Record<string, any>) =>
+    tracker.handleEvent(normalizeEvent({ type, properties }));
+
+  const editPart = (id: string, filePath: string) => send('message.part.updated', {
+    part: {
+      id,
+      sessionID: 'ses_1',
+      messageID: 'msg_1',
+      type: 'tool',
+      tool: 'edit',
+      callID: `call_${id}`,
+      state: { status: 'completed', input: { filePath } },
+    },
+  });
+
+  beforeEach(() => {
+    onChangedMock = jest.fn().mockResolvedValue(undefined);
+    tracker = new ChangeTracker({ context, onChanged: onChangedMock });
+  });
+
+  it('should emit files.changed with line counts when the session goes idle', async () => {
+    await send('session.updated', { info: { id: 'ses_1', title: 'Fix login' } });
+    await editPart('prt_1', '/repo/src/login.ts');
+    await send('session.diff', {
+      sessionID: 'ses_1',
+      diff: [
+        { file: 'src/login.ts', before: 'a\nb\n', after: 'a\nc\nd\n', additions: 2, deletions: 1 },
+        { file: 'README.md', before: '', after: 'docs\n', additions: 1, deletions: 0 },
+      ],
+    });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onChangedMock).toHaveBeenCalledTimes(1);
+    const payload: FilesChangedPayload = onChangedMock.mock.calls[0][0];
+    expect(payload).toMatchObject({
+      eventType: FILES_CHANGED_EVENT,
+      sessionId: 'ses_1',
+      sessionTitle: 'Fix login',
+      files: [
+        { file: 'src/login.ts', additions: 2, deletions: 1 },
+        { file: 'README.md', additions: 1, deletions: 0 },
+      ],
+      additions: 3,
+      deletions: 1,
+    });
+    expect(payload.diff).toBeUndefined();
+  });
+
+  it('should report only what changed since the previous digest', async () => {
+    await send('session.diff', { sessionID: 'ses_1', diff: [{ file: 'a.ts', before: 'x\n', after: 'x\ny\n' }] });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    // The session diff keeps listing a.ts; only b.ts is new this turn
+    await send('session.diff', {
+      sessionID: 'ses_1',
+      diff: [
+        { file: 'a.ts', before: 'x\n', after: 'x\ny\n' },
+        { file: 'b.ts', before: '', after: 'one\n' },
+      ],
+    });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    // a.ts is edited again relative to what was last reported
+    await send('session.diff', { sessionID: 'ses_1', diff: [{ file: 'a.ts', before: 'x\n', after: 'z\n' }] });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onChangedMock.mock.calls.map(([payload]) => payload.files)).toEqual([
+      [{ file: 'a.ts', additions: 1, deletions: 0 }],
+      [{ file: 'b.ts', additions: 1, deletions: 0 }],
+      [{ file: 'a.ts', additions: 1, deletions: 2 }],
+    ]);
+  });
+
+  it('should list edited files without counts until a session diff arrives', async () => {
+    await send('message.updated', { info: { id: 'msg_1', sessionID: 'ses_1', role: 'assistant' } });
+    // file.edited carries no session; it goes to the session that was last active
+    await send('file.edited', { file: '/repo/src/app.ts' });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onChangedMock.mock.calls[0][0]).toMatchObject({
+      files: [{ file: 'src/app.ts' }],
+      additions: 0,
+      deletions: 0,
+    });
+  });
+
+  it('should not emit when nothing changed', async () => {
+    await send('message.updated', { info: { id: 'msg_1', sessionID: 'ses_1', role: 'assistant' } });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onChangedMock).not.toHaveBeenCalled();
+  });
+
+  it('should attach a truncated git diff when enabled', async () => {
+    const diff = ['diff --git a/a.ts b/a.ts', '--- a/a.ts', '+++ b/a.ts', '@@ -1 +1,2 @@', ' x', '+y', ''].join('\n');
+    const shell = jest.fn().mockReturnValue({
+      quiet: () => ({ nothrow: async () => ({ exitCode: 0, text: () => diff }) }),
+    });
+    tracker = new ChangeTracker({
+      context: { ...context, $: shell },
+      config: { diff: true, maxDiffBytes: 40 },
+      onChanged: onChangedMock,
+    });
+
+    await editPart('prt_1', '/repo/a.ts');
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    const args = shell.mock.calls[0].slice(1);
+    expect(args).toEqual(['/repo', ['a.ts']]);
+    expect(onChangedMock.mock.calls[0][0]).toMatchObject({
+      diff: 'diff --git a/a.ts b/a.ts\n--- a/a.ts\n',
+      diffTruncated: true,
+    });
+  });
+
+  it('should leave the diff out when git fails', async () => {
+    const shell = jest.fn().mockReturnValue({
+      quiet: () => ({ nothrow: async () => ({ exitCode: 128, text: () => '' }) }),
+    });
+    tracker = new ChangeTracker({ context: { ...context, $: shell }, config: { diff: true }, onChanged: onChangedMock });
+
+    await editPart('prt_1', '/repo/a.ts');
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onChangedMock.mock.calls[0][0].diff).toBeUndefined();
+  });
+
+  it('should forget deleted sessions', async () => {
+    await editPart('prt_1', '/repo/a.ts');
+    await send('session.deleted', { info: { id: 'ses_1' } });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onChangedMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Tests for loading declarative configuration files
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadConfigFile,
+  parseConfigFile,
+  findConfigFile,
+  ConfigFileError,
+} from '../src/config-file.js';
+
+describe('config file', () => {
+  let tmpDir: string;
+  let projectDir: string;
+  let globalDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'opencode-webhooks-'));
+    projectDir = path.join(tmpDir, 'project');
+    globalDir = path.join(tmpDir, 'global');
+    await fs.mkdir(path.join(projectDir, '.opencode'), { recursive: true });
+    await fs.mkdir(globalDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const minimal = {
+    webhooks: [{ url: 'https://example.com/webhook', events: ['session.idle'] }],
+  };
+
+  describe('findConfigFile', () => {
+    it('should prefer the project directory over the global directory', async () => {
+      await fs.writeFile(path.join(globalDir, 'opencode-webhooks.json'), '{}');
+      await fs.writeFile(path.join(projectDir, '.opencode', 'opencode-webhooks.yaml'), '');
+
+      expect(await findConfigFile({ directory: projectDir, globalDirectory: globalDir }))
+        .toBe(path.join(projectDir, '.opencode', 'opencode-webhooks.yaml'));
+    });
+
+    it('should fall back to the global directory', async () => {
+      await fs.writeFile(path.join(globalDir, 'opencode-webhooks.yml'), '');
+
+      expect(await findConfigFile({ directory: projectDir, globalDirectory: globalDir }))
+        .toBe(path.join(globalDir, 'opencode-webhooks.yml'));
+    });
+
+    it('should return undefined when nothing is found', async () => {
+      expect(await findConfigFile({ directory: projectDir, globalDirectory: globalDir })).toBeUndefined();
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should load a JSON file', async () => {
+      await fs.writeFile(path.join(projectDir, 'opencode-webhooks.json'), JSON.stringify(minimal));
+
+      const config = await loadConfigFile({ directory: projectDir, globalDirectory: globalDir });
+
+      expect(config).toEqual(minimal);
+    });
+
+    it('should load a YAML file', async () => {
+      await fs.writeFile(
+        path.join(projectDir, 'opencode-webhooks.yaml'),
+        [
+          'debug: true',
+          'webhooks:',
+          '  - url: https://example.com/webhook',
+          '    events: [session.idle, session.error]',
+          '    preset: slack',
+        ].join('\n')
+      );
+
+      const config = await loadConfigFile({ directory: projectDir, globalDirectory: globalDir });
+
+      expect(config).toEqual({
+        debug: true,
+        webhooks: [
+          {
+            url: 'https://example.com/webhook',
+            events: ['session.idle', 'session.error'],
+            preset: 'slack',
+          },
+        ],
+      });
+    });
+
+    it('should return undefined when no file exists', async () => {
+      expect(await loadConfigFile({ directory: projectDir, globalDirectory: globalDir })).toBeUndefined();
+    });
+
+    it('should fail when an explicit path does not exist', async () => {
+      await expect(loadConfigFile({ path: path.join(tmpDir, 'missing.json') }))
+        .rejects.toBeInstanceOf(ConfigFileError);
+    });
+  });
+
+  describe('parseConfigFile', () => {
+    it('should reject invalid configuration with every schema error', () => {
+      expect(() => parseConfigFile(JSON.stringify({ webhooks: [{ url: 'x' }], extra: 1 }), 'config.json'))
+        .toThrow(/\$\.webhooks\[0\]\.events is required[\s\S]*\$\.extra is not a recognised option/);
+    });
+
+    it('should reject unparseable files', () => {
+      expect(() => parseConfigFile('{ nope', 'config.json')).toThrow(ConfigFileError);
+    });
+
+    it('should substitute environment variables', () => {
+      process.env.OPENCODE_WEBHOOKS_TEST_TOKEN = 'secret-token';
+      try {
+        const config = parseConfigFile(
+          JSON.stringify({
+            webhooks: [{
+              url: 'https://example.com/webhook',
+              events: ['session.idle'],
+              headers: { Authorization: 'Bearer ${OPENCODE_WEBHOOKS_TEST_TOKEN}' },
+            }],
+          }),
+          'config.json'
+        );
+
+        expect(config.webhooks[0].headers).toEqual({ Authorization: 'Bearer secret-token' });
+      } finally {
+        delete process.env.OPENCODE_WEBHOOKS_TEST_TOKEN;
+      }
+    });
+
+    it('should report missing environment variables', () => {
+      expect(() => parseConfigFile(
+        JSON.stringify({
+          webhooks: [{ url: '${OPENCODE_WEBHOOKS_UNSET_URL}', events: ['session.idle'] }],
+        }),
+        'config.json'
+      )).toThrow(/OPENCODE_WEBHOOKS_UNSET_URL/);
+    });
+
+    it('should pass filters through to the webhook config', () => {
+      const filter = {
+        all: [
+          { field: 'properties.info.role', equals: 'assistant' },
+          { field: 'sessionId', in: ['session-1', 'session-2'] },
+        ],
+      };
+      const config = parseConfigFile(
+        JSON.stringify({
+          webhooks: [{ url: 'https://example.com/webhook', events: ['session.idle'], filter }],
+        }),
+        'config.json'
+      );
+
+      expect(config.webhooks[0].filter).toEqual(filter);
+      expect(config.webhooks[0].shouldSend).toBeUndefined();
+    });
+
+    it('should reject filters with invalid regular expressions', () => {
+      expect(() => parseConfigFile(
+        JSON.stringify({
+          webhooks: [{
+            url: 'https://example.com/webhook',
+            events: ['session.idle'],
+            filter: { field: 'messageContent', matches: '/(unclosed/i' },
+          }],
+        }),
+        'config.json'
+      )).toThrow(/\$\.webhooks\[0\]\.filter: Invalid regular expression/);
+    });
+
+    it('should pass templates through to the webhook config', () => {
+      const template = {
+        text: 'Session {{ sessionId }} used {{tokens.output | number}} tokens',
+        output: '{{tokens.output}}',
+      };
+      const config = parseConfigFile(
+        JSON.stringify({
+          webhooks: [{
+            url: 'https://example.com/webhook',
+            events: ['session.idle'],
+            template,
+          }],
+        }),
+        'config.json'
+      );
+
+      expect(config.webhooks[0].template).toEqual(template);
+      expect(config.webhooks[0].transformPayload).toBeUndefined();
+    });
+
+    it('should reject templates with unknown filters', () => {
+      expect(() => parseConfigFile(
+        JSON.stringify({
+          webhooks: [{
+            url: 'https://example.com/webhook',
+            events: ['session.idle'],
+            template: { text: '{{messageContent | shout}}' },
+          }],
+        }),
+        'config.json'
+      )).toThrow(/\$\.webhooks\[0\]\.template: Unknown filter "shout"/);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the configuration file JSON schema
+ */
+
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { configSchema, validateAgainstSchema } from '../src/config-schema.js';
+
+describe('configSchema', () => {
+  it('should match the published schema file', () => {
+    const published = JSON.parse(
+      readFileSync(path.join(__dirname, '..', 'schema', 'opencode-webhooks.schema.json'), 'utf8')
+    );
+
+    expect(published).toEqual(configSchema);
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('should accept a complete configuration', () => {
+    const errors = validateAgainstSchema({
+      $schema: './node_modules/opencode-webhooks/schema/opencode-webhooks.schema.json',
+      debug: true,
+      defaultTimeoutMs: 5000,
+      defaultRetry: { maxAttempts: 3, delayMs: 1000 },
+      outbox: {},
+      webhooks: [
+        {
+          url: 'https://example.com/webhook',
+          events: ['session.idle'],
+          method: 'PUT',
+          headers: { Authorization: 'Bearer token' },
+          preset: 'discord',
+          filter: {
+            all: [
+              { field: 'properties.info.role', equals: 'assistant' },
+              { any: [{ field: 'cost', gt: 0.5 }, { not: { field: 'properties.file', glob: 'src/**' } }] },
+            ],
+          },
+          template: { text: '{{eventType}}', nested: [1, true] },
+          rateLimit: { maxRequests: 10, windowMs: 60000, batch: true },
+          signing: { secret: 'shh', algorithm: 'sha512' },
+        },
+      ],
+    });
+
+    expect(errors).toEqual([]);
+  });
+
+  it('should require webhooks with a url and events', () => {
+    expect(validateAgainstSchema({})).toEqual(['$.webhooks is required']);
+    expect(validateAgainstSchema({ webhooks: [{ url: '' }] })).toEqual([
+      '$.webhooks[0].events is required',
+      '$.webhooks[0].url must not be empty',
+    ]);
+  });
+
+  it('should report unknown options and wrong types with their location', () => {
+    const errors = validateAgainstSchema({
+      webhooks: [
+        {
+          url: 'https://example.com',
+          events: ['session.idle'],
+          method: 'GET',
+          timeoutMs: '5s',
+          shouldSend: 'nope',
+        },
+      ],
+    });
+
+    expect(errors).toEqual([
+      '$.webhooks[0].method must be one of "POST", "PUT", "PATCH"',
+      '$.webhooks[0].timeoutMs must be of type integer',
+      '$.webhooks[0].shouldSend is not a recognised option',
+    ]);
+  });
+
+  it('should validate filters', () => {
+    const webhook = { url: 'https://example.com', events: ['*'] };
+
+    expect(validateAgainstSchema({
+      webhooks: [{ ...webhook, filter: { field: 'cost', gt: '1' } }],
+    })).toEqual(['$.webhooks[0].filter does not match any allowed form']);
+    expect(validateAgainstSchema({
+      webhooks: [{ ...webhook, filter: { not: { cost: { gt: 1 } } } }],
+    })).toEqual(['$.webhooks[0].filter does not match any allowed form']);
+  });
+});
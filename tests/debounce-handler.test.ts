@@ -0,0 +1,151 @@
+/**
+ * Tests for debouncing and coalescing
+ */
+
+import { DebounceHandler, mergePayloads } from '../src/debounce-handler.js';
+import { WebhookConfig, BaseEventPayload, OpencodeEventType, DebounceConfig } from '../src/types.js';
+
+const partUpdate = (sessionId: string, text: string, timestamp = '2025-01-01T00:00:00.000Z'): BaseEventPayload => ({
+  timestamp,
+  eventType: OpencodeEventType.MESSAGE_PART_UPDATED,
+  sessionId,
+  properties: { part: { id: 'prt_1', type: 'text', text } },
+});
+
+describe('DebounceHandler', () => {
+  let mockSendCallback: jest.Mock;
+
+  const createHandler = (debounce: DebounceConfig) => {
+    const config: WebhookConfig = {
+      url: 'https://example.com/webhook',
+      events: [OpencodeEventType.MESSAGE_PART_UPDATED],
+      debounce,
+    };
+    return new DebounceHandler(config, mockSendCallback);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockSendCallback = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send only the latest event once the quiet period passes', async () => {
+    const handler = createHandler({ waitMs: 500 });
+
+    handler.addEvent(partUpdate('ses_1', 'Hel'));
+    await jest.advanceTimersByTimeAsync(300);
+    handler.addEvent(partUpdate('ses_1', 'Hello'));
+    await jest.advanceTimersByTimeAsync(300);
+    handler.addEvent(partUpdate('ses_1', 'Hello world'));
+
+    expect(handler.size).toBe(3);
+    expect(mockSendCallback).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(mockSendCallback).toHaveBeenCalledTimes(1);
+    expect(mockSendCallback.mock.calls[0][0].properties.part.text).toBe('Hello world');
+    expect(handler.size).toBe(0);
+  });
+
+  it('should keep separate groups per session and event type', async () => {
+    const handler = createHandler({ waitMs: 500 });
+
+    handler.addEvent(partUpdate('ses_1', 'one'));
+    handler.addEvent(partUpdate('ses_2', 'two'));
+    handler.addEvent({ timestamp: '2025-01-01T00:00:00.000Z', eventType: 'session.idle', sessionId: 'ses_1' });
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(mockSendCallback).toHaveBeenCalledTimes(3);
+  });
+
+  it('should group by custom key fields', async () => {
+    const handler = createHandler({ waitMs: 500, key: ['eventType'] });
+
+    handler.addEvent(partUpdate('ses_1', 'one'));
+    handler.addEvent(partUpdate('ses_2', 'two'));
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(mockSendCallback).toHaveBeenCalledTimes(1);
+    expect(mockSendCallback.mock.calls[0][0].sessionId).toBe('ses_2');
+  });
+
+  it('should send after maxWaitMs even while events keep arriving', async () => {
+    const handler = createHandler({ waitMs: 500, maxWaitMs: 1000 });
+
+    for (let i = 0; i < 6; i++) {
+      handler.addEvent(partUpdate('ses_1', `chunk ${i}`));
+      await jest.advanceTimersByTimeAsync(250);
+    }
+
+    expect(mockSendCallback).toHaveBeenCalledTimes(1);
+    expect(mockSendCallback.mock.calls[0][0].properties.part.text).toBe('chunk 3');
+  });
+
+  it('should deep-merge held events in merge mode', async () => {
+    const handler = createHandler({ waitMs: 500, merge: 'merge' });
+
+    handler.addEvent({ timestamp: 't1', eventType: 'x', sessionId: 'ses_1', properties: { a: 1, nested: { b: 1 }, list: [1] } });
+    handler.addEvent({ timestamp: 't2', eventType: 'x', sessionId: 'ses_1', properties: { nested: { c: 2 }, list: [2] } });
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(mockSendCallback).toHaveBeenCalledWith({
+      timestamp: 't2',
+      eventType: 'x',
+      sessionId: 'ses_1',
+      properties: { a: 1, nested: { b: 1, c: 2 }, list: [2] },
+    });
+  });
+
+  it('should use a custom merge function', async () => {
+    const handler = createHandler({
+      waitMs: 500,
+      merge: (payloads) => ({ ...payloads[0], count: payloads.length }),
+    });
+
+    handler.addEvent(partUpdate('ses_1', 'a', 't1'));
+    handler.addEvent(partUpdate('ses_1', 'b', 't2'));
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(mockSendCallback.mock.calls[0][0]).toMatchObject({ timestamp: 't1', count: 2 });
+  });
+
+  it('should flush held events on demand and on destroy', async () => {
+    const handler = createHandler({ waitMs: 500 });
+
+    handler.addEvent(partUpdate('ses_1', 'a'));
+    await handler.flushAll();
+    expect(mockSendCallback).toHaveBeenCalledTimes(1);
+
+    handler.addEvent(partUpdate('ses_1', 'b'));
+    await handler.destroy();
+    expect(mockSendCallback).toHaveBeenCalledTimes(2);
+    expect(mockSendCallback.mock.calls[1][0].properties.part.text).toBe('b');
+    expect(handler.size).toBe(0);
+
+    // Nothing is sent twice once the quiet period would have passed
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(mockSendCallback).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not throw when sending fails', async () => {
+    mockSendCallback.mockRejectedValue(new Error('boom'));
+    const handler = createHandler({ waitMs: 100 });
+
+    handler.addEvent(partUpdate('ses_1', 'a'));
+    await expect(jest.advanceTimersByTimeAsync(100)).resolves.toBeUndefined();
+  });
+});
+
+describe('mergePayloads', () => {
+  it('should let later payloads win', () => {
+    expect(mergePayloads([
+      { timestamp: 't1', eventType: 'x', tokens: { input: 1, output: 2 } },
+      { timestamp: 't2', eventType: 'x', tokens: { output: 5 } },
+    ])).toEqual({ timestamp: 't2', eventType: 'x', tokens: { input: 1, output: 5 } });
+  });
+});
@@ -0,0 +1,152 @@
+import { DiagnosticsAggregator } from '../src/diagnostics';
+import { normalizeEvent } from '../src/normalize';
+import { DiagnosticsChangedPayload, DIAGNOSTICS_CHANGED_EVENT, PluginContext } from '../src/types';
+
+const error = (line: number, message: string) => ({
+  range: { start: { line: line - 1, character: 0 }, end: { line: line - 1, character: 1 } },
+  severity: 1,
+  message,
+  source: 'ts',
+});
+const warning = (line: number, message: string) => ({ ...error(line, message), severity: 2 });
+
+describe('DiagnosticsAggregator', () => {
+  let onChangedMock: jest.Mock;
+  let aggregator: DiagnosticsAggregator;
+
+  const context = { worktree: '/repo', directory: '/repo' } as PluginContext;
+
+  const send = (type: string, properties: Record<string, any>) =>
+    aggregator.handleEvent(normalizeEvent({ type, properties }));
+
+  /** An edit tool call, with the diagnostics OpenCode attaches to its result */
+  const edit = (id: string, filePath: string, diagnostics: Record<string, any[]>) =>
+    send('message.part.updated', {
+      part: {
+        id,
+        sessionID: 'ses_1',
+        messageID: 'msg_1',
+        type: 'tool',
+        tool: 'edit',
+        callID: `call_${id}`,
+        state: { status: 'completed', input: { filePath }, metadata: { diagnostics } },
+      },
+    });
+
+  const settle = () => jest.advanceTimersByTimeAsync(2000);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00.000Z') });
+    onChangedMock = jest.fn().mockResolvedValue(undefined);
+    aggregator = new DiagnosticsAggregator({ context, onChanged: onChangedMock });
+  });
+
+  afterEach(() => {
+    aggregator.destroy();
+    jest.useRealTimers();
+  });
+
+  it('should report new errors in a file the agent edited, once diagnostics settle', async () => {
+    await edit('prt_1', '/repo/src/a.ts', { '/repo/src/a.ts': [error(3, 'Cannot find name x'), warning(9, 'Unused')] });
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChangedMock).not.toHaveBeenCalled();
+
+    await settle();
+    expect(onChangedMock).toHaveBeenCalledTimes(1);
+    const payload: DiagnosticsChangedPayload = onChangedMock.mock.calls[0][0];
+    expect(payload).toMatchObject({
+      eventType: DIAGNOSTICS_CHANGED_EVENT,
+      sessionId: 'ses_1',
+      reasons: ['errors_threshold', 'new_errors'],
+      errors: 1,
+      warnings: 1,
+      previousErrors: 0,
+      previousWarnings: 0,
+      files: [{ file: 'src/a.ts', errors: 1, warnings: 1 }],
+      newErrors: [{ file: 'src/a.ts', line: 3, message: 'Cannot find name x', source: 'ts' }],
+    });
+  });
+
+  it('should debounce bursts of updates into one report', async () => {
+    await edit('prt_1', '/repo/src/a.ts', { '/repo/src/a.ts': [error(1, 'one')] });
+    await jest.advanceTimersByTimeAsync(1500);
+    await edit('prt_2', '/repo/src/a.ts', { '/repo/src/a.ts': [error(1, 'one'), error(2, 'two')] });
+    await settle();
+
+    expect(onChangedMock).toHaveBeenCalledTimes(1);
+    expect(onChangedMock.mock.calls[0][0].newErrors.map((e: any) => e.message)).toEqual(['one', 'two']);
+  });
+
+  it('should report when the errors are fixed', async () => {
+    await edit('prt_1', '/repo/src/a.ts', { '/repo/src/a.ts': [error(1, 'one')] });
+    await settle();
+    await edit('prt_2', '/repo/src/a.ts', { '/repo/src/a.ts': [] });
+    await settle();
+
+    expect(onChangedMock).toHaveBeenCalledTimes(2);
+    expect(onChangedMock.mock.calls[1][0]).toMatchObject({
+      reasons: ['errors_threshold'],
+      errors: 0,
+      previousErrors: 1,
+      files: [],
+      newErrors: [],
+    });
+  });
+
+  it('should stay quiet when known errors remain and nothing crosses a threshold', async () => {
+    await edit('prt_1', '/repo/src/a.ts', { '/repo/src/a.ts': [error(1, 'one')] });
+    await settle();
+    await edit('prt_2', '/repo/src/a.ts', { '/repo/src/a.ts': [error(1, 'one'), warning(2, 'unused')] });
+    await settle();
+
+    expect(onChangedMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not count errors in files the agent did not edit recently as new', async () => {
+    aggregator = new DiagnosticsAggregator({
+      context,
+      config: { errorThreshold: 10 },
+      onChanged: onChangedMock,
+    });
+
+    // a.ts is edited; b.ts only shows up in the diagnostics
+    await edit('prt_1', '/repo/src/a.ts', { '/repo/src/a.ts': [], '/repo/src/b.ts': [error(1, 'old')] });
+    await settle();
+    expect(onChangedMock).not.toHaveBeenCalled();
+
+    await send('lsp.client.diagnostics', { serverID: 'ts', path: '/repo/src/a.ts', diagnostics: [error(4, 'broken')] });
+    await settle();
+    expect(onChangedMock).toHaveBeenCalledTimes(1);
+    expect(onChangedMock.mock.calls[0][0]).toMatchObject({
+      reasons: ['new_errors'],
+      errors: 2,
+      newErrors: [{ file: 'src/a.ts', line: 4, message: 'broken' }],
+    });
+
+    // Once the edit is old, new errors in the file are not the agent's
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+    await send('lsp.client.diagnostics', { serverID: 'ts', path: '/repo/src/a.ts', diagnostics: [error(4, 'broken'), error(5, 'more')] });
+    await settle();
+    expect(onChangedMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report warnings crossing their threshold when one is set', async () => {
+    aggregator = new DiagnosticsAggregator({
+      context,
+      config: { warningThreshold: 2, debounceMs: 100 },
+      onChanged: onChangedMock,
+    });
+
+    await send('lsp.client.diagnostics', { serverID: 'ts', path: 'src/a.ts', diagnostics: [warning(1, 'a'), warning(2, 'b')] });
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(onChangedMock.mock.calls[0][0]).toMatchObject({ reasons: ['warnings_threshold'], warnings: 2 });
+  });
+
+  it('should ignore diagnostics events that only name the file', async () => {
+    await send('lsp.client.diagnostics', { serverID: 'ts', path: '/repo/src/a.ts' });
+    await settle();
+
+    expect(onChangedMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for the Discord formatter preset
+ */
+
+import { discordFormatter } from '../src/discord-formatter.js';
+import { BaseEventPayload, AGENT_COMPLETED_EVENT, OpencodeEventType } from '../src/types.js';
+
+describe('discordFormatter', () => {
+  const completed: BaseEventPayload = {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    eventType: AGENT_COMPLETED_EVENT,
+    sessionId: 'session-123',
+    sessionTitle: 'Fix login bug',
+    messageContent: 'Fixed the redirect and added tests.',
+    tokens: { input: 1500, output: 800, reasoning: 0 },
+    cost: 0.0275,
+  };
+
+  it('should render agent.completed as an embed', () => {
+    const message = discordFormatter()(completed);
+
+    expect(message.content).toBe('✅ Agent completed');
+    expect(message.embeds).toHaveLength(1);
+    expect(message.embeds[0]).toMatchObject({
+      title: '✅ Fix login bug',
+      description: 'Fixed the redirect and added tests.',
+      color: 0x2ecc71,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      footer: { text: 'Agent completed' },
+    });
+    expect(message.embeds[0].fields).toEqual([
+      { name: 'Tokens', value: '1,500 in · 800 out', inline: true },
+      { name: 'Cost', value: '$0.0275', inline: true },
+      { name: 'Session', value: '`session-123`', inline: true },
+    ]);
+  });
+
+  it('should colour errors red', () => {
+    const message = discordFormatter()({
+      timestamp: '2025-01-01T00:00:00.000Z',
+      eventType: OpencodeEventType.SESSION_ERROR,
+      properties: { error: { name: 'UnknownError', data: { message: 'boom' } } },
+    });
+
+    expect(message.embeds[0].color).toBe(0xe74c3c);
+    expect(message.embeds[0].description).toBe('boom');
+  });
+
+  it('should keep the embed within the description and total limits', () => {
+    const message = discordFormatter()({
+      ...completed,
+      sessionTitle: 'T'.repeat(500),
+      messageContent: 'x'.repeat(10000),
+    });
+    const embed = message.embeds[0];
+
+    expect(embed.title).toHaveLength(256);
+    expect(embed.description).toHaveLength(4096);
+  });
+
+  it('should set the username when configured', () => {
+    expect(discordFormatter({ username: 'OpenCode' })(completed).username).toBe('OpenCode');
+  });
+});
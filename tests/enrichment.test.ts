@@ -0,0 +1,121 @@
+/**
+ * Tests for project, git and environment enrichment
+ */
+
+import * as os from 'os';
+import { ContextEnricher } from '../src/enrichment.js';
+import { BaseEventPayload, PluginContext } from '../src/types.js';
+
+describe('ContextEnricher', () => {
+  const gitOutput: Record<string, string> = {
+    'rev-parse --abbrev-ref HEAD': 'feature/webhooks\n',
+    'rev-parse HEAD': 'abc123def456\n',
+  };
+
+  let shellCalls: string[];
+  let sessionGet: jest.Mock;
+
+  /** Stand-in for the Bun shell: records commands and answers git queries */
+  const fakeShell = (_strings: TemplateStringsArray, directory: string, args: string[]) => {
+    const command = args.join(' ');
+    shellCalls.push(`${directory}: ${command}`);
+    return {
+      quiet: () => ({
+        nothrow: async () => ({
+          exitCode: command in gitOutput ? 0 : 128,
+          text: () => gitOutput[command] ?? '',
+        }),
+      }),
+    };
+  };
+
+  const createContext = (overrides: Partial<PluginContext> = {}): PluginContext => ({
+    project: { id: 'project-1', vcs: 'git' },
+    directory: '/work/tree/packages/app',
+    worktree: '/work/tree',
+    client: { session: { get: sessionGet } },
+    $: fakeShell,
+    ...overrides,
+  });
+
+  const payload = (eventType: string, sessionId?: string): BaseEventPayload => ({
+    timestamp: '2025-01-01T00:00:00.000Z',
+    eventType,
+    sessionId,
+  });
+
+  beforeEach(() => {
+    shellCalls = [];
+    sessionGet = jest.fn().mockResolvedValue({ data: { id: 'ses_1', version: '1.0.81' } });
+  });
+
+  it('should collect project, git and environment context', async () => {
+    const enricher = new ContextEnricher(createContext());
+
+    expect(await enricher.enrich(payload('session.idle', 'ses_1'))).toEqual({
+      project: { id: 'project-1' },
+      directory: '/work/tree/packages/app',
+      worktree: '/work/tree',
+      git: { branch: 'feature/webhooks', commit: 'abc123def456' },
+      hostname: os.hostname(),
+      opencodeVersion: '1.0.81',
+    });
+    expect(shellCalls).toEqual([
+      '/work/tree: rev-parse --abbrev-ref HEAD',
+      '/work/tree: rev-parse HEAD',
+    ]);
+    expect(sessionGet).toHaveBeenCalledWith({ path: { id: 'ses_1' } });
+  });
+
+  it('should collect context once per session', async () => {
+    const enricher = new ContextEnricher(createContext());
+
+    await Promise.all([
+      enricher.enrich(payload('message.part.updated', 'ses_1')),
+      enricher.enrich(payload('message.part.updated', 'ses_1')),
+    ]);
+    await enricher.enrich(payload('message.part.updated', 'ses_1'));
+    expect(shellCalls).toHaveLength(2);
+    expect(sessionGet).toHaveBeenCalledTimes(1);
+
+    await enricher.enrich(payload('message.part.updated', 'ses_2'));
+    expect(shellCalls).toHaveLength(4);
+  });
+
+  it('should collect again after a session is deleted', async () => {
+    const enricher = new ContextEnricher(createContext());
+
+    await enricher.enrich(payload('session.idle', 'ses_1'));
+    await enricher.enrich(payload('session.deleted', 'ses_1'));
+    await enricher.enrich(payload('session.created', 'ses_1'));
+
+    expect(sessionGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('should respect disabled git and hostname options', async () => {
+    const enricher = new ContextEnricher(createContext(), { git: false, hostname: false });
+    const context = await enricher.enrich(payload('session.idle', 'ses_1'));
+
+    expect(context.git).toBeUndefined();
+    expect(context.hostname).toBeUndefined();
+    expect(shellCalls).toHaveLength(0);
+  });
+
+  it('should skip git for other version control systems and tolerate failures', async () => {
+    const noGit = new ContextEnricher(createContext({ project: { id: 'project-1', vcs: 'hg' } }));
+    expect((await noGit.enrich(payload('file.edited'))).git).toBeUndefined();
+    expect(shellCalls).toHaveLength(0);
+
+    sessionGet.mockRejectedValue(new Error('offline'));
+    const failing = new ContextEnricher(createContext({
+      $: () => {
+        throw new Error('git not installed');
+      },
+    }));
+    const context = await failing.enrich(payload('session.idle', 'ses_1'));
+
+    expect(context.git).toBeUndefined();
+    expect(context.opencodeVersion).toBeUndefined();
+    expect(context.project).toEqual({ id: 'project-1' });
+  });
+});
@@ -0,0 +1,158 @@
+import { ErrorMiddleware, classifyError } from '../src/error-middleware';
+import { normalizeEvent } from '../src/normalize';
+import { AgentFailedPayload, AGENT_FAILED_EVENT } from '../src/types';
+
+describe('classifyError', () => {
+  it.each([
+    [{ name: 'ProviderAuthError', data: { providerID: 'anthropic', message: 'Missing key' } }, 'provider_auth', 'critical'],
+    [{ name: 'APIError', data: { message: 'Invalid x-api-key', statusCode: 401 } }, 'provider_auth', 'critical'],
+    [{ name: 'APIError', data: { message: 'Too Many Requests', statusCode: 429 } }, 'rate_limit', 'warning'],
+    [{ name: 'APIError', data: { message: 'Overloaded' } }, 'rate_limit', 'warning'],
+    [{ name: 'APIError', data: { message: 'prompt is too long: 210000 tokens > 200000 maximum' } }, 'context_overflow', 'error'],
+    [{ name: 'UnknownError', data: { message: "This model's maximum context length is 128000 tokens" } }, 'context_overflow', 'error'],
+    [{ name: 'MessageOutputLengthError', data: {} }, 'output_length', 'warning'],
+    [{ name: 'MessageAbortedError', data: { message: 'Aborted' } }, 'aborted', 'info'],
+    [{ name: 'APIError', data: { message: 'Internal server error', statusCode: 500 } }, 'api', 'error'],
+    [{ name: 'UnknownError', data: { message: 'Something broke' } }, 'unknown', 'error'],
+    [undefined, 'unknown', 'error'],
+  ])('should classify %j', (error, category, severity) => {
+    expect(classifyError(error as any)).toEqual({ category, severity });
+  });
+
+  it('should blame a failed tool when nothing else explains the error', () => {
+    const failedTool = { name: 'bash', error: 'exit code 1' };
+
+    expect(classifyError({ name: 'UnknownError', data: { message: 'Something broke' } }, failedTool).category)
+      .toBe('tool_failure');
+    expect(classifyError({ name: 'APIError', data: { statusCode: 429 } }, failedTool).category)
+      .toBe('rate_limit');
+  });
+});
+
+describe('ErrorMiddleware', () => {
+  let onFailedMock: jest.Mock;
+  let middleware: ErrorMiddleware;
+
+  const send = (type: string, properties: Record<string, any>) =>
+    middleware.handleEvent(normalizeEvent({ type, properties }));
+
+  const textPart = (id: string, messageID: string, text: string) =>
+    send('message.part.updated', { part: { id, sessionID: 'ses_1', messageID, type: 'text', text } });
+
+  const toolPart = (callID: string, status: string, extra: Record<string, any> = {}) =>
+    send('message.part.updated', {
+      part: {
+        id: `prt_${callID}`,
+        sessionID: 'ses_1',
+        messageID: 'msg_a1',
+        type: 'tool',
+        tool: 'bash',
+        callID,
+        state: { status, input: { command: 'npm test' }, ...extra },
+      },
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00.000Z') });
+    onFailedMock = jest.fn().mockResolvedValue(undefined);
+    middleware = new ErrorMiddleware({
+      context: {
+        project: { id: 'project-1' },
+        directory: '/work/my-app',
+        worktree: '/work/my-app',
+        client: { session: { get: jest.fn().mockResolvedValue({ title: 'Fix tests' }) } },
+        $: undefined,
+      },
+      onFailed: onFailedMock,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should emit agent.failed with the last assistant text and failing tool', async () => {
+    await send('message.updated', { info: { id: 'msg_u1', sessionID: 'ses_1', role: 'user' } });
+    await send('message.updated', { info: { id: 'msg_a1', sessionID: 'ses_1', role: 'assistant' } });
+    await textPart('prt_1', 'msg_a1', 'Running the tests ');
+    await textPart('prt_2', 'msg_a1', 'now.');
+    await toolPart('call_1', 'error', { error: 'Command timed out' });
+    await send('session.error', {
+      sessionID: 'ses_1',
+      error: { name: 'UnknownError', data: { message: 'Tool execution aborted' } },
+    });
+
+    expect(onFailedMock).toHaveBeenCalledTimes(1);
+    const payload: AgentFailedPayload = onFailedMock.mock.calls[0][0];
+    expect(payload).toEqual({
+      timestamp: '2025-01-01T00:00:00.000Z',
+      eventType: AGENT_FAILED_EVENT,
+      sessionId: 'ses_1',
+      sessionTitle: 'Fix tests',
+      category: 'tool_failure',
+      severity: 'error',
+      errorName: 'UnknownError',
+      message: 'Tool execution aborted',
+      statusCode: undefined,
+      providerId: undefined,
+      retryable: undefined,
+      lastAssistantMessage: 'Running the tests now.',
+      failedTool: { name: 'bash', callId: 'call_1', error: 'Command timed out', input: { command: 'npm test' } },
+    });
+  });
+
+  it('should include provider details from API errors', async () => {
+    await send('session.error', {
+      sessionID: 'ses_1',
+      error: {
+        name: 'APIError',
+        data: { message: 'Rate limit reached', statusCode: 429, isRetryable: true, providerID: 'openai' },
+      },
+    });
+
+    expect(onFailedMock).toHaveBeenCalledWith(expect.objectContaining({
+      category: 'rate_limit',
+      severity: 'warning',
+      statusCode: 429,
+      retryable: true,
+      providerId: 'openai',
+    }));
+  });
+
+  it('should only quote the latest assistant message and forget tool failures from earlier turns', async () => {
+    await send('message.updated', { info: { id: 'msg_a1', sessionID: 'ses_1', role: 'assistant' } });
+    await textPart('prt_1', 'msg_a1', 'First answer');
+    await toolPart('call_1', 'error', { error: 'boom' });
+
+    await send('message.updated', { info: { id: 'msg_u2', sessionID: 'ses_1', role: 'user' } });
+    await textPart('prt_u', 'msg_u2', 'User text is not quoted');
+    await send('message.updated', { info: { id: 'msg_a2', sessionID: 'ses_1', role: 'assistant' } });
+    await textPart('prt_2', 'msg_a2', 'Second answer');
+    await send('session.error', { sessionID: 'ses_1', error: { name: 'UnknownError', data: { message: 'Oops' } } });
+
+    const payload: AgentFailedPayload = onFailedMock.mock.calls[0][0];
+    expect(payload.lastAssistantMessage).toBe('Second answer');
+    expect(payload.failedTool).toBeUndefined();
+    expect(payload.category).toBe('unknown');
+  });
+
+  it('should clear a tool failure once the same call succeeds', async () => {
+    await toolPart('call_1', 'error', { error: 'flaky' });
+    await toolPart('call_1', 'completed');
+    await send('session.error', { sessionID: 'ses_1', error: { name: 'UnknownError', data: { message: 'Oops' } } });
+
+    expect(onFailedMock.mock.calls[0][0].failedTool).toBeUndefined();
+  });
+
+  it('should report errors without a session', async () => {
+    await send('session.error', { error: { name: 'ProviderAuthError', data: { providerID: 'anthropic', message: 'No key' } } });
+
+    expect(onFailedMock).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: undefined,
+      sessionTitle: undefined,
+      category: 'provider_auth',
+      severity: 'critical',
+      message: 'No key',
+    }));
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for wildcard event subscriptions
+ */
+
+import { EventMatcher, EventRouter } from '../src/event-matcher.js';
+
+describe('event matcher', () => {
+  describe('EventMatcher', () => {
+    it('should match exact event types', () => {
+      const matcher = new EventMatcher(['session.idle']);
+
+      expect(matcher.matches('session.idle')).toBe(true);
+      expect(matcher.matches('session.idle.extra')).toBe(false);
+      expect(matcher.matches('session.error')).toBe(false);
+    });
+
+    it('should match namespaces and everything', () => {
+      const sessions = new EventMatcher(['session.*']);
+      const parts = new EventMatcher(['message.part.*']);
+      const everything = new EventMatcher(['*']);
+
+      expect(sessions.matches('session.compacted')).toBe(true);
+      expect(sessions.matches('session.future.event')).toBe(true);
+      expect(sessions.matches('session')).toBe(false);
+      expect(sessions.matches('message.updated')).toBe(false);
+      expect(parts.matches('message.part.removed')).toBe(true);
+      expect(parts.matches('message.updated')).toBe(false);
+      expect(everything.matches('anything.at.all')).toBe(true);
+    });
+
+    it('should apply exclusions after inclusions', () => {
+      const matcher = new EventMatcher(['message.*', '!message.part.updated']);
+
+      expect(matcher.matches('message.updated')).toBe(true);
+      expect(matcher.matches('message.part.removed')).toBe(true);
+      expect(matcher.matches('message.part.updated')).toBe(false);
+    });
+
+    it('should treat a list of only exclusions as everything else', () => {
+      const matcher = new EventMatcher(['!message.part.*', '!lsp.*']);
+
+      expect(matcher.matches('session.idle')).toBe(true);
+      expect(matcher.matches('message.part.updated')).toBe(false);
+      expect(matcher.matches('lsp.updated')).toBe(false);
+    });
+
+    it('should match nothing for an empty list', () => {
+      expect(new EventMatcher([]).matches('session.idle')).toBe(false);
+    });
+
+    it('should escape regular expression characters', () => {
+      const matcher = new EventMatcher(['file.(edited)*']);
+
+      expect(matcher.matches('file.(edited)')).toBe(true);
+      expect(matcher.matches('file.edited')).toBe(false);
+    });
+  });
+
+  describe('EventRouter', () => {
+    it('should resolve subscribers in registration order', () => {
+      const router = new EventRouter<string>();
+      router.add(['session.*'], 'sessions');
+      router.add(['session.idle'], 'idle');
+      router.add(['*', '!session.idle'], 'others');
+
+      expect(router.resolve('session.idle')).toEqual(['sessions', 'idle']);
+      expect(router.resolve('session.error')).toEqual(['sessions', 'others']);
+      expect(router.resolve('file.edited')).toEqual(['others']);
+    });
+
+    it('should cache resolved event types and reset when subscribers change', () => {
+      const router = new EventRouter<string>();
+      router.add(['session.*'], 'sessions');
+
+      const first = router.resolve('session.idle');
+      expect(router.resolve('session.idle')).toBe(first);
+
+      router.add(['*'], 'everything');
+      expect(router.resolve('session.idle')).toEqual(['sessions', 'everything']);
+    });
+  });
+});
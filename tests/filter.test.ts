@@ -0,0 +1,112 @@
+/**
+ * Tests for declarative webhook filters
+ */
+
+import { compileFilter, FilterError, globToRegExp } from '../src/filter.js';
+import { BaseEventPayload, WebhookFilter } from '../src/types.js';
+
+describe('filter', () => {
+  const payload: BaseEventPayload = {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    eventType: 'file.edited',
+    sessionId: 'session-1',
+    cost: 0.1,
+    messageContent: 'Build ERROR in step 2',
+    files: ['src/a.ts'],
+    properties: { file: 'src/utils/helpers.ts' },
+  };
+
+  const evaluate = (filter: WebhookFilter) => compileFilter(filter)(payload);
+
+  describe('field filters', () => {
+    it('should match equality and membership', () => {
+      expect(evaluate({ field: 'sessionId', equals: 'session-1' }).matched).toBe(true);
+      expect(evaluate({ field: 'sessionId', notEquals: 'session-1' }).matched).toBe(false);
+      expect(evaluate({ field: 'eventType', in: ['file.edited', 'session.idle'] }).matched).toBe(true);
+      expect(evaluate({ field: 'eventType', notIn: ['file.edited'] }).matched).toBe(false);
+      expect(evaluate({ field: 'files', contains: 'src/a.ts' }).matched).toBe(true);
+      expect(evaluate({ field: 'missing', exists: false }).matched).toBe(true);
+    });
+
+    it('should compare numbers', () => {
+      expect(evaluate({ field: 'cost', gt: 0.5 }).matched).toBe(false);
+      expect(evaluate({ field: 'cost', gte: 0.1, lt: 1 }).matched).toBe(true);
+      expect(evaluate({ field: 'missing', lte: 1 }).matched).toBe(false);
+    });
+
+    it('should match globs and regular expressions', () => {
+      expect(evaluate({ field: 'properties.file', glob: 'src/**' }).matched).toBe(true);
+      expect(evaluate({ field: 'properties.file', glob: 'src/*.ts' }).matched).toBe(false);
+      expect(evaluate({ field: 'messageContent', matches: '/error/i' }).matched).toBe(true);
+      expect(evaluate({ field: 'messageContent', matches: 'error' }).matched).toBe(false);
+      expect(evaluate({ field: 'messageContent', matches: /step \d/ }).matched).toBe(true);
+    });
+
+    it('should explain why a field filter failed', () => {
+      expect(evaluate({ field: 'cost', gt: 0.5 })).toEqual({
+        matched: false,
+        reason: 'cost > 0.5 (was 0.1)',
+      });
+    });
+  });
+
+  describe('combinators', () => {
+    it('should require every filter in all', () => {
+      const outcome = evaluate({
+        all: [
+          { field: 'eventType', equals: 'file.edited' },
+          { field: 'properties.file', glob: 'test/**' },
+        ],
+      });
+
+      expect(outcome).toEqual({
+        matched: false,
+        reason: 'properties.file glob "test/**" (was "src/utils/helpers.ts")',
+      });
+    });
+
+    it('should require one filter in any', () => {
+      expect(evaluate({
+        any: [{ field: 'cost', gt: 0.5 }, { field: 'sessionId', equals: 'session-1' }],
+      })).toEqual({ matched: true, reason: 'sessionId == "session-1"' });
+
+      expect(evaluate({
+        any: [{ field: 'cost', gt: 0.5 }, { field: 'sessionId', equals: 'other' }],
+      })).toEqual({
+        matched: false,
+        reason: 'none of: cost > 0.5 (was 0.1); sessionId == "other" (was "session-1")',
+      });
+    });
+
+    it('should negate with not', () => {
+      expect(evaluate({ not: { field: 'messageContent', matches: '/error/i' } })).toEqual({
+        matched: false,
+        reason: 'not (messageContent matches "/error/i")',
+      });
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject unknown operators and missing fields', () => {
+      expect(() => compileFilter({ field: 'cost', above: 1 } as any)).toThrow(FilterError);
+      expect(() => compileFilter({ field: 'cost' })).toThrow(/No operator given for cost/);
+      expect(() => compileFilter({ equals: 1 } as any)).toThrow(/need a "field" path/);
+    });
+
+    it('should reject invalid operands', () => {
+      expect(() => compileFilter({ field: 'cost', gt: '1' as any })).toThrow(/expects a number/);
+      expect(() => compileFilter({ field: 'eventType', in: 'x' as any })).toThrow(/expects an array/);
+      expect(() => compileFilter({ field: 'x', matches: '/(/' })).toThrow(/Invalid regular expression/);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('should translate glob syntax', () => {
+      expect(globToRegExp('src/**/*.ts').test('src/index.ts')).toBe(true);
+      expect(globToRegExp('src/**/*.ts').test('src/a/b/c.ts')).toBe(true);
+      expect(globToRegExp('*.{ts,js}').test('index.js')).toBe(true);
+      expect(globToRegExp('*.{ts,js}').test('lib/index.js')).toBe(false);
+      expect(globToRegExp('file?.md').test('file1.md')).toBe(true);
+    });
+  });
+});
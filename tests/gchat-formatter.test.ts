@@ -0,0 +1,49 @@
+/**
+ * Tests for the Google Chat formatter preset
+ */
+
+import { gchatFormatter } from '../src/gchat-formatter.js';
+import { BaseEventPayload, AGENT_COMPLETED_EVENT, OpencodeEventType } from '../src/types.js';
+
+describe('gchatFormatter', () => {
+  const completed: BaseEventPayload = {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    eventType: AGENT_COMPLETED_EVENT,
+    sessionId: 'session-123',
+    sessionTitle: 'Fix login bug',
+    messageContent: 'Fixed <b>everything</b>',
+    tokens: { input: 1500, output: 800, reasoning: 0 },
+    cost: 0.0275,
+  };
+
+  it('should render a cardsV2 card with a text fallback', () => {
+    const message = gchatFormatter()(completed);
+
+    expect(message.text).toBe('✅ Fix login bug');
+    expect(message.cardsV2[0].cardId).toBe('opencode-agent.completed');
+    expect(message.cardsV2[0].card.header).toEqual({
+      title: 'Fix login bug',
+      subtitle: '✅ Agent completed',
+    });
+  });
+
+  it('should escape HTML in the body and add usage widgets', () => {
+    const widgets = gchatFormatter()(completed).cardsV2[0].card.sections[0].widgets;
+
+    expect(widgets).toEqual([
+      { textParagraph: { text: 'Fixed &lt;b&gt;everything&lt;/b&gt;' } },
+      { decoratedText: { topLabel: 'Tokens', text: '1,500 in · 800 out' } },
+      { decoratedText: { topLabel: 'Cost', text: '$0.0275' } },
+      { decoratedText: { topLabel: 'Session', text: 'session-123' } },
+    ]);
+  });
+
+  it('should render events without any details as a header-only card', () => {
+    const message = gchatFormatter()({
+      timestamp: '2025-01-01T00:00:00.000Z',
+      eventType: OpencodeEventType.SERVER_CONNECTED,
+    });
+
+    expect(message.cardsV2[0].card.sections).toEqual([]);
+  });
+});
@@ -1,5 +1,9 @@
-import { WebhookPlugin, createWebhookPlugin } from '../src/index';
+import { WebhookPlugin, createWebhookPlugin, createAgentNotificationPlugin } from '../src/index';
 import { WebhookClient } from '../src/webhook-client';
+import { DeliveryOutbox } from '../src/outbox';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
   OpencodeEventType,
   WebhookPluginConfig,
@@ -58,6 +62,47 @@ describe('WebhookPlugin', () => {
 
       expect(plugin).toBeDefined();
     });
+
+    it('should reject invalid templates at startup', () => {
+      const config: WebhookPluginConfig = {
+        webhooks: [
+          {
+            url: 'https://example.com/webhook',
+            events: [OpencodeEventType.SESSION_IDLE],
+            template: { text: '{{sessionId | shout}}' },
+          },
+        ],
+      };
+
+      expect(() => new WebhookPlugin(config)).toThrow(/Unknown filter "shout"/);
+    });
+
+    it('should send compiled templates as transformPayload', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [
+          {
+            url: 'https://example.com/webhook',
+            events: [OpencodeEventType.SESSION_IDLE],
+            template: { text: 'Idle: {{sessionId | upper}}' },
+          },
+        ],
+      });
+
+      await plugin.handleEvent(OpencodeEventType.SESSION_IDLE, { sessionId: 'abc' });
+
+      const [sentConfig, sentPayload] = mockSend.mock.calls[0];
+      expect(sentConfig.transformPayload(sentPayload)).toEqual({ text: 'Idle: ABC' });
+    });
   });
 
   describe('handleEvent', () => {
@@ -169,6 +214,35 @@ describe('WebhookPlugin', () => {
       expect(mockSend).toHaveBeenCalledTimes(3);
     });
 
+    it('should route wildcard and excluded event subscriptions', async () => {
+      const mockSend = jest.fn().mockImplementation(async (webhook) => ({
+        success: true,
+        webhookUrl: webhook.url,
+        statusCode: 200,
+        attempts: 1,
+      }));
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [
+          { url: 'https://example.com/sessions', events: ['session.*'] },
+          { url: 'https://example.com/all', events: ['*', '!message.part.updated'] },
+        ],
+      });
+
+      const sessionResults = await plugin.handleEvent('session.some_future_event', {});
+      expect(sessionResults.map((result) => result.webhookUrl)).toEqual([
+        'https://example.com/sessions',
+        'https://example.com/all',
+      ]);
+
+      expect(await plugin.handleEvent(OpencodeEventType.MESSAGE_PART_UPDATED, {})).toHaveLength(0);
+      expect(await plugin.handleEvent(OpencodeEventType.FILE_EDITED, {})).toHaveLength(1);
+    });
+
     it('should respect shouldSend filter function', async () => {
       const mockSend = jest.fn().mockResolvedValue({
         success: true,
@@ -204,9 +278,51 @@ describe('WebhookPlugin', () => {
       expect(shouldSend).toHaveBeenCalled();
       expect(results[0].success).toBe(true);
       expect(results[0].attempts).toBe(0); // Not sent
+      expect(results[0].skipReason).toBe('shouldSend returned false');
       expect(mockSend).not.toHaveBeenCalled();
     });
 
+    it('should skip webhooks whose filter does not match and record why', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [
+          {
+            url: 'https://example.com/webhook',
+            events: [OpencodeEventType.SESSION_IDLE],
+            filter: {
+              all: [
+                { field: 'sessionId', equals: 'test' },
+                { field: 'cost', gt: 0.5 },
+              ],
+            },
+          },
+        ],
+      });
+
+      const skipped = await plugin.handleEvent(OpencodeEventType.SESSION_IDLE, { sessionId: 'test', cost: 0.1 });
+      expect(skipped[0]).toMatchObject({
+        success: true,
+        attempts: 0,
+        skipped: true,
+        skipReason: 'filter: cost > 0.5 (was 0.1)',
+      });
+      expect(mockSend).not.toHaveBeenCalled();
+
+      const sent = await plugin.handleEvent(OpencodeEventType.SESSION_IDLE, { sessionId: 'test', cost: 0.9 });
+      expect(sent[0].skipped).toBeUndefined();
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
     it('should add timestamp to payload', async () => {
       const mockSend = jest.fn().mockResolvedValue({
         success: true,
@@ -353,6 +469,235 @@ describe('WebhookPlugin', () => {
       expect(results[0].success).toBe(false);
       expect(results[0].error).toContain('Network error');
     });
+
+    it('should coalesce events for a webhook with debounce', async () => {
+      jest.useFakeTimers();
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [
+          {
+            url: 'https://example.com/webhook',
+            events: [OpencodeEventType.MESSAGE_PART_UPDATED],
+            debounce: { waitMs: 1000 },
+          },
+        ],
+      });
+
+      try {
+        const first = await plugin.handleEvent(OpencodeEventType.MESSAGE_PART_UPDATED, { sessionId: 'ses_1', text: 'Hel' });
+        await plugin.handleEvent(OpencodeEventType.MESSAGE_PART_UPDATED, { sessionId: 'ses_1', text: 'Hello' });
+
+        expect(first[0]).toEqual({ success: true, webhookUrl: 'https://example.com/webhook', attempts: 0, debounced: true });
+        expect(mockSend).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(mockSend).toHaveBeenCalledTimes(1);
+        expect(mockSend.mock.calls[0][1]).toMatchObject({ sessionId: 'ses_1', text: 'Hello' });
+      } finally {
+        await plugin.destroy();
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('outbox', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'opencode-webhooks-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    const outboxPath = () => path.join(tmpDir, '.opencode', 'webhooks-outbox.jsonl');
+
+    it('should remove deliveries from the outbox once sent', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: [OpencodeEventType.SESSION_IDLE] }],
+        outbox: {},
+      });
+      await plugin.openOutbox(tmpDir);
+
+      await plugin.handleEvent(OpencodeEventType.SESSION_IDLE, { sessionId: 'test' });
+
+      expect(await new DeliveryOutbox(outboxPath()).load()).toEqual([]);
+    });
+
+    it('should not keep deliveries the endpoint rejected outright', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: false,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 404,
+        error: 'Webhook request failed: Not Found (status: 404)',
+        attempts: 1,
+        retryable: false,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: [OpencodeEventType.SESSION_IDLE] }],
+        outbox: {},
+      });
+      await plugin.openOutbox(tmpDir);
+
+      await plugin.handleEvent(OpencodeEventType.SESSION_IDLE, { sessionId: 'test' });
+
+      expect(await new DeliveryOutbox(outboxPath()).load()).toEqual([]);
+    });
+
+    it('should keep deliveries whose payload could not be built', async () => {
+      // The real client, so the transform error surfaces the way it would in use
+      const { WebhookClient: ActualWebhookClient } = jest.requireActual('../src/webhook-client');
+      (WebhookClient as jest.Mock).mockImplementation((debug: boolean) => new ActualWebhookClient(debug));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [{
+          url: 'https://example.com/webhook',
+          events: [OpencodeEventType.SESSION_IDLE],
+          transformPayload: () => {
+            throw new Error('Template bug');
+          },
+        }],
+        outbox: {},
+      });
+      await plugin.openOutbox(tmpDir);
+
+      const results = await plugin.handleEvent(OpencodeEventType.SESSION_IDLE, { sessionId: 'test' });
+
+      expect(results[0]).toMatchObject({ success: false, retryable: false, error: 'Template bug' });
+      const pending = await new DeliveryOutbox(outboxPath()).load();
+      expect(pending).toHaveLength(1);
+      expect(pending[0].payload).toMatchObject({ sessionId: 'test', eventType: OpencodeEventType.SESSION_IDLE });
+    });
+
+    it('should keep failed deliveries and replay them on the next startup', async () => {
+      const mockSend = jest.fn()
+        .mockResolvedValueOnce({
+          success: false,
+          webhookUrl: 'https://example.com/webhook',
+          error: 'Network error',
+          attempts: 3,
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          webhookUrl: 'https://example.com/webhook',
+          statusCode: 200,
+          attempts: 1,
+        });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const config: WebhookPluginConfig = {
+        webhooks: [{ url: 'https://example.com/webhook', events: [OpencodeEventType.SESSION_IDLE] }],
+        outbox: {},
+      };
+
+      const firstRun = new WebhookPlugin(config);
+      await firstRun.openOutbox(tmpDir);
+      await firstRun.handleEvent(OpencodeEventType.SESSION_IDLE, { sessionId: 'test' });
+      await firstRun.destroy();
+
+      const secondRun = new WebhookPlugin(config);
+      await secondRun.openOutbox(tmpDir);
+      const results = await secondRun.replayOutbox();
+
+      expect(results).toHaveLength(1);
+      expect(results[0].success).toBe(true);
+      expect(mockSend).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.objectContaining({ sessionId: 'test', eventType: OpencodeEventType.SESSION_IDLE })
+      );
+      expect(await new DeliveryOutbox(outboxPath()).load()).toEqual([]);
+    });
+
+    it('should persist events held by debounce when the plugin is destroyed', async () => {
+      // The endpoint is unreachable while shutting down
+      const mockSend = jest.fn().mockResolvedValue({
+        success: false,
+        webhookUrl: 'https://example.com/webhook',
+        error: 'Network error',
+        attempts: 3,
+        retryable: true,
+      });
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [{
+          url: 'https://example.com/webhook',
+          events: [OpencodeEventType.SESSION_IDLE],
+          debounce: { waitMs: 60000 },
+        }],
+        outbox: {},
+      });
+      await plugin.openOutbox(tmpDir);
+
+      const results = await plugin.handleEvent(OpencodeEventType.SESSION_IDLE, { sessionId: 'test' });
+      expect(results[0].debounced).toBe(true);
+      expect(await new DeliveryOutbox(outboxPath()).load()).toEqual([]);
+
+      await plugin.destroy();
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      const pending = await new DeliveryOutbox(outboxPath()).load();
+      expect(pending).toHaveLength(1);
+      expect(pending[0].payload).toMatchObject({ sessionId: 'test', eventType: OpencodeEventType.SESSION_IDLE });
+    });
+
+    it('should drop entries for webhooks that are no longer configured', async () => {
+      const outbox = new DeliveryOutbox(outboxPath());
+      await outbox.load();
+      await outbox.add('https://old.example.com:session.idle', {
+        timestamp: '2025-01-01T00:00:00.000Z',
+        eventType: OpencodeEventType.SESSION_IDLE,
+      });
+
+      const mockSend = jest.fn();
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = new WebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: [OpencodeEventType.SESSION_IDLE] }],
+        outbox: {},
+      });
+      await plugin.openOutbox(tmpDir);
+      const results = await plugin.replayOutbox();
+
+      expect(results).toEqual([]);
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(await new DeliveryOutbox(outboxPath()).load()).toEqual([]);
+    });
   });
 
   describe('createWebhookPlugin', () => {
@@ -388,5 +733,523 @@ describe('WebhookPlugin', () => {
       expect(hooks).toHaveProperty('event');
       expect(typeof hooks.event).toBe('function');
     });
+
+    it('should normalize raw bus events before dispatch', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createWebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: ['message.updated'] }],
+      });
+      const hooks = await plugin({ project: { id: 'project-1' }, worktree: '/work/tree' } as any);
+
+      const info = { id: 'msg_1', sessionID: 'ses_1', role: 'assistant' };
+      await hooks.event!({ event: { type: 'message.updated', properties: { info } } as any });
+
+      const payload = mockSend.mock.calls[0][1] as BaseEventPayload;
+      expect(payload).toMatchObject({
+        eventType: 'message.updated',
+        sessionId: 'ses_1',
+        projectId: 'project-1',
+        worktree: '/work/tree',
+        properties: { info },
+      });
+      expect(payload.eventId).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('should route session summaries to subscribed webhooks', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createWebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: ['session.summary'] }],
+      });
+      const hooks = await plugin({} as any);
+
+      await hooks.event!({
+        event: { type: 'message.updated', properties: { info: { id: 'msg_1', sessionID: 'ses_1', role: 'user' } } },
+      } as any);
+      await hooks.event!({ event: { type: 'session.idle', properties: { sessionID: 'ses_1' } } } as any);
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(mockSend.mock.calls[0][1]).toMatchObject({
+        eventType: 'session.summary',
+        sessionId: 'ses_1',
+        turns: 1,
+      });
+    });
+
+    it('should send budget alerts when a configured limit is crossed', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createWebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: ['budget.exceeded'] }],
+        budget: { session: { cost: 1 } },
+      });
+      const hooks = await plugin({} as any);
+
+      await hooks.event!({
+        event: {
+          type: 'message.updated',
+          properties: { info: { id: 'msg_1', sessionID: 'ses_1', role: 'assistant', cost: 1.5 } },
+        },
+      } as any);
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(mockSend.mock.calls[0][1]).toMatchObject({
+        eventType: 'budget.exceeded',
+        sessionId: 'ses_1',
+        scope: 'session',
+        metric: 'cost',
+        value: 1.5,
+      });
+    });
+
+    it('should pair tool hooks into tool.completed without waiting for delivery', async () => {
+      let releaseDelivery: () => void = () => undefined;
+      const mockSend = jest.fn().mockImplementation(() => new Promise((resolve) => {
+        releaseDelivery = () => resolve({ success: true, webhookUrl: 'https://example.com/webhook', attempts: 1 });
+      }));
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createWebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: ['tool.execute.before', 'tool.completed'] }],
+      });
+      const hooks = await plugin({} as any);
+      const input = { tool: 'bash', sessionID: 'ses_1', callID: 'call_1' };
+
+      // Resolves even though the webhook has not answered yet
+      await hooks['tool.execute.before']!(input, { args: { command: 'ls' } });
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(mockSend.mock.calls[0][1]).toMatchObject({ eventType: 'tool.execute.before', sessionId: 'ses_1' });
+
+      await hooks['tool.execute.after']!({ ...input, args: { command: 'ls' } }, { title: 'ls', output: 'a\nb', metadata: {} });
+      releaseDelivery();
+      for (let i = 0; i < 5 && mockSend.mock.calls.length < 2; i++) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(mockSend.mock.calls[1][1]).toMatchObject({
+        eventType: 'tool.completed',
+        tool: 'bash',
+        callId: 'call_1',
+        argsSummary: 'ls',
+        outputBytes: 3,
+      });
+      releaseDelivery();
+    });
+
+    it('should handle bus events after tool hooks that are still being delivered', async () => {
+      let releaseDeliveries: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => (releaseDeliveries = resolve));
+      const mockSend = jest.fn().mockImplementation(async (webhook) => {
+        await gate;
+        return { success: true, webhookUrl: webhook.url, attempts: 1 };
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createWebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: ['tool.execute.before', 'tool.completed', 'tool.stats'] }],
+      });
+      const hooks = await plugin({} as any);
+
+      await hooks['tool.execute.before']!({ tool: 'bash', sessionID: 'ses_1', callID: 'call_1' }, { args: { command: 'false' } });
+
+      // The error and idle arrive while the hook's delivery is still pending
+      const error = hooks.event!({
+        event: {
+          type: 'message.part.updated',
+          properties: {
+            part: { id: 'prt_1', sessionID: 'ses_1', messageID: 'msg_1', type: 'tool', tool: 'bash', callID: 'call_1', state: { status: 'error', error: 'exit 1' } },
+          },
+        } as any,
+      });
+      const idle = hooks.event!({ event: { type: 'session.idle', properties: { sessionID: 'ses_1' } } as any });
+
+      releaseDeliveries();
+      await Promise.all([error, idle]);
+
+      const eventTypes = mockSend.mock.calls.map((call) => call[1].eventType);
+      expect(eventTypes).toEqual(['tool.execute.before', 'tool.completed', 'tool.stats']);
+      expect(mockSend.mock.calls[1][1]).toMatchObject({ status: 'error', callId: 'call_1' });
+      expect(mockSend.mock.calls[2][1]).toMatchObject({ totalCalls: 1, totalErrors: 1 });
+    });
+
+    it('should add context to payloads when enrichment is enabled', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createWebhookPlugin({
+        webhooks: [{ url: 'https://example.com/webhook', events: ['session.idle'] }],
+        enrich: { git: false, hostname: false },
+      });
+      const hooks = await plugin({
+        project: { id: 'project-1' },
+        directory: '/work/tree',
+        worktree: '/work/tree',
+        client: {},
+      } as any);
+
+      await hooks.event!({ event: { type: 'session.idle', properties: { sessionID: 'ses_1' } } as any });
+
+      expect(mockSend.mock.calls[0][1].context).toEqual({
+        project: { id: 'project-1' },
+        directory: '/work/tree',
+        worktree: '/work/tree',
+      });
+    });
+  });
+
+  describe('createWebhookPlugin with a configuration file', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'opencode-webhooks-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should load webhooks from the project directory', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      await fs.writeFile(
+        path.join(tmpDir, 'opencode-webhooks.json'),
+        JSON.stringify({
+          webhooks: [{ url: 'https://example.com/webhook', events: ['session.idle'] }],
+        })
+      );
+
+      const plugin = createWebhookPlugin({ globalDirectory: path.join(tmpDir, 'global') });
+      const hooks = await plugin({ directory: tmpDir } as any);
+
+      await hooks.event!({ event: { type: 'session.idle', properties: { sessionID: 'abc' } } as any });
+
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://example.com/webhook' }),
+        expect.objectContaining({ eventType: 'session.idle' })
+      );
+    });
+
+    it('should return no hooks when no configuration file exists', async () => {
+      const plugin = createWebhookPlugin({ globalDirectory: path.join(tmpDir, 'global') });
+      const hooks = await plugin({ directory: tmpDir } as any);
+
+      expect(hooks).toEqual({});
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('No webhooks configured')
+      );
+    });
+  });
+
+  describe('createAgentNotificationPlugin', () => {
+    const mockContext = {
+      project: { id: 'project-1' },
+      directory: '/home/user/my-project',
+      worktree: '/home/user/my-project',
+      client: {
+        session: {
+          get: jest.fn().mockResolvedValue({ title: 'Test Session' }),
+        },
+      },
+      $: jest.fn(),
+    } as any;
+
+    const simulateTurn = async (hooks: any) => {
+      await hooks.event({
+        event: {
+          type: 'message.updated',
+          properties: {
+            info: {
+              id: 'msg-1',
+              role: 'assistant',
+              sessionID: 'session-123',
+              tokens: { input: 100, output: 50, reasoning: 0 },
+              cost: 0.01,
+            },
+          },
+        },
+      });
+      await hooks.event({
+        event: {
+          type: 'message.part.updated',
+          properties: {
+            part: {
+              id: 'part-1',
+              type: 'text',
+              text: 'All done!',
+              sessionID: 'session-123',
+              messageID: 'msg-1',
+            },
+          },
+        },
+      });
+      await hooks.event({
+        event: {
+          type: 'session.idle',
+          properties: { sessionID: 'session-123' },
+        },
+      });
+    };
+
+    it('should deliver agent.completed payloads to every webhook', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createAgentNotificationPlugin({
+        webhooks: [
+          { url: 'https://example.com/webhook1' },
+          { url: 'https://example.com/webhook2' },
+        ],
+      });
+      const hooks = await plugin(mockContext);
+
+      await simulateTurn(hooks);
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      const [webhookConfig, payload] = mockSend.mock.calls[0];
+      expect(webhookConfig.events).toEqual(['agent.completed']);
+      expect(payload).toMatchObject({
+        eventType: 'agent.completed',
+        sessionId: 'session-123',
+        sessionTitle: 'Test Session',
+        messageContent: 'All done!',
+        tokens: { input: 100, output: 50, reasoning: 0 },
+        cost: 0.01,
+      });
+    });
+
+    it('should apply global retry and timeout defaults', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createAgentNotificationPlugin({
+        webhooks: [{ url: 'https://example.com/webhook' }],
+        defaultTimeoutMs: 15000,
+        defaultRetry: { maxAttempts: 5, delayMs: 2000 },
+      });
+      const hooks = await plugin(mockContext);
+
+      await simulateTurn(hooks);
+
+      const webhookConfig = mockSend.mock.calls[0][0];
+      expect(webhookConfig.timeoutMs).toBe(15000);
+      expect(webhookConfig.retry).toEqual({ maxAttempts: 5, delayMs: 2000 });
+    });
+
+    it('should not send anything for events that do not complete a turn', async () => {
+      const mockSend = jest.fn();
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createAgentNotificationPlugin({
+        webhooks: [{ url: 'https://example.com/webhook' }],
+      });
+      const hooks = await plugin(mockContext);
+
+      await hooks.event({
+        event: {
+          type: 'session.idle',
+          properties: { sessionID: 'session-123' },
+        },
+      });
+
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should notify about pending permissions when notifyPermissions is set', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createAgentNotificationPlugin({
+        webhooks: [{ url: 'https://example.com/webhook' }],
+        notifyPermissions: true,
+      });
+      const hooks = await plugin(mockContext);
+
+      await hooks.event({
+        event: {
+          type: 'permission.updated',
+          properties: {
+            id: 'per_1',
+            type: 'bash',
+            sessionID: 'session-123',
+            messageID: 'msg-1',
+            title: 'rm -rf dist',
+            metadata: { command: 'rm -rf dist' },
+            time: { created: Date.now() },
+          },
+        },
+      });
+      await hooks.event({
+        event: {
+          type: 'permission.replied',
+          properties: { sessionID: 'session-123', permissionID: 'per_1', response: 'always' },
+        },
+      });
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(mockSend.mock.calls[0][1]).toMatchObject({
+        eventType: 'agent.awaiting_permission',
+        sessionTitle: 'Test Session',
+        tool: 'bash',
+        command: 'rm -rf dist',
+      });
+      expect(mockSend.mock.calls[1][1]).toMatchObject({
+        eventType: 'agent.permission_resolved',
+        status: 'replied',
+        response: 'always',
+      });
+    });
+
+    it('should report failed runs when notifyErrors is set', async () => {
+      const mockSend = jest.fn().mockResolvedValue({
+        success: true,
+        webhookUrl: 'https://example.com/webhook',
+        statusCode: 200,
+        attempts: 1,
+      });
+
+      (WebhookClient as jest.Mock).mockImplementation(() => ({
+        send: mockSend,
+      }));
+
+      const plugin = createAgentNotificationPlugin({
+        webhooks: [
+          { url: 'https://example.com/all' },
+          // Only page for serious failures
+          { url: 'https://example.com/pager', filter: { field: 'severity', in: ['error', 'critical'] } },
+        ],
+        notifyErrors: true,
+      });
+      const hooks = await plugin(mockContext);
+
+      await hooks.event({
+        event: {
+          type: 'session.error',
+          properties: { sessionID: 'session-123', error: { name: 'MessageAbortedError', data: { message: 'Aborted' } } },
+        },
+      });
+      await hooks.event({
+        event: {
+          type: 'session.error',
+          properties: { sessionID: 'session-123', error: { name: 'ProviderAuthError', data: { message: 'Bad key' } } },
+        },
+      });
+
+      const sent = mockSend.mock.calls.map(([webhook, payload]) => [webhook.url, payload.category]);
+      expect(sent).toEqual([
+        ['https://example.com/all', 'aborted'],
+        ['https://example.com/all', 'provider_auth'],
+        ['https://example.com/pager', 'provider_auth'],
+      ]);
+      expect(mockSend.mock.calls[1][1]).toMatchObject({
+        eventType: 'agent.failed',
+        sessionTitle: 'Test Session',
+        severity: 'critical',
+      });
+    });
+
+    it('should normalize events with the project and worktree like createWebhookPlugin', async () => {
+      const handleSpy = jest.spyOn(WebhookPlugin.prototype, 'handleOpencodeEvent');
+
+      try {
+        const plugin = createAgentNotificationPlugin({
+          webhooks: [{ url: 'https://example.com/webhook' }],
+          notifyErrors: true,
+        });
+        const hooks = await plugin(mockContext);
+
+        await hooks.event({
+          event: { type: 'session.idle', properties: { sessionID: 'session-123' } },
+        });
+
+        expect(handleSpy).toHaveBeenCalledWith(expect.objectContaining({
+          eventType: 'session.idle',
+          sessionId: 'session-123',
+          projectId: 'project-1',
+          worktree: '/home/user/my-project',
+        }));
+      } finally {
+        handleSpy.mockRestore();
+      }
+    });
   });
 });
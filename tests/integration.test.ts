@@ -465,8 +465,10 @@ describe('Webhook Plugin Integration Tests', () => {
 
       expect(results[0].success).toBe(false);
       expect(results[0].error).toContain('Invalid webhook URL');
-      expect(results[0].attempts).toBe(2);
-      expect(mockedAxios).toHaveBeenCalledTimes(2);
+      expect(results[0].retryable).toBe(false);
+      // A 404 will not go away, so it is not retried
+      expect(results[0].attempts).toBe(1);
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
 
       consoleErrorSpy.mockRestore();
     });
@@ -711,7 +713,7 @@ describe('Webhook Plugin Integration Tests', () => {
       );
 
       jest.useRealTimers();
-      plugin.destroy();
+      await plugin.destroy();
     });
   });
 });
@@ -540,6 +540,51 @@ describe('AgentCompletionMiddleware', () => {
       expect(payload.tokens).toBeUndefined();
       expect(payload.cost).toBeUndefined();
     });
+    it('should total usage across the messages of a turn and the session', async () => {
+      const middleware = new AgentCompletionMiddleware({
+        context: mockContext,
+        onComplete: onCompleteMock,
+      });
+
+      const assistant = (id: string, tokens: Record<string, number>, cost: number) =>
+        middleware.handleEvent({
+          type: 'message.updated',
+          properties: { info: { role: 'assistant', sessionID: 's1', id, tokens, cost } },
+        });
+      const text = (id: string, messageID: string) =>
+        middleware.handleEvent({
+          type: 'message.part.updated',
+          properties: { part: { id, type: 'text', text: 'Working on it', sessionID: 's1', messageID } },
+        });
+      const idle = () =>
+        middleware.handleEvent({ type: 'session.idle', properties: { sessionID: 's1' } });
+
+      // First turn: a tool call message followed by the final answer
+      await assistant('m1', { input: 100, output: 20, reasoning: 0 }, 0.01);
+      await assistant('m2', { input: 150, output: 30, reasoning: 5 }, 0.02);
+      // Streaming update of m2 replaces, rather than adds to, its usage
+      await assistant('m2', { input: 150, output: 60, reasoning: 5 }, 0.03);
+      await text('part-1', 'm2');
+      await idle();
+
+      // Second turn
+      await assistant('m3', { input: 200, output: 10, reasoning: 0 }, 0.05);
+      await text('part-2', 'm3');
+      await idle();
+
+      const first = onCompleteMock.mock.calls[0][0] as AgentCompletedPayload;
+      expect(first.tokens).toEqual({ input: 250, output: 80, reasoning: 5 });
+      expect(first.cost).toBeCloseTo(0.04);
+      expect(first.turn?.messages).toBe(2);
+      expect(first.session?.messages).toBe(2);
+
+      const second = onCompleteMock.mock.calls[1][0] as AgentCompletedPayload;
+      expect(second.tokens).toEqual({ input: 200, output: 10, reasoning: 0 });
+      expect(second.cost).toBeCloseTo(0.05);
+      expect(second.session?.tokens).toEqual({ input: 450, output: 90, reasoning: 5 });
+      expect(second.session?.cost).toBeCloseTo(0.09);
+      expect(second.session?.messages).toBe(3);
+    });
   });
 
   describe('session title resolution', () => {
@@ -633,6 +678,157 @@ describe('AgentCompletionMiddleware', () => {
     });
   });
 
+  describe('file changes and todos', () => {
+    it('should add the files changed during the turn to the payload', async () => {
+      const middleware = new AgentCompletionMiddleware({
+        context: mockContext,
+        onComplete: onCompleteMock,
+      });
+
+      await middleware.handleEvent({
+        type: 'message.updated',
+        properties: { info: { role: 'assistant', sessionID: 'session-123', id: 'msg-1' } },
+      });
+      await middleware.handleEvent({
+        type: 'message.part.updated',
+        properties: {
+          part: {
+            id: 'part-1',
+            type: 'tool',
+            tool: 'write',
+            sessionID: 'session-123',
+            messageID: 'msg-1',
+            state: { status: 'completed', input: { filePath: '/home/user/my-project/src/new.ts' } },
+          },
+        },
+      });
+      await middleware.handleEvent({
+        type: 'session.diff',
+        properties: {
+          sessionID: 'session-123',
+          diff: [{ file: 'src/new.ts', before: '', after: 'export {};\n', additions: 1, deletions: 0 }],
+        },
+      });
+      await middleware.handleEvent({
+        type: 'message.part.updated',
+        properties: {
+          part: { id: 'part-2', type: 'text', text: 'Added the file.', sessionID: 'session-123', messageID: 'msg-1' },
+        },
+      });
+      await middleware.handleEvent({ type: 'session.idle', properties: { sessionID: 'session-123' } });
+
+      const payload: AgentCompletedPayload = onCompleteMock.mock.calls[0][0];
+      expect(payload.changes).toEqual({
+        files: [{ file: 'src/new.ts', additions: 1, deletions: 0 }],
+        additions: 1,
+        deletions: 0,
+      });
+      expect(mockContext.$).not.toHaveBeenCalled();
+    });
+
+    it('should keep changes when a delayed payload is cancelled by new activity', async () => {
+      jest.useFakeTimers();
+      try {
+        const middleware = new AgentCompletionMiddleware({
+          context: mockContext,
+          idleDelaySecs: 5,
+          onComplete: onCompleteMock,
+        });
+        const text = (id: string, value: string) => middleware.handleEvent({
+          type: 'message.part.updated',
+          properties: { part: { id, type: 'text', text: value, sessionID: 'session-123', messageID: 'msg-1' } },
+        });
+
+        await middleware.handleEvent({
+          type: 'message.updated',
+          properties: { info: { role: 'assistant', sessionID: 'session-123', id: 'msg-1' } },
+        });
+        await middleware.handleEvent({
+          type: 'session.diff',
+          properties: {
+            sessionID: 'session-123',
+            diff: [{ file: 'src/new.ts', before: '', after: 'export {};\n', additions: 1, deletions: 0 }],
+          },
+        });
+        await text('part-1', 'Added the file.');
+        await middleware.handleEvent({ type: 'session.idle', properties: { sessionID: 'session-123' } });
+
+        // Activity resumes during the delay and cancels the pending payload
+        await jest.advanceTimersByTimeAsync(2000);
+        await text('part-2', 'One more thing.');
+        await middleware.handleEvent({ type: 'session.idle', properties: { sessionID: 'session-123' } });
+        await jest.advanceTimersByTimeAsync(5000);
+
+        expect(onCompleteMock).toHaveBeenCalledTimes(1);
+        expect(onCompleteMock.mock.calls[0][0].changes).toEqual({
+          files: [{ file: 'src/new.ts', additions: 1, deletions: 0 }],
+          additions: 1,
+          deletions: 0,
+        });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should include the final todo list', async () => {
+      const middleware = new AgentCompletionMiddleware({
+        context: mockContext,
+        onComplete: onCompleteMock,
+      });
+
+      await middleware.handleEvent({
+        type: 'todo.updated',
+        properties: {
+          sessionID: 'session-123',
+          todos: [
+            { id: '1', content: 'Write the fix', status: 'completed', priority: 'high' },
+            { id: '2', content: 'Add tests', status: 'in_progress', priority: 'medium' },
+          ],
+        },
+      });
+      await middleware.handleEvent({
+        type: 'message.updated',
+        properties: { info: { role: 'assistant', sessionID: 'session-123', id: 'msg-1' } },
+      });
+      await middleware.handleEvent({
+        type: 'message.part.updated',
+        properties: {
+          part: { id: 'part-1', type: 'text', text: 'Halfway there.', sessionID: 'session-123', messageID: 'msg-1' },
+        },
+      });
+      await middleware.handleEvent({ type: 'session.idle', properties: { sessionID: 'session-123' } });
+
+      const payload: AgentCompletedPayload = onCompleteMock.mock.calls[0][0];
+      expect(payload.todos).toMatchObject({
+        total: 2,
+        completed: 1,
+        summary: '1/2 done, now working on Add tests',
+      });
+    });
+
+    it('should leave changes and todos out when there are none', async () => {
+      const middleware = new AgentCompletionMiddleware({
+        context: mockContext,
+        onComplete: onCompleteMock,
+      });
+
+      await middleware.handleEvent({
+        type: 'message.updated',
+        properties: { info: { role: 'assistant', sessionID: 'session-123', id: 'msg-1' } },
+      });
+      await middleware.handleEvent({
+        type: 'message.part.updated',
+        properties: {
+          part: { id: 'part-1', type: 'text', text: 'Nothing to do.', sessionID: 'session-123', messageID: 'msg-1' },
+        },
+      });
+      await middleware.handleEvent({ type: 'session.idle', properties: { sessionID: 'session-123' } });
+
+      expect(onCompleteMock.mock.calls[0][0]).not.toHaveProperty('changes');
+      expect(onCompleteMock.mock.calls[0][0]).not.toHaveProperty('todos');
+    });
+  });
+
   describe('debug logging', () => {
     it('should log when debug is enabled', async () => {
       const consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
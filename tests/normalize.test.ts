@@ -0,0 +1,100 @@
+/**
+ * Tests for normalizing raw OpenCode bus events
+ */
+
+import { normalizeEvent, isEventType, getEventSessionId, createEventId } from '../src/normalize.js';
+import { BaseEventPayload, OpencodeEventType } from '../src/types.js';
+
+describe('normalize', () => {
+  const timestamp = '2025-01-01T00:00:00.000Z';
+  const context = { projectId: 'project-ctx', worktree: '/work/tree' };
+
+  describe('normalizeEvent', () => {
+    it('should lift the session id from wherever the event keeps it', () => {
+      const cases: [string, Record<string, any>][] = [
+        ['session.idle', { sessionID: 'ses_1' }],
+        ['message.updated', { info: { id: 'msg_1', sessionID: 'ses_1', role: 'assistant' } }],
+        ['message.part.updated', { part: { id: 'prt_1', sessionID: 'ses_1', messageID: 'msg_1' } }],
+        ['session.created', { info: { id: 'ses_1', projectID: 'project-1' } }],
+      ];
+
+      for (const [type, properties] of cases) {
+        expect(normalizeEvent({ type, properties }, context, timestamp).sessionId).toBe('ses_1');
+      }
+      expect(getEventSessionId('file.edited', { file: 'a.ts' })).toBeUndefined();
+    });
+
+    it('should add project, worktree and event id while keeping properties', () => {
+      const properties = { file: 'src/index.ts' };
+      const payload = normalizeEvent({ type: 'file.edited', properties }, context, timestamp);
+
+      expect(payload).toEqual({
+        timestamp,
+        eventType: 'file.edited',
+        eventId: expect.stringMatching(/^[0-9a-f]{32}$/),
+        type: 'file.edited',
+        projectId: 'project-ctx',
+        worktree: '/work/tree',
+        properties,
+      });
+    });
+
+    it('should prefer the project id reported by the session', () => {
+      const payload = normalizeEvent(
+        { type: 'session.updated', properties: { info: { id: 'ses_1', projectID: 'project-1' } } },
+        context,
+        timestamp
+      );
+
+      expect(payload.projectId).toBe('project-1');
+    });
+
+    it('should handle events without properties or context', () => {
+      const payload = normalizeEvent({ type: 'server.connected' }, undefined, timestamp);
+
+      expect(payload).toEqual({
+        timestamp,
+        eventType: 'server.connected',
+        eventId: expect.any(String),
+        type: 'server.connected',
+        properties: {},
+      });
+    });
+  });
+
+  describe('createEventId', () => {
+    it('should be stable for the same event and differ between events', () => {
+      const properties = { sessionID: 'ses_1' };
+
+      expect(createEventId('session.idle', properties, timestamp))
+        .toBe(createEventId('session.idle', { ...properties }, timestamp));
+      expect(createEventId('session.idle', properties, timestamp))
+        .not.toBe(createEventId('session.idle', properties, '2025-01-01T00:00:01.000Z'));
+      expect(createEventId('session.idle', properties, timestamp))
+        .not.toBe(createEventId('session.compacted', properties, timestamp));
+    });
+  });
+
+  describe('isEventType', () => {
+    it('should narrow payloads to typed properties', () => {
+      const payload: BaseEventPayload = normalizeEvent({
+        type: 'todo.updated',
+        properties: {
+          sessionID: 'ses_1',
+          todos: [{ id: '1', content: 'Write tests', status: 'completed', priority: 'high' }],
+        },
+      });
+
+      expect(isEventType(payload, OpencodeEventType.TODO_UPDATED)).toBe(true);
+      expect(isEventType(payload, OpencodeEventType.SESSION_IDLE)).toBe(false);
+
+      if (isEventType(payload, OpencodeEventType.TODO_UPDATED)) {
+        expect(payload.properties.todos[0].content).toBe('Write tests');
+      }
+    });
+
+    it('should reject payloads without properties', () => {
+      expect(isEventType({ timestamp, eventType: 'session.idle' }, OpencodeEventType.SESSION_IDLE)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OtlpTraceExporter, OtlpSpan, sessionTraceId, sessionSpanId } from '../src/otlp-exporter';
+import { normalizeEvent } from '../src/normalize';
+
+describe('OtlpTraceExporter', () => {
+  let collector: http.Server;
+  let collectorUrl: string;
+  let requests: Array<{ path: string; headers: http.IncomingHttpHeaders; body: any }>;
+  let exporter: OtlpTraceExporter;
+
+  const send = (type: string, properties: Record<string, any>) =>
+    exporter.handleEvent(normalizeEvent({ type, properties }));
+
+  const exportedSpans = (): OtlpSpan[] =>
+    requests.flatMap((request) => request.body.resourceSpans[0].scopeSpans[0].spans);
+
+  const attributes = (span: OtlpSpan) =>
+    Object.fromEntries(span.attributes.map(({ key, value }) => [key, Object.values(value)[0]]));
+
+  const runTurn = async () => {
+    await send('session.created', { info: { id: 'ses_1', title: 'New session', time: { created: 1000 } } });
+    await send('session.updated', { info: { id: 'ses_1', title: 'Fix the build', time: { created: 1000 } } });
+    await send('message.updated', { info: { id: 'msg_user', sessionID: 'ses_1', role: 'user', time: { created: 2000 } } });
+    await send('message.updated', {
+      info: {
+        id: 'msg_1',
+        sessionID: 'ses_1',
+        role: 'assistant',
+        modelID: 'claude-sonnet-4',
+        providerID: 'anthropic',
+        time: { created: 2100, completed: 5000 },
+        tokens: { input: 1200, output: 300, reasoning: 50, cache: { read: 800, write: 0 } },
+        cost: 0.0125,
+      },
+    });
+    const part = {
+      id: 'prt_1',
+      sessionID: 'ses_1',
+      messageID: 'msg_1',
+      type: 'tool',
+      tool: 'bash',
+      callID: 'call_1',
+      state: {
+        status: 'completed',
+        input: { command: 'npm run build' },
+        title: 'Build',
+        metadata: { exit: 0 },
+        time: { start: 2500, end: 4000 },
+      },
+    };
+    await send('message.part.updated', { part });
+    // Repeated updates of a finished part are one call
+    await send('message.part.updated', { part });
+    await send('session.idle', { sessionID: 'ses_1' });
+  };
+
+  beforeEach(async () => {
+    requests = [];
+    collector = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ path: req.url ?? '', headers: req.headers, body: JSON.parse(body) });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>((resolve) => collector.listen(0, '127.0.0.1', resolve));
+    collectorUrl = `http://127.0.0.1:${(collector.address() as AddressInfo).port}`;
+
+    exporter = new OtlpTraceExporter({
+      config: {
+        endpoint: collectorUrl,
+        headers: { Authorization: 'Bearer token' },
+        resourceAttributes: { 'deployment.environment': 'test' },
+        flushIntervalMs: 60_000,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await exporter.shutdown();
+    await new Promise<void>((resolve) => collector.close(() => resolve()));
+  });
+
+  it('should export a session as a trace with turn and tool spans', async () => {
+    await runTurn();
+    await send('session.deleted', { info: { id: 'ses_1', title: 'Fix the build' } });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe('/v1/traces');
+    expect(requests[0].headers.authorization).toBe('Bearer token');
+    expect(requests[0].body.resourceSpans[0].resource.attributes).toEqual([
+      { key: 'deployment.environment', value: { stringValue: 'test' } },
+      { key: 'service.name', value: { stringValue: 'opencode' } },
+    ]);
+    expect(requests[0].body.resourceSpans[0].scopeSpans[0].scope).toEqual({ name: 'opencode-webhooks' });
+
+    const [tool, turn, session] = exportedSpans();
+    const traceId = sessionTraceId('ses_1');
+
+    expect(session).toMatchObject({
+      traceId,
+      spanId: sessionSpanId('ses_1'),
+      name: 'session Fix the build',
+      startTimeUnixNano: '1000000000',
+      status: { code: 1 },
+    });
+    expect(session.parentSpanId).toBeUndefined();
+    expect(attributes(session)).toMatchObject({
+      'opencode.session.id': 'ses_1',
+      'opencode.session.turns': '1',
+      'gen_ai.usage.input_tokens': '1200',
+      'opencode.usage.cost': 0.0125,
+    });
+
+    expect(turn).toMatchObject({ traceId, parentSpanId: session.spanId, name: 'turn', startTimeUnixNano: '2000000000' });
+    expect(attributes(turn)).toEqual({
+      'opencode.session.id': 'ses_1',
+      'opencode.session.title': 'Fix the build',
+      'opencode.turn.number': '1',
+      'opencode.turn.tool_calls': '1',
+      'gen_ai.system': 'anthropic',
+      'gen_ai.request.model': 'claude-sonnet-4',
+      'gen_ai.usage.input_tokens': '1200',
+      'gen_ai.usage.output_tokens': '300',
+      'opencode.usage.reasoning_tokens': '50',
+      'opencode.usage.cache_read_tokens': '800',
+      'opencode.usage.cache_write_tokens': '0',
+      'opencode.usage.cost': 0.0125,
+    });
+
+    expect(tool).toMatchObject({
+      traceId,
+      parentSpanId: turn.spanId,
+      name: 'tool bash',
+      startTimeUnixNano: '2500000000',
+      endTimeUnixNano: '4000000000',
+      status: { code: 1 },
+    });
+    expect(attributes(tool)).toEqual({
+      'opencode.session.id': 'ses_1',
+      'opencode.tool.name': 'bash',
+      'opencode.tool.call_id': 'call_1',
+      'opencode.tool.args': 'npm run build',
+      'opencode.tool.title': 'Build',
+      'opencode.tool.exit_code': '0',
+    });
+  });
+
+  it('should batch finished spans until the flush interval', async () => {
+    await runTurn();
+    expect(requests).toHaveLength(0);
+
+    await exporter.flush();
+    expect(exportedSpans().map((span) => span.name)).toEqual(['tool bash', 'turn']);
+  });
+
+  it('should export the session span once, as the parent of every turn', async () => {
+    await runTurn();
+    await send('message.updated', { info: { id: 'msg_user2', sessionID: 'ses_1', role: 'user', time: { created: 9000 } } });
+    await send('session.idle', { sessionID: 'ses_1' });
+    await exporter.shutdown();
+
+    const spans = exportedSpans();
+    const sessions = spans.filter((span) => span.spanId === sessionSpanId('ses_1'));
+    expect(sessions).toHaveLength(1);
+    expect(attributes(sessions[0])['opencode.session.turns']).toBe('2');
+
+    const turns = spans.filter((span) => span.name === 'turn');
+    expect(turns).toHaveLength(2);
+    expect(turns.every((turn) => turn.parentSpanId === sessionSpanId('ses_1'))).toBe(true);
+  });
+
+  it('should start a new turn span for each user message', async () => {
+    await runTurn();
+    await send('message.updated', { info: { id: 'msg_user2', sessionID: 'ses_1', role: 'user', time: { created: 9000 } } });
+    await send('session.idle', { sessionID: 'ses_1' });
+    await exporter.flush();
+
+    const turns = exportedSpans().filter((span) => span.name === 'turn');
+    expect(turns).toHaveLength(2);
+    expect(turns[0].spanId).not.toBe(turns[1].spanId);
+    expect(attributes(turns[1])['opencode.turn.number']).toBe('2');
+    expect(attributes(turns[1])['gen_ai.usage.input_tokens']).toBeUndefined();
+  });
+
+  it('should mark failed tool calls and turns as errors', async () => {
+    await send('message.updated', { info: { id: 'msg_user', sessionID: 'ses_1', role: 'user', time: { created: 2000 } } });
+    await send('message.part.updated', {
+      part: {
+        id: 'prt_1',
+        sessionID: 'ses_1',
+        messageID: 'msg_1',
+        type: 'tool',
+        tool: 'edit',
+        callID: 'call_1',
+        state: { status: 'error', input: { filePath: '/repo/a.ts' }, error: 'File not found', time: { start: 2100, end: 2200 } },
+      },
+    });
+    await send('session.error', { sessionID: 'ses_1', error: { name: 'APIError', data: { message: 'Overloaded' } } });
+    await send('session.idle', { sessionID: 'ses_1' });
+    await exporter.flush();
+
+    const [tool, turn] = exportedSpans();
+    expect(tool.status).toEqual({ code: 2, message: 'File not found' });
+    expect(turn.status).toEqual({ code: 2, message: 'Overloaded' });
+  });
+
+  it('should end open sessions on shutdown', async () => {
+    await runTurn();
+    await exporter.shutdown();
+
+    expect(exportedSpans().map((span) => span.name)).toEqual(['tool bash', 'turn', 'session Fix the build']);
+  });
+
+  it('should not open a turn for a late update of a finished message', async () => {
+    await runTurn();
+    await send('message.updated', {
+      info: { id: 'msg_1', sessionID: 'ses_1', role: 'assistant', time: { created: 2100, completed: 5000 } },
+    });
+    await send('session.idle', { sessionID: 'ses_1' });
+    await exporter.flush();
+
+    expect(exportedSpans().filter((span) => span.name === 'turn')).toHaveLength(1);
+  });
+
+  it('should keep the traces path when the endpoint already has it', async () => {
+    exporter = new OtlpTraceExporter({ config: { endpoint: `${collectorUrl}/v1/traces/` } });
+    await runTurn();
+    await exporter.flush();
+
+    expect(requests[0].path).toBe('/v1/traces');
+  });
+
+  it('should not throw when the collector is unreachable', async () => {
+    exporter = new OtlpTraceExporter({ config: { endpoint: 'http://127.0.0.1:1', timeoutMs: 1000 } });
+    await runTurn();
+
+    await expect(exporter.flush()).resolves.toBeUndefined();
+  });
+});
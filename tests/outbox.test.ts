@@ -0,0 +1,87 @@
+/**
+ * Tests for the durable delivery outbox
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeliveryOutbox } from '../src/outbox.js';
+import { BaseEventPayload, OpencodeEventType } from '../src/types.js';
+
+describe('DeliveryOutbox', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  const payload: BaseEventPayload = {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    eventType: OpencodeEventType.SESSION_IDLE,
+    sessionId: 'session-1',
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'opencode-webhooks-'));
+    filePath = path.join(tmpDir, '.opencode', 'webhooks-outbox.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const outbox = new DeliveryOutbox(filePath);
+
+    expect(await outbox.load()).toEqual([]);
+    expect(outbox.size).toBe(0);
+  });
+
+  it('should persist added entries across instances', async () => {
+    const outbox = new DeliveryOutbox(filePath);
+    await outbox.load();
+    const id = await outbox.add('https://example.com/webhook:session.idle', payload);
+
+    const reloaded = new DeliveryOutbox(filePath);
+    const entries = await reloaded.load();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      id,
+      webhookKey: 'https://example.com/webhook:session.idle',
+      payload,
+    });
+  });
+
+  it('should not reload removed entries', async () => {
+    const outbox = new DeliveryOutbox(filePath);
+    await outbox.load();
+    const delivered = await outbox.add('key', payload);
+    await outbox.add('key', { ...payload, sessionId: 'session-2' });
+    await outbox.remove(delivered);
+
+    const entries = await new DeliveryOutbox(filePath).load();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].payload.sessionId).toBe('session-2');
+  });
+
+  it('should compact the file on load', async () => {
+    const outbox = new DeliveryOutbox(filePath);
+    await outbox.load();
+    const id = await outbox.add('key', payload);
+    await outbox.remove(id);
+
+    await new DeliveryOutbox(filePath).load();
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('');
+  });
+
+  it('should skip malformed lines left by an interrupted write', async () => {
+    const outbox = new DeliveryOutbox(filePath);
+    await outbox.load();
+    await outbox.add('key', payload);
+    await fs.appendFile(filePath, '{"op":"add","id":"trunc');
+
+    const entries = await new DeliveryOutbox(filePath).load();
+
+    expect(entries).toHaveLength(1);
+  });
+});
@@ -0,0 +1,186 @@
+import { PermissionMiddleware } from '../src/permission-middleware';
+import { normalizeEvent } from '../src/normalize';
+import {
+  AwaitingPermissionPayload,
+  AGENT_AWAITING_PERMISSION_EVENT,
+  AGENT_PERMISSION_RESOLVED_EVENT,
+  PermissionResolvedPayload,
+} from '../src/types';
+
+describe('PermissionMiddleware', () => {
+  let onAwaitingMock: jest.Mock;
+  let onResolvedMock: jest.Mock;
+  let mockContext: any;
+
+  const permission = {
+    id: 'per_1',
+    type: 'bash',
+    pattern: 'git push*',
+    sessionID: 'ses_1',
+    messageID: 'msg_1',
+    callID: 'call_1',
+    title: 'git push origin main',
+    metadata: { command: 'git push origin main' },
+    time: { created: Date.parse('2025-01-01T00:00:00.000Z') },
+  };
+
+  const createMiddleware = (timeoutSecs?: number) =>
+    new PermissionMiddleware({
+      context: mockContext,
+      timeoutSecs,
+      onAwaiting: onAwaitingMock,
+      onResolved: onResolvedMock,
+    });
+
+  const send = (middleware: PermissionMiddleware, type: string, properties: Record<string, any>) =>
+    middleware.handleEvent(normalizeEvent({ type, properties }));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:30.000Z') });
+    onAwaitingMock = jest.fn().mockResolvedValue(undefined);
+    onResolvedMock = jest.fn().mockResolvedValue(undefined);
+    mockContext = {
+      client: { session: { get: jest.fn().mockResolvedValue({ title: 'Release prep' }) } },
+      directory: '/home/user/my-project',
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should emit agent.awaiting_permission with the tool, command and session title', async () => {
+    const middleware = createMiddleware();
+
+    await send(middleware, 'permission.updated', permission);
+
+    expect(onAwaitingMock).toHaveBeenCalledTimes(1);
+    const request: AwaitingPermissionPayload = onAwaitingMock.mock.calls[0][0];
+    expect(request).toEqual({
+      timestamp: '2025-01-01T00:00:30.000Z',
+      eventType: AGENT_AWAITING_PERMISSION_EVENT,
+      sessionId: 'ses_1',
+      sessionTitle: 'Release prep',
+      permissionId: 'per_1',
+      tool: 'bash',
+      title: 'git push origin main',
+      command: 'git push origin main',
+      pattern: 'git push*',
+      messageId: 'msg_1',
+      callId: 'call_1',
+      metadata: { command: 'git push origin main' },
+      requestedAt: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should report each request once', async () => {
+    const middleware = createMiddleware();
+
+    await send(middleware, 'permission.updated', permission);
+    await send(middleware, 'permission.updated', permission);
+
+    expect(onAwaitingMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send a follow-up when the permission is replied', async () => {
+    const middleware = createMiddleware(60);
+
+    await send(middleware, 'permission.updated', permission);
+    jest.advanceTimersByTime(15_000);
+    await send(middleware, 'permission.replied', { sessionID: 'ses_1', permissionID: 'per_1', response: 'once' });
+
+    expect(onResolvedMock).toHaveBeenCalledTimes(1);
+    const resolved: PermissionResolvedPayload = onResolvedMock.mock.calls[0][0];
+    expect(resolved).toEqual(expect.objectContaining({
+      eventType: AGENT_PERMISSION_RESOLVED_EVENT,
+      permissionId: 'per_1',
+      sessionTitle: 'Release prep',
+      status: 'replied',
+      response: 'once',
+      waitedMs: 45_000,
+    }));
+
+    // The reply cancelled the timeout
+    jest.advanceTimersByTime(60_000);
+    expect(onResolvedMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send a timeout follow-up, then the reply when it comes', async () => {
+    const middleware = createMiddleware(60);
+
+    await send(middleware, 'permission.updated', permission);
+    jest.advanceTimersByTime(60_000);
+    await Promise.resolve();
+
+    expect(onResolvedMock).toHaveBeenCalledWith(expect.objectContaining({ status: 'timeout', response: undefined }));
+
+    await send(middleware, 'permission.replied', { sessionID: 'ses_1', permissionID: 'per_1', response: 'reject' });
+    expect(onResolvedMock).toHaveBeenCalledTimes(2);
+    expect(onResolvedMock.mock.calls[1][0]).toEqual(expect.objectContaining({ status: 'replied', response: 'reject' }));
+  });
+
+  it('should not time out without a timeout configured', async () => {
+    const middleware = createMiddleware();
+
+    await send(middleware, 'permission.updated', permission);
+    jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+    expect(onResolvedMock).not.toHaveBeenCalled();
+  });
+
+  it('should ignore replies to unknown requests and forget deleted sessions', async () => {
+    const middleware = createMiddleware(60);
+
+    await send(middleware, 'permission.replied', { sessionID: 'ses_1', permissionID: 'per_9', response: 'once' });
+    await send(middleware, 'permission.updated', permission);
+    await send(middleware, 'session.deleted', { info: { id: 'ses_1' } });
+    jest.advanceTimersByTime(60_000);
+    await send(middleware, 'permission.replied', { sessionID: 'ses_1', permissionID: 'per_1', response: 'once' });
+
+    expect(onResolvedMock).not.toHaveBeenCalled();
+  });
+
+  it('should add action URLs and revoke them once the request is answered', async () => {
+    const actions = { once: 'http://127.0.0.1/once', always: 'http://127.0.0.1/always', reject: 'http://127.0.0.1/reject' };
+    const callbacks = {
+      createActions: jest.fn().mockResolvedValue(actions),
+      revoke: jest.fn(),
+    };
+    const middleware = new PermissionMiddleware({
+      context: mockContext,
+      callbacks: callbacks as any,
+      onAwaiting: onAwaitingMock,
+      onResolved: onResolvedMock,
+    });
+
+    await send(middleware, 'permission.updated', permission);
+    expect(callbacks.createActions).toHaveBeenCalledWith('ses_1', 'per_1', 'git push origin main');
+    expect(onAwaitingMock.mock.calls[0][0].actions).toEqual(actions);
+
+    await send(middleware, 'permission.replied', { sessionID: 'ses_1', permissionID: 'per_1', response: 'once' });
+    expect(callbacks.revoke).toHaveBeenCalledWith('per_1');
+  });
+
+  it('should still notify when action URLs cannot be created', async () => {
+    const middleware = new PermissionMiddleware({
+      context: mockContext,
+      callbacks: { createActions: jest.fn().mockRejectedValue(new Error('EADDRINUSE')), revoke: jest.fn() } as any,
+      onAwaiting: onAwaitingMock,
+      onResolved: onResolvedMock,
+    });
+
+    await send(middleware, 'permission.updated', permission);
+
+    expect(onAwaitingMock).toHaveBeenCalledTimes(1);
+    expect(onAwaitingMock.mock.calls[0][0].actions).toBeUndefined();
+  });
+
+  it('should fall back to the directory name when the session cannot be fetched', async () => {
+    mockContext.client.session.get.mockRejectedValue(new Error('offline'));
+    const middleware = createMiddleware();
+
+    await send(middleware, 'permission.updated', permission);
+
+    expect(onAwaitingMock.mock.calls[0][0].sessionTitle).toBe('my-project');
+  });
+});
@@ -0,0 +1,147 @@
+import { SessionTracker } from '../src/session-tracker';
+import { normalizeEvent } from '../src/normalize';
+import { PluginContext, SessionSummaryPayload, SESSION_SUMMARY_EVENT } from '../src/types';
+
+describe('SessionTracker', () => {
+  let onSummaryMock: jest.Mock;
+  let tracker: SessionTracker;
+
+  const send = (type: string, properties: Record<string, any>) =>
+    tracker.handleEvent(normalizeEvent({ type, properties }));
+
+  const assistantMessage = (id: string, tokens: Record<string, any>, cost: number) =>
+    send('message.updated', { info: { id, sessionID: 'ses_1', role: 'assistant', tokens, cost } });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:10:00.000Z') });
+    onSummaryMock = jest.fn().mockResolvedValue(undefined);
+    tracker = new SessionTracker({ onSummary: onSummaryMock });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should summarize a session when it goes idle', async () => {
+    await send('session.created', {
+      info: { id: 'ses_1', title: 'Fix login', time: { created: Date.parse('2025-01-01T00:00:00.000Z') } },
+    });
+    await send('message.updated', { info: { id: 'msg_u1', sessionID: 'ses_1', role: 'user' } });
+    await assistantMessage('msg_a1', { input: 100, output: 10, reasoning: 0, cache: { read: 5, write: 0 } }, 0.01);
+    // Streaming update of the same message replaces its usage
+    await assistantMessage('msg_a1', { input: 100, output: 50, reasoning: 5, cache: { read: 5, write: 0 } }, 0.02);
+    await send('message.part.updated', {
+      part: {
+        id: 'prt_1',
+        sessionID: 'ses_1',
+        messageID: 'msg_a1',
+        type: 'tool',
+        tool: 'bash',
+        state: { status: 'completed', input: { command: 'npm test' } },
+      },
+    });
+    await send('file.edited', { file: 'src/login.ts' });
+    await send('command.executed', { name: 'review', arguments: 'src', sessionID: 'ses_1', messageID: 'msg_u1' });
+    await send('session.error', { sessionID: 'ses_1', error: { name: 'APIError', data: { message: 'Overloaded' } } });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onSummaryMock).toHaveBeenCalledTimes(1);
+    const summary: SessionSummaryPayload = onSummaryMock.mock.calls[0][0];
+    expect(summary).toEqual({
+      timestamp: '2025-01-01T00:10:00.000Z',
+      eventType: SESSION_SUMMARY_EVENT,
+      sessionId: 'ses_1',
+      sessionTitle: 'Fix login',
+      reason: 'idle',
+      startedAt: '2025-01-01T00:00:00.000Z',
+      durationMs: 10 * 60 * 1000,
+      turns: 1,
+      filesEdited: ['src/login.ts'],
+      commands: ['npm test', '/review src'],
+      errors: [{ name: 'APIError', message: 'Overloaded' }],
+      tokens: { input: 100, output: 50, reasoning: 5, cache: { read: 5, write: 0 } },
+      cost: 0.02,
+    });
+  });
+
+  it('should accumulate usage across turns and only re-emit after new activity', async () => {
+    await send('message.updated', { info: { id: 'msg_u1', sessionID: 'ses_1', role: 'user' } });
+    await assistantMessage('msg_a1', { input: 100, output: 10, reasoning: 0 }, 0.01);
+    await send('session.idle', { sessionID: 'ses_1' });
+    await send('session.idle', { sessionID: 'ses_1' });
+    expect(onSummaryMock).toHaveBeenCalledTimes(1);
+
+    await send('message.updated', { info: { id: 'msg_u2', sessionID: 'ses_1', role: 'user' } });
+    await assistantMessage('msg_a2', { input: 200, output: 20, reasoning: 0 }, 0.02);
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    const summary: SessionSummaryPayload = onSummaryMock.mock.calls[1][0];
+    expect(summary.turns).toBe(2);
+    expect(summary.tokens.input).toBe(300);
+    expect(summary.cost).toBeCloseTo(0.03);
+  });
+
+  it('should emit a final summary when the session is deleted', async () => {
+    await send('message.updated', { info: { id: 'msg_u1', sessionID: 'ses_1', role: 'user' } });
+    await send('session.deleted', { info: { id: 'ses_1', title: 'Done' } });
+
+    expect(onSummaryMock).toHaveBeenCalledWith(expect.objectContaining({
+      reason: 'deleted',
+      sessionTitle: 'Done',
+      turns: 1,
+    }));
+
+    // State is gone: a later idle has nothing to report
+    await send('session.idle', { sessionID: 'ses_1' });
+    expect(onSummaryMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not emit for sessions without activity', async () => {
+    await send('session.created', { info: { id: 'ses_1', title: 'Empty' } });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onSummaryMock).not.toHaveBeenCalled();
+  });
+
+  it('should attribute edits from tool parts and file.edited to the active session', async () => {
+    await send('message.updated', { info: { id: 'msg_u1', sessionID: 'ses_2', role: 'user' } });
+    await send('message.part.updated', {
+      part: {
+        id: 'prt_1',
+        sessionID: 'ses_2',
+        messageID: 'msg_a1',
+        type: 'tool',
+        tool: 'edit',
+        state: { status: 'completed', input: { filePath: '/repo/a.ts' } },
+      },
+    });
+    await send('file.edited', { file: '/repo/b.ts' });
+    await send('session.idle', { sessionID: 'ses_2' });
+
+    expect(onSummaryMock.mock.calls[0][0].filesEdited).toEqual(['/repo/a.ts', '/repo/b.ts']);
+  });
+
+  it('should report edited files relative to the worktree', async () => {
+    tracker = new SessionTracker({
+      context: { worktree: '/repo', directory: '/repo/packages/app' } as PluginContext,
+      onSummary: onSummaryMock,
+    });
+
+    await send('message.updated', { info: { id: 'msg_u1', sessionID: 'ses_1', role: 'user' } });
+    await send('message.part.updated', {
+      part: {
+        id: 'prt_1',
+        sessionID: 'ses_1',
+        messageID: 'msg_a1',
+        type: 'tool',
+        tool: 'write',
+        state: { status: 'completed', input: { filePath: '/repo/src/a.ts' } },
+      },
+    });
+    await send('file.edited', { file: '/repo/src/a.ts' });
+    await send('file.edited', { file: '/tmp/scratch.ts' });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onSummaryMock.mock.calls[0][0].filesEdited).toEqual(['src/a.ts', '/tmp/scratch.ts']);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for HMAC request signing
+ */
+
+import { signPayload, verifySignature } from '../src/signing.js';
+
+describe('signing', () => {
+  const body = JSON.stringify({ eventType: 'session.idle', sessionId: 'session-1' });
+  const timestamp = 1735689600; // 2025-01-01T00:00:00Z
+  const now = timestamp * 1000;
+
+  describe('signPayload', () => {
+    it('should produce a deterministic signature for a given timestamp', () => {
+      const first = signPayload(body, { secret: 'secret' }, timestamp);
+      const second = signPayload(body, { secret: 'secret' }, timestamp);
+
+      expect(first).toEqual(second);
+      expect(first['X-Opencode-Timestamp']).toBe(String(timestamp));
+    });
+
+    it('should change when the secret or body changes', () => {
+      const base = signPayload(body, { secret: 'secret' }, timestamp)['X-Opencode-Signature'];
+
+      expect(signPayload(body, { secret: 'other' }, timestamp)['X-Opencode-Signature']).not.toBe(base);
+      expect(signPayload(body + ' ', { secret: 'secret' }, timestamp)['X-Opencode-Signature']).not.toBe(base);
+    });
+  });
+
+  describe('verifySignature', () => {
+    const headers = signPayload(body, { secret: 'secret' }, timestamp);
+    const signature = headers['X-Opencode-Signature'];
+
+    it('should accept a valid signature', () => {
+      expect(verifySignature({ secret: 'secret', body, signature, timestamp, now })).toBe(true);
+    });
+
+    it('should accept sha512 signatures', () => {
+      const sha512 = signPayload(body, { secret: 'secret', algorithm: 'sha512' }, timestamp);
+
+      expect(
+        verifySignature({ secret: 'secret', body, signature: sha512['X-Opencode-Signature'], timestamp, now })
+      ).toBe(true);
+    });
+
+    it('should reject a tampered body', () => {
+      expect(
+        verifySignature({ secret: 'secret', body: body.replace('session-1', 'session-2'), signature, timestamp, now })
+      ).toBe(false);
+    });
+
+    it('should reject the wrong secret', () => {
+      expect(verifySignature({ secret: 'wrong', body, signature, timestamp, now })).toBe(false);
+    });
+
+    it('should reject requests outside the tolerance window', () => {
+      const later = now + 301 * 1000;
+
+      expect(verifySignature({ secret: 'secret', body, signature, timestamp, now: later })).toBe(false);
+      expect(
+        verifySignature({ secret: 'secret', body, signature, timestamp, now: later, toleranceSecs: 600 })
+      ).toBe(true);
+    });
+
+    it('should reject malformed signature headers', () => {
+      expect(verifySignature({ secret: 'secret', body, signature: 'garbage', timestamp, now })).toBe(false);
+      expect(verifySignature({ secret: 'secret', body, signature: 'md5=abcd', timestamp, now })).toBe(false);
+      expect(verifySignature({ secret: 'secret', body, signature, timestamp: 'soon', now })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for the Slack formatter preset
+ */
+
+import { slackFormatter } from '../src/slack-formatter.js';
+import { BaseEventPayload, AGENT_COMPLETED_EVENT, OpencodeEventType, SESSION_SUMMARY_EVENT, DAILY_USAGE_EVENT, AGENT_AWAITING_PERMISSION_EVENT } from '../src/types.js';
+
+describe('slackFormatter', () => {
+  const completed: BaseEventPayload = {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    eventType: AGENT_COMPLETED_EVENT,
+    sessionId: 'session-123',
+    sessionTitle: 'Fix login bug',
+    messageContent: 'Fixed the <redirect> & added tests.',
+    tokens: { input: 1500, output: 800, reasoning: 50 },
+    cost: 0.0275,
+  };
+
+  describe('incoming-webhook mode', () => {
+    it('should render agent.completed as Block Kit', () => {
+      const message = slackFormatter()(completed);
+
+      expect(message.blocks[0]).toEqual({
+        type: 'header',
+        text: { type: 'plain_text', text: 'Fix login bug', emoji: true },
+      });
+      expect(message.blocks[1]).toEqual({
+        type: 'section',
+        text: { type: 'mrkdwn', text: 'Fixed the &lt;redirect&gt; &amp; added tests.' },
+      });
+      expect(message.blocks[2].type).toBe('context');
+      expect(message.blocks[2].elements.map((e: any) => e.text)).toEqual([
+        '✅ Agent completed',
+        'Tokens: 1,500 in · 800 out · 50 reasoning',
+        'Cost: $0.0275',
+        'Session: `session-123`',
+      ]);
+      expect(message.text).toContain('Fix login bug');
+    });
+
+    it('should truncate long content to Slack limits', () => {
+      const message = slackFormatter()({
+        ...completed,
+        sessionTitle: 'T'.repeat(300),
+        messageContent: 'x'.repeat(5000),
+      });
+
+      expect(message.blocks[0].text.text).toHaveLength(150);
+      expect(message.blocks[1].text.text).toHaveLength(3000);
+      expect(message.blocks[1].text.text.endsWith('…')).toBe(true);
+    });
+
+    it('should honour a smaller maxMessageLength', () => {
+      const message = slackFormatter({ maxMessageLength: 10 })(completed);
+
+      expect(message.blocks[1].text.text).toHaveLength(10);
+    });
+
+    it('should render raw OpenCode events', () => {
+      const message = slackFormatter()({
+        timestamp: '2025-01-01T00:00:00.000Z',
+        eventType: OpencodeEventType.SESSION_ERROR,
+        type: 'session.error',
+        properties: {
+          sessionID: 'session-9',
+          error: { name: 'ProviderAuthError', data: { message: 'Invalid API key' } },
+        },
+      });
+
+      expect(message.blocks[0].text.text).toBe('Session error');
+      expect(message.blocks[1].text.text).toBe('Invalid API key');
+      expect(message.blocks[2].elements.map((e: any) => e.text)).toContain('Session: `session-9`');
+    });
+
+    it('should render session summaries', () => {
+      const message = slackFormatter()({
+        timestamp: '2025-01-01T00:10:00.000Z',
+        eventType: SESSION_SUMMARY_EVENT,
+        sessionId: 'session-1',
+        sessionTitle: 'Fix login bug',
+        reason: 'deleted',
+        durationMs: 725000,
+        turns: 3,
+        filesEdited: ['src/a.ts', 'src/b.ts'],
+        commands: ['npm test'],
+        errors: [],
+        tokens: { input: 1500, output: 800, reasoning: 0, cache: { read: 0, write: 0 } },
+        cost: 0.05,
+      });
+
+      expect(message.blocks[0].text.text).toBe('Fix login bug');
+      expect(message.blocks[1].text.text).toBe(
+        '3 turns · 12m 5s · session closed\nFiles edited (2): `src/a.ts`, `src/b.ts`\nCommands run: 1'
+      );
+      expect(message.blocks[2].elements.map((e: any) => e.text)).toContain('📊 Session summary');
+    });
+
+    it('should render daily usage reports', () => {
+      const message = slackFormatter()({
+        timestamp: '2025-01-02T00:00:01.000Z',
+        eventType: DAILY_USAGE_EVENT,
+        date: '2025-01-01',
+        tokens: { input: 12000, output: 3400, reasoning: 0 },
+        cost: 1.5,
+        messages: 6,
+        sessions: [
+          { sessionId: 'session-1', sessionTitle: 'Fix login bug', tokens: { input: 10000, output: 3000, reasoning: 0 }, cost: 1.25, messages: 4 },
+          { sessionId: 'session-2', tokens: { input: 2000, output: 400, reasoning: 0 }, cost: 0.25, messages: 2 },
+        ],
+      });
+
+      expect(message.blocks[0].text.text).toBe('Daily usage for 2025-01-01');
+      expect(message.blocks[1].text.text).toBe(
+        'Spent $1.50 across 2 sessions · 12,000 input / 3,400 output tokens\n'
+          + '• Fix login bug: $1.25\n• session-2: $0.2500'
+      );
+    });
+
+    it('should render permission action URLs as buttons', () => {
+      const message = slackFormatter()({
+        timestamp: '2025-01-01T00:00:00.000Z',
+        eventType: AGENT_AWAITING_PERMISSION_EVENT,
+        sessionId: 'session-1',
+        sessionTitle: 'Release prep',
+        permissionId: 'per_1',
+        tool: 'bash',
+        title: 'Push to main',
+        command: 'git push origin main',
+        metadata: {},
+        requestedAt: '2025-01-01T00:00:00.000Z',
+        actions: { once: 'https://cb/once', always: 'https://cb/always', reject: 'https://cb/reject' },
+      });
+
+      expect(message.blocks[1].text.text).toBe('The agent wants to run bash: Push to main\n`git push origin main`');
+      expect(message.blocks[2]).toEqual({
+        type: 'actions',
+        elements: [
+          { type: 'button', text: { type: 'plain_text', text: 'Allow once' }, url: 'https://cb/once' },
+          { type: 'button', text: { type: 'plain_text', text: 'Always allow' }, url: 'https://cb/always' },
+          { type: 'button', text: { type: 'plain_text', text: 'Reject' }, url: 'https://cb/reject' },
+        ],
+      });
+    });
+
+    it('should omit the section block when there is no body', () => {
+      const message = slackFormatter()({
+        timestamp: '2025-01-01T00:00:00.000Z',
+        eventType: OpencodeEventType.SESSION_IDLE,
+        properties: { sessionID: 'session-1' },
+      });
+
+      expect(message.blocks.map((b: any) => b.type)).toEqual(['header', 'context']);
+    });
+  });
+
+  describe('workflow mode', () => {
+    it('should render flat string variables', () => {
+      const variables = slackFormatter({ mode: 'workflow' })(completed);
+
+      expect(variables).toEqual({
+        eventType: 'agent.completed',
+        title: '✅ Fix login bug',
+        message: 'Fixed the <redirect> & added tests.',
+        sessionId: 'session-123',
+        tokens: '1,500 in · 800 out · 50 reasoning',
+        cost: '$0.0275',
+        timestamp: '2025-01-01T00:00:00.000Z',
+      });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for the Microsoft Teams formatter preset
+ */
+
+import { teamsFormatter } from '../src/teams-formatter.js';
+import { BaseEventPayload, AGENT_COMPLETED_EVENT } from '../src/types.js';
+
+describe('teamsFormatter', () => {
+  const completed: BaseEventPayload = {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    eventType: AGENT_COMPLETED_EVENT,
+    sessionId: 'session-123',
+    sessionTitle: 'Fix login bug',
+    messageContent: 'Fixed the redirect and added tests.',
+    tokens: { input: 1500, output: 800, reasoning: 50 },
+    cost: 0.0275,
+  };
+
+  it('should wrap an Adaptive Card in a message attachment', () => {
+    const message = teamsFormatter()(completed);
+
+    expect(message.type).toBe('message');
+    expect(message.attachments).toHaveLength(1);
+    expect(message.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+    expect(message.attachments[0].content).toMatchObject({
+      type: 'AdaptiveCard',
+      version: '1.4',
+    });
+  });
+
+  it('should render the title, body and facts', () => {
+    const body = teamsFormatter()(completed).attachments[0].content.body;
+
+    expect(body[0]).toMatchObject({ type: 'TextBlock', text: 'Fix login bug', weight: 'Bolder' });
+    expect(body[1]).toMatchObject({ type: 'TextBlock', text: 'Fixed the redirect and added tests.', wrap: true });
+    expect(body[2]).toEqual({
+      type: 'FactSet',
+      facts: [
+        { title: 'Event', value: '✅ Agent completed' },
+        { title: 'Tokens', value: '1,500 in · 800 out · 50 reasoning' },
+        { title: 'Cost', value: '$0.0275' },
+        { title: 'Session', value: 'session-123' },
+      ],
+    });
+  });
+
+  it('should truncate long bodies', () => {
+    const body = teamsFormatter({ maxMessageLength: 100 })({
+      ...completed,
+      messageContent: 'x'.repeat(500),
+    }).attachments[0].content.body;
+
+    expect(body[1].text).toHaveLength(100);
+  });
+});
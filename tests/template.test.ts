@@ -0,0 +1,87 @@
+/**
+ * Tests for the payload templating language
+ */
+
+import { compileTemplate, TemplateError } from '../src/template.js';
+import { BaseEventPayload } from '../src/types.js';
+
+describe('template', () => {
+  const payload: BaseEventPayload = {
+    timestamp: '2025-01-02T03:04:05.000Z',
+    eventType: 'agent.completed',
+    sessionId: 'session-1',
+    sessionTitle: 'Fix *the* bug',
+    messageContent: 'A long answer from the agent',
+    tokens: { input: 1500, output: 20, reasoning: 0 },
+    cost: 0.012345,
+    files: ['a.ts', 'b.ts'],
+  };
+
+  const render = (template: unknown) => compileTemplate(template)(payload);
+
+  describe('placeholders', () => {
+    it('should interpolate field paths into strings', () => {
+      expect(render('Session {{ sessionId }} used {{tokens.output}} tokens{{missing}}'))
+        .toBe('Session session-1 used 20 tokens');
+    });
+
+    it('should keep the type of a lone placeholder', () => {
+      expect(render({
+        output: '{{tokens.output}}',
+        tokens: '{{tokens}}',
+        missing: '{{missing}}',
+        static: [true, 1],
+      })).toEqual({
+        output: 20,
+        tokens: { input: 1500, output: 20, reasoning: 0 },
+        missing: null,
+        static: [true, 1],
+      });
+    });
+  });
+
+  describe('filters', () => {
+    it('should truncate with an optional suffix', () => {
+      expect(render('{{messageContent | truncate:6}}')).toBe('A lon…');
+      expect(render('{{messageContent | truncate:8,"..."}}')).toBe('A lon...');
+    });
+
+    it('should fall back to a default value', () => {
+      expect(render('{{missing | default:"n/a"}}')).toBe('n/a');
+      expect(render('{{sessionId | default:"n/a"}}')).toBe('session-1');
+    });
+
+    it('should format dates', () => {
+      expect(render('{{timestamp | date:"YYYY/MM/DD HH:mm"}}')).toBe('2025/01/02 03:04');
+      expect(render('{{timestamp | date:date}}')).toBe('2025-01-02');
+      expect(render('{{timestamp | date:unix}}')).toBe('1735787045');
+    });
+
+    it('should escape markdown and HTML', () => {
+      expect(render('{{sessionTitle | escapeMarkdown}}')).toBe('Fix \\*the\\* bug');
+      expect(compileTemplate('{{message | escapeHtml}}')({ ...payload, message: '<b>"x" & y</b>' }))
+        .toBe('&lt;b&gt;&quot;x&quot; &amp; y&lt;/b&gt;');
+    });
+
+    it('should chain filters left to right', () => {
+      expect(render('{{eventType | upper | truncate:5}}')).toBe('AGEN…');
+      expect(render('{{cost | round:3}}')).toBe(0.012);
+      expect(render('{{tokens.input | number}}')).toBe('1,500');
+      expect(render('{{files | join:" + "}}')).toBe('a.ts + b.ts');
+      expect(render('{{files | length}}')).toBe(2);
+      expect(render('{{tokens | json}}')).toBe('{"input":1500,"output":20,"reasoning":0}');
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject unknown filters at compile time', () => {
+      expect(() => compileTemplate('{{sessionId | shout}}')).toThrow(TemplateError);
+      expect(() => compileTemplate('{{sessionId | shout}}')).toThrow(/Unknown filter "shout"/);
+    });
+
+    it('should reject invalid field paths and arguments', () => {
+      expect(() => compileTemplate('{{ session id }}')).toThrow(/Invalid field path/);
+      expect(() => compileTemplate('{{sessionId | truncate:{x}}}')).toThrow(/Invalid filter argument/);
+    });
+  });
+});
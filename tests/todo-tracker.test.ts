@@ -0,0 +1,114 @@
+import { TodoTracker, summarizeTodos, diffTodos } from '../src/todo-tracker';
+import { normalizeEvent } from '../src/normalize';
+import { TodoItem, TodoProgressPayload, TODO_PROGRESS_EVENT } from '../src/types';
+
+const todo = (id: string, content: string, status: string): TodoItem => ({ id, content, status, priority: 'medium' });
+
+describe('summarizeTodos', () => {
+  it('should count todos by status and name the current one', () => {
+    const progress = summarizeTodos([
+      todo('1', 'Read the code', 'completed'),
+      todo('2', 'Write the fix', 'in_progress'),
+      todo('3', 'Add tests', 'pending'),
+      todo('4', 'Update docs', 'cancelled'),
+    ]);
+
+    expect(progress).toMatchObject({
+      total: 4,
+      completed: 1,
+      inProgress: 1,
+      pending: 1,
+      cancelled: 1,
+      current: { id: '2', content: 'Write the fix' },
+      summary: '1/3 done, now working on Write the fix',
+    });
+  });
+
+  it('should say when everything is done', () => {
+    expect(summarizeTodos([todo('1', 'a', 'completed'), todo('2', 'b', 'cancelled')]).summary).toBe('All 1 done');
+    expect(summarizeTodos([todo('1', 'a', 'pending')]).summary).toBe('0/1 done');
+  });
+});
+
+describe('diffTodos', () => {
+  it('should report added, removed and moved todos', () => {
+    const changes = diffTodos(
+      [todo('1', 'a', 'in_progress'), todo('2', 'b', 'pending'), todo('3', 'c', 'pending')],
+      [todo('1', 'a', 'completed'), todo('2', 'b', 'pending'), todo('4', 'd', 'pending')]
+    );
+
+    expect(changes).toEqual([
+      { id: '1', content: 'a', from: 'in_progress', to: 'completed' },
+      { id: '4', content: 'd', to: 'pending' },
+      { id: '3', content: 'c', from: 'pending' },
+    ]);
+  });
+});
+
+describe('TodoTracker', () => {
+  let onProgressMock: jest.Mock;
+  let tracker: TodoTracker;
+
+  const update = (todos: TodoItem[], sessionID = 'ses_1') =>
+    tracker.handleEvent(normalizeEvent({ type: 'todo.updated', properties: { sessionID, todos } }));
+
+  beforeEach(() => {
+    onProgressMock = jest.fn().mockResolvedValue(undefined);
+    tracker = new TodoTracker({ onProgress: onProgressMock });
+  });
+
+  it('should emit todo.progress when the list changes', async () => {
+    await tracker.handleEvent(normalizeEvent({
+      type: 'session.updated',
+      properties: { info: { id: 'ses_1', title: 'Fix login' } },
+    }));
+    await update([todo('1', 'Read the code', 'in_progress'), todo('2', 'Write the fix', 'pending')]);
+    await update([todo('1', 'Read the code', 'completed'), todo('2', 'Write the fix', 'in_progress')]);
+
+    expect(onProgressMock).toHaveBeenCalledTimes(2);
+    const payload: TodoProgressPayload = onProgressMock.mock.calls[1][0];
+    expect(payload).toMatchObject({
+      eventType: TODO_PROGRESS_EVENT,
+      sessionId: 'ses_1',
+      sessionTitle: 'Fix login',
+      summary: '1/2 done, now working on Write the fix',
+      completed: 1,
+      total: 2,
+      changes: [
+        { id: '1', content: 'Read the code', from: 'in_progress', to: 'completed' },
+        { id: '2', content: 'Write the fix', from: 'pending', to: 'in_progress' },
+      ],
+    });
+  });
+
+  it('should ignore updates that change no status', async () => {
+    const todos = [todo('1', 'Read the code', 'in_progress')];
+    await update(todos);
+    await update(todos);
+    await update([{ ...todos[0], priority: 'high' }]);
+
+    expect(onProgressMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the latest list per session', async () => {
+    await update([todo('1', 'a', 'completed')], 'ses_1');
+    await update([todo('1', 'b', 'pending')], 'ses_2');
+
+    expect(tracker.getProgress('ses_1')?.summary).toBe('All 1 done');
+    expect(tracker.getProgress('ses_2')?.summary).toBe('0/1 done');
+    expect(tracker.getProgress('ses_3')).toBeUndefined();
+  });
+
+  it('should forget deleted sessions', async () => {
+    await update([todo('1', 'a', 'pending')]);
+    await tracker.handleEvent(normalizeEvent({ type: 'session.deleted', properties: { info: { id: 'ses_1' } } }));
+
+    expect(tracker.getProgress('ses_1')).toBeUndefined();
+  });
+
+  it('should not throw when delivery fails', async () => {
+    onProgressMock.mockRejectedValue(new Error('boom'));
+
+    await expect(update([todo('1', 'a', 'pending')])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+import { ToolTracker, summarizeArgs } from '../src/tool-tracker';
+import { normalizeEvent } from '../src/normalize';
+import { ToolCompletedPayload, ToolStatsPayload, TOOL_COMPLETED_EVENT, TOOL_STATS_EVENT } from '../src/types';
+
+describe('summarizeArgs', () => {
+  it('should prefer the argument that best describes the call', () => {
+    expect(summarizeArgs({ command: 'npm   test\n  -- --watch', description: 'Run tests' })).toBe('npm test -- --watch');
+    expect(summarizeArgs({ filePath: '/repo/src/a.ts', oldString: 'x', newString: 'y' })).toBe('/repo/src/a.ts');
+    expect(summarizeArgs({ todos: [] })).toBe('{"todos":[]}');
+    expect(summarizeArgs(undefined)).toBe('');
+  });
+
+  it('should truncate long arguments', () => {
+    expect(summarizeArgs({ command: 'x'.repeat(500) })).toHaveLength(200);
+  });
+});
+
+describe('ToolTracker', () => {
+  let onCompletedMock: jest.Mock;
+  let onStatsMock: jest.Mock;
+  let tracker: ToolTracker;
+
+  const send = (type: string, properties: Record<string, any>) =>
+    tracker.handleEvent(normalizeEvent({ type, properties }));
+
+  const before = (callID: string, tool: string, args: Record<string, any>) =>
+    send('tool.execute.before', { tool, sessionID: 'ses_1', callID, args });
+
+  const after = (callID: string, tool: string, output: string, metadata: Record<string, any> = {}) =>
+    send('tool.execute.after', { tool, sessionID: 'ses_1', callID, title: `${tool} call`, output, metadata });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00.000Z') });
+    onCompletedMock = jest.fn().mockResolvedValue(undefined);
+    onStatsMock = jest.fn().mockResolvedValue(undefined);
+    tracker = new ToolTracker({ onCompleted: onCompletedMock, onStats: onStatsMock });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should pair before and after by call ID', async () => {
+    await before('call_1', 'bash', { command: 'npm test' });
+    await before('call_2', 'read', { filePath: '/repo/a.ts' });
+    jest.advanceTimersByTime(200);
+    await after('call_2', 'read', 'file contents');
+    jest.advanceTimersByTime(1300);
+    await after('call_1', 'bash', 'héllo', { exit: 1 });
+
+    expect(onCompletedMock).toHaveBeenCalledTimes(2);
+    const bash: ToolCompletedPayload = onCompletedMock.mock.calls[1][0];
+    expect(bash).toEqual({
+      timestamp: '2025-01-01T00:00:01.500Z',
+      eventType: TOOL_COMPLETED_EVENT,
+      sessionId: 'ses_1',
+      callId: 'call_1',
+      tool: 'bash',
+      status: 'completed',
+      startedAt: '2025-01-01T00:00:00.000Z',
+      durationMs: 1500,
+      argsSummary: 'npm test',
+      title: 'bash call',
+      exitCode: 1,
+      outputBytes: 6,
+      error: undefined,
+      stats: { calls: 1, errors: 0, totalDurationMs: 1500, averageDurationMs: 1500, maxDurationMs: 1500 },
+    });
+    expect(onCompletedMock.mock.calls[0][0]).toMatchObject({ callId: 'call_2', tool: 'read', durationMs: 200 });
+  });
+
+  it('should report failed calls from the tool part, as they have no after', async () => {
+    await before('call_1', 'bash', { command: 'sleep 999' });
+    jest.advanceTimersByTime(120_000);
+    await send('message.part.updated', {
+      part: {
+        id: 'prt_1',
+        sessionID: 'ses_1',
+        messageID: 'msg_1',
+        type: 'tool',
+        tool: 'bash',
+        callID: 'call_1',
+        state: { status: 'error', error: 'Command timed out' },
+      },
+    });
+
+    expect(onCompletedMock).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'error',
+      error: 'Command timed out',
+      durationMs: 120_000,
+      stats: expect.objectContaining({ calls: 1, errors: 1 }),
+    }));
+
+    // The call is finished; a late after is ignored
+    await after('call_1', 'bash', '');
+    expect(onCompletedMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore after without a matching before', async () => {
+    await after('call_9', 'bash', 'output');
+
+    expect(onCompletedMock).not.toHaveBeenCalled();
+  });
+
+  it('should emit per-session statistics when the session goes idle', async () => {
+    for (const [callID, duration] of [['call_1', 100], ['call_2', 300]] as const) {
+      await before(callID, 'read', { filePath: '/repo/a.ts' });
+      jest.advanceTimersByTime(duration);
+      await after(callID, 'read', '');
+    }
+    await before('call_3', 'bash', { command: 'make' });
+    jest.advanceTimersByTime(2000);
+    await after('call_3', 'bash', '');
+
+    await send('session.idle', { sessionID: 'ses_1' });
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onStatsMock).toHaveBeenCalledTimes(1);
+    const stats: ToolStatsPayload = onStatsMock.mock.calls[0][0];
+    expect(stats).toMatchObject({
+      eventType: TOOL_STATS_EVENT,
+      sessionId: 'ses_1',
+      totalCalls: 3,
+      totalErrors: 0,
+      tools: {
+        read: { calls: 2, errors: 0, totalDurationMs: 400, averageDurationMs: 200, maxDurationMs: 300 },
+        bash: { calls: 1, errors: 0, totalDurationMs: 2000, averageDurationMs: 2000, maxDurationMs: 2000 },
+      },
+    });
+  });
+
+  it('should forget deleted sessions', async () => {
+    await before('call_1', 'bash', { command: 'make' });
+    await send('session.deleted', { info: { id: 'ses_1' } });
+    await after('call_1', 'bash', '');
+    await send('session.idle', { sessionID: 'ses_1' });
+
+    expect(onCompletedMock).not.toHaveBeenCalled();
+    expect(onStatsMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { DailyUsageTracker, localDate } from '../src/usage-tracker';
+import { normalizeEvent } from '../src/normalize';
+import { DailyUsagePayload, DAILY_USAGE_EVENT } from '../src/types';
+
+describe('DailyUsageTracker', () => {
+  let onRollupMock: jest.Mock;
+  let tracker: DailyUsageTracker;
+
+  // Local time, so the day boundary matches the machine's timezone
+  const today = new Date(2025, 0, 2, 15, 0, 0);
+  const yesterday = new Date(2025, 0, 1, 22, 0, 0);
+
+  const send = (type: string, properties: Record<string, any>) =>
+    tracker.handleEvent(normalizeEvent({ type, properties }));
+
+  const assistantMessage = (id: string, sessionID: string, created: Date, input: number, cost: number) =>
+    send('message.updated', {
+      info: { id, sessionID, role: 'assistant', time: { created: created.getTime() }, tokens: { input, output: 10, reasoning: 0 }, cost },
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: today });
+    onRollupMock = jest.fn().mockResolvedValue(undefined);
+    tracker = new DailyUsageTracker({ onRollup: onRollupMock });
+  });
+
+  afterEach(async () => {
+    await tracker.destroy();
+    jest.useRealTimers();
+  });
+
+  it('should format local dates', () => {
+    expect(localDate(new Date(2025, 0, 2, 23, 59).getTime())).toBe('2025-01-02');
+    expect(localDate(new Date(2025, 10, 30).getTime())).toBe('2025-11-30');
+  });
+
+  it('should emit the finished day with a per-session breakdown', async () => {
+    await send('session.updated', { info: { id: 'ses_1', title: 'Fix login' } });
+    await assistantMessage('m1', 'ses_1', yesterday, 100, 0.01);
+    await assistantMessage('m2', 'ses_2', yesterday, 300, 0.05);
+    await assistantMessage('m3', 'ses_1', yesterday, 200, 0.02);
+    await assistantMessage('m4', 'ses_1', today, 500, 0.1);
+
+    await tracker.flush();
+
+    expect(onRollupMock).toHaveBeenCalledTimes(1);
+    const rollup: DailyUsagePayload = onRollupMock.mock.calls[0][0];
+    expect(rollup).toEqual(expect.objectContaining({
+      eventType: DAILY_USAGE_EVENT,
+      date: '2025-01-01',
+      tokens: { input: 600, output: 30, reasoning: 0 },
+      messages: 3,
+    }));
+    expect(rollup.cost).toBeCloseTo(0.08);
+    expect(rollup.sessions.map((s) => [s.sessionId, s.sessionTitle, s.messages])).toEqual([
+      ['ses_2', undefined, 1],
+      ['ses_1', 'Fix login', 2],
+    ]);
+
+    // Yesterday is reported once; today is still open
+    await tracker.flush();
+    expect(onRollupMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should roll up automatically after midnight', async () => {
+    await assistantMessage('m1', 'ses_1', today, 100, 0.01);
+
+    jest.advanceTimersByTime(9 * 60 * 60 * 1000 + 1000);
+    await Promise.resolve();
+
+    expect(onRollupMock).toHaveBeenCalledWith(expect.objectContaining({ date: '2025-01-02', messages: 1 }));
+  });
+
+  it('should roll up the previous day with the first event of a new day', async () => {
+    await assistantMessage('m1', 'ses_1', today, 100, 0.01);
+
+    // The clock moves on without the midnight timer firing, as after a sleep
+    jest.setSystemTime(new Date(2025, 0, 3, 9, 0, 0));
+    await send('session.updated', { info: { id: 'ses_2', title: 'Next day' } });
+
+    expect(onRollupMock).toHaveBeenCalledTimes(1);
+    expect(onRollupMock).toHaveBeenCalledWith(expect.objectContaining({ date: '2025-01-02', messages: 1 }));
+  });
+
+  it('should report the open day on destroy', async () => {
+    await assistantMessage('m1', 'ses_1', today, 100, 0.01);
+    await assistantMessage('m2', 'ses_1', today, 200, 0.02);
+
+    await tracker.destroy();
+
+    expect(onRollupMock).toHaveBeenCalledTimes(1);
+    expect(onRollupMock).toHaveBeenCalledWith(expect.objectContaining({ date: '2025-01-02', messages: 2 }));
+
+    // Nothing is left to report twice
+    await tracker.destroy();
+    expect(onRollupMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore user messages and days without usage', async () => {
+    await send('message.updated', {
+      info: { id: 'm1', sessionID: 'ses_1', role: 'user', time: { created: yesterday.getTime() } },
+    });
+    await send('message.updated', {
+      info: { id: 'm2', sessionID: 'ses_1', role: 'assistant', time: { created: yesterday.getTime() } },
+    });
+
+    await tracker.flush();
+
+    expect(onRollupMock).not.toHaveBeenCalled();
+  });
+});
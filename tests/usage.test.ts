@@ -0,0 +1,34 @@
+import { UsageAccumulator } from '../src/usage';
+
+describe('UsageAccumulator', () => {
+  it('should sum usage across messages, keeping the latest report per message', () => {
+    const usage = new UsageAccumulator();
+
+    usage.record('m1', { input: 100, output: 10, reasoning: 0 }, 0.01);
+    usage.record('m2', { input: 50, output: 5, reasoning: 2 }, 0.005);
+    usage.record('m2', { input: 50, output: 25, reasoning: 2 }, 0.008);
+
+    const totals = usage.totals();
+    expect(totals.tokens).toEqual({ input: 150, output: 35, reasoning: 2 });
+    expect(totals.cost).toBeCloseTo(0.018);
+    expect(totals.messages).toBe(2);
+  });
+
+  it('should include cache tokens only when reported', () => {
+    const usage = new UsageAccumulator();
+
+    usage.record('m1', { input: 10, output: 1, reasoning: 0 }, 0);
+    usage.record('m2', { input: 10, output: 1, reasoning: 0, cache: { read: 40, write: 8 } }, 0);
+
+    expect(usage.totals().tokens.cache).toEqual({ read: 40, write: 8 });
+  });
+
+  it('should not count messages without usage', () => {
+    const usage = new UsageAccumulator();
+
+    usage.record('m1');
+
+    expect(usage.size).toBe(0);
+    expect(usage.totals()).toEqual({ tokens: { input: 0, output: 0, reasoning: 0 }, cost: 0, messages: 0 });
+  });
+});
@@ -1,6 +1,8 @@
 import axios, { AxiosError } from 'axios';
-import { WebhookClient } from '../src/webhook-client.js';
+import { WebhookClient, WebhookRequestError, isRetryableError, parseRetryAfter } from '../src/webhook-client.js';
 import { WebhookConfig, BaseEventPayload, OpencodeEventType } from '../src/types.js';
+import { verifySignature } from '../src/signing.js';
+import * as templateModule from '../src/template.js';
 
 // Mock axios
 jest.mock('axios');
@@ -182,6 +184,140 @@ describe('WebhookClient', () => {
       );
     });
 
+    it('should sign the serialized body when signing is configured', async () => {
+      client = new WebhookClient();
+      const configWithSigning: WebhookConfig = {
+        ...mockConfig,
+        signing: { secret: 'shh' },
+      };
+
+      mockedAxios.mockResolvedValueOnce({
+        status: 200,
+        data: { success: true },
+      } as any);
+
+      await client.send(configWithSigning, mockPayload);
+
+      const request = mockedAxios.mock.calls[0][0] as any;
+      expect(request.data).toBe(JSON.stringify(mockPayload));
+      expect(request.headers['X-Opencode-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(
+        verifySignature({
+          secret: 'shh',
+          body: request.data,
+          signature: request.headers['X-Opencode-Signature'],
+          timestamp: request.headers['X-Opencode-Timestamp'],
+        })
+      ).toBe(true);
+    });
+
+    it('should use custom signing headers and algorithm', async () => {
+      client = new WebhookClient();
+      const configWithSigning: WebhookConfig = {
+        ...mockConfig,
+        signing: {
+          secret: 'shh',
+          algorithm: 'sha512',
+          signatureHeader: 'X-Hub-Signature',
+          timestampHeader: 'X-Hub-Timestamp',
+        },
+      };
+
+      mockedAxios.mockResolvedValueOnce({
+        status: 200,
+        data: { success: true },
+      } as any);
+
+      await client.send(configWithSigning, mockPayload);
+
+      const request = mockedAxios.mock.calls[0][0] as any;
+      expect(request.headers['X-Hub-Signature']).toMatch(/^sha512=[0-9a-f]{128}$/);
+      expect(request.headers['X-Hub-Timestamp']).toMatch(/^\d+$/);
+      expect(request.headers['X-Opencode-Signature']).toBeUndefined();
+    });
+
+    it('should format the payload with a preset', async () => {
+      client = new WebhookClient();
+      const configWithPreset: WebhookConfig = {
+        ...mockConfig,
+        preset: 'discord',
+      };
+
+      mockedAxios.mockResolvedValueOnce({
+        status: 204,
+        data: '',
+      } as any);
+
+      await client.send(configWithPreset, mockPayload);
+
+      const request = mockedAxios.mock.calls[0][0] as any;
+      expect(request.data.embeds).toHaveLength(1);
+      expect(request.data.embeds[0].fields).toContainEqual(
+        expect.objectContaining({ name: 'Session', value: '`test-session`' })
+      );
+    });
+
+    it('should prefer transformPayload over a preset', async () => {
+      client = new WebhookClient();
+      const configWithBoth: WebhookConfig = {
+        ...mockConfig,
+        preset: 'teams',
+        transformPayload: () => ({ custom: true }),
+      };
+
+      mockedAxios.mockResolvedValueOnce({
+        status: 200,
+        data: { success: true },
+      } as any);
+
+      await client.send(configWithBoth, mockPayload);
+
+      expect(mockedAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { custom: true } })
+      );
+    });
+
+    it('should render a template', async () => {
+      client = new WebhookClient();
+      const configWithTemplate: WebhookConfig = {
+        ...mockConfig,
+        preset: 'slack',
+        template: { text: '{{eventType | upper}} in {{sessionId}}' },
+      };
+
+      mockedAxios.mockResolvedValueOnce({
+        status: 200,
+        data: { success: true },
+      } as any);
+
+      await client.send(configWithTemplate, mockPayload);
+
+      expect(mockedAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { text: 'SESSION.IDLE in test-session' } })
+      );
+    });
+
+    it('should compile a template once for all attempts of a send', async () => {
+      client = new WebhookClient();
+      const config: WebhookConfig = {
+        ...mockConfig,
+        retry: { maxAttempts: 3, delayMs: 0 },
+        template: { text: '{{eventType}}' },
+      };
+      const compileSpy = jest.spyOn(templateModule, 'compileTemplate');
+
+      mockedAxios
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValue({ status: 200, data: 'ok' } as any);
+
+      await client.send(config, mockPayload);
+
+      expect(mockedAxios).toHaveBeenCalledTimes(3);
+      expect(compileSpy).toHaveBeenCalledTimes(1);
+      compileSpy.mockRestore();
+    });
+
     it('should respect timeout configuration', async () => {
       client = new WebhookClient();
       const configWithTimeout: WebhookConfig = {
@@ -238,6 +374,155 @@ describe('WebhookClient', () => {
     });
   });
 
+  describe('Retry-After handling', () => {
+    const config: WebhookConfig = {
+      url: 'https://hooks.slack.com/services/T/B/X',
+      events: [OpencodeEventType.SESSION_IDLE],
+      retry: { maxAttempts: 2, delayMs: 100 },
+    };
+
+    const payload: BaseEventPayload = {
+      timestamp: '2025-01-01T00:00:00.000Z',
+      eventType: OpencodeEventType.SESSION_IDLE,
+    };
+
+    it('should wait for Retry-After on 429 responses', async () => {
+      client = new WebhookClient(true);
+      const delaySpy = jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+
+      mockedAxios
+        .mockRejectedValueOnce({
+          message: 'Too Many Requests',
+          response: { status: 429, headers: { 'retry-after': '30' } },
+        })
+        .mockResolvedValueOnce({ status: 200, data: 'ok' } as any);
+
+      const result = await client.send(config, payload);
+
+      expect(result.success).toBe(true);
+      expect(delaySpy).toHaveBeenCalledWith(30000);
+    });
+
+    it('should fall back to backoff when no Retry-After is given', async () => {
+      client = new WebhookClient();
+      const delaySpy = jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+
+      mockedAxios
+        .mockRejectedValueOnce({
+          message: 'Too Many Requests',
+          response: { status: 429, headers: {} },
+        })
+        .mockResolvedValueOnce({ status: 200, data: 'ok' } as any);
+
+      await client.send(config, payload);
+
+      expect(delaySpy).toHaveBeenCalledWith(100);
+    });
+
+    it('should wait for Retry-After on 503 responses', async () => {
+      client = new WebhookClient();
+      const delaySpy = jest.spyOn(client as any, 'delay').mockResolvedValue(undefined);
+
+      mockedAxios
+        .mockRejectedValueOnce({
+          message: 'Service Unavailable',
+          response: { status: 503, headers: { 'retry-after': '2' } },
+        })
+        .mockResolvedValueOnce({ status: 200, data: 'ok' } as any);
+
+      await client.send(config, payload);
+
+      expect(delaySpy).toHaveBeenCalledWith(2000);
+    });
+
+    it('should parse delay seconds and HTTP dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('5', now)).toBe(5000);
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('86400', now)).toBe(5 * 60 * 1000);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    });
+  });
+
+  describe('retry classification', () => {
+    const config: WebhookConfig = {
+      url: 'https://example.com/webhook',
+      events: [OpencodeEventType.SESSION_IDLE],
+      retry: { maxAttempts: 3, delayMs: 0 },
+    };
+
+    const payload: BaseEventPayload = {
+      timestamp: '2025-01-01T00:00:00.000Z',
+      eventType: OpencodeEventType.SESSION_IDLE,
+    };
+
+    it.each([400, 401, 403, 404, 422])('should not retry a %i response', async (status) => {
+      client = new WebhookClient();
+      mockedAxios.mockRejectedValue({ message: 'Rejected', response: { status } });
+
+      const result = await client.send(config, payload);
+
+      expect(result).toMatchObject({ success: false, statusCode: status, attempts: 1, retryable: false });
+      expect(mockedAxios).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry server errors and report them as retryable', async () => {
+      client = new WebhookClient();
+      mockedAxios.mockRejectedValue({ message: 'Bad Gateway', response: { status: 502 } });
+
+      const result = await client.send(config, payload);
+
+      expect(result).toMatchObject({ success: false, statusCode: 502, attempts: 3, retryable: true });
+    });
+
+    it('should retry network errors', async () => {
+      client = new WebhookClient();
+      mockedAxios.mockRejectedValue({ message: 'connect ECONNREFUSED', code: 'ECONNREFUSED' });
+
+      const result = await client.send(config, payload);
+
+      expect(result).toMatchObject({ success: false, attempts: 3, retryable: true });
+      expect(result.statusCode).toBeUndefined();
+    });
+
+    it('should use the configured retryable statuses', async () => {
+      client = new WebhookClient();
+      mockedAxios
+        .mockRejectedValueOnce({ message: 'Conflict', response: { status: 409 } })
+        .mockRejectedValueOnce({ message: 'Internal Server Error', response: { status: 500 } });
+
+      const result = await client.send(
+        { ...config, retry: { ...config.retry, retryableStatuses: [409] } },
+        payload
+      );
+
+      expect(result).toMatchObject({ success: false, statusCode: 500, attempts: 2, retryable: false });
+    });
+
+    it('should not retry when the payload cannot be built', async () => {
+      client = new WebhookClient();
+
+      const result = await client.send(
+        { ...config, transformPayload: () => { throw new Error('bad transform'); } },
+        payload
+      );
+
+      expect(result).toMatchObject({ success: false, error: 'bad transform', attempts: 1, retryable: false });
+      expect(mockedAxios).not.toHaveBeenCalled();
+    });
+
+    it('should classify errors', () => {
+      expect(isRetryableError(new WebhookRequestError('timeout'))).toBe(true);
+      expect(isRetryableError(new WebhookRequestError('busy', 429))).toBe(true);
+      expect(isRetryableError(new WebhookRequestError('gone', 410))).toBe(false);
+      expect(isRetryableError(new WebhookRequestError('gone', 410), [410])).toBe(true);
+      expect(isRetryableError(new Error('bug'))).toBe(false);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle unknown error types', async () => {
       client = new WebhookClient();